@@ -0,0 +1,85 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { crawlApp, renderAppMap } from '@/ai/analysis/app-crawler';
+
+const PAGES: Record<string, string> = {
+  '/': `<html><head><title>Shop</title></head><body>
+    <h1>Welcome</h1>
+    <a href="/login">Sign in</a>
+    <a href="/products?page=1#top">Products</a>
+    <a href="/logout">Sign out</a>
+    <a href="/catalog.pdf">Catalog</a>
+    <a href="https://example.com/help">Help</a>
+  </body></html>`,
+  '/login': `<html><head><title>Sign in</title></head><body>
+    <h1>Sign in</h1>
+    <form name="login" action="/api/session">
+      <label for="email">Email</label>
+      <input id="email" type="email" data-cy="email">
+      <input type="password" placeholder="Password">
+      <button type="submit" data-cy="submit">Sign in</button>
+    </form>
+    <a href="/">Home</a>
+  </body></html>`,
+  '/products?page=1': `<html><body><h2>Products</h2><a href="/products/1">First</a><a href="/products/2">Second</a></body></html>`,
+  '/products/1': '<html><body><button>Add to cart</button></body></html>',
+  '/products/2': '<html><body><button>Add to cart</button></body></html>',
+};
+
+let server: http.Server;
+let appUrl: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    requested.push(request.url!);
+    const body = PAGES[request.url!];
+    response.writeHead(body ? 200 : 404, { 'content-type': 'text/html' });
+    response.end(body ?? '<html><body>Not found</body></html>');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  appUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('crawlApp', () => {
+  it('follows same-origin page links breadth-first and records forms and elements', async () => {
+    const { map } = await crawlApp(appUrl, { renderer: 'static' });
+
+    expect(map.renderer).toBe('static');
+    expect(map.pages.map(page => page.path)).toEqual(['/', '/login', '/products?page=1', '/products/1', '/products/2']);
+    expect(requested).not.toContain('/logout');
+    expect(requested).not.toContain('/catalog.pdf');
+    expect(map.truncated).toBe(false);
+
+    const login = map.pages[1];
+    expect(login).toMatchObject({ title: 'Sign in', headings: ['Sign in'], links: ['/'], forms: [{ name: 'login', action: '/api/session', fields: ['Email', 'Password'] }] });
+    expect(login.elements).toEqual(expect.arrayContaining([
+      { role: 'textbox', name: 'Email', tag: 'input', testId: '[data-cy="email"]' },
+      { role: 'button', name: 'Sign in', tag: 'button', testId: '[data-cy="submit"]' },
+    ]));
+  });
+
+  it('stops at the page budget', async () => {
+    const { map, log } = await crawlApp(appUrl, { renderer: 'static', maxPages: 2 });
+
+    expect(map.pages.map(page => page.path)).toEqual(['/', '/login']);
+    expect(map.truncated).toBe(true);
+    expect(log).toContain('page budget of 2 reached');
+  });
+});
+
+describe('renderAppMap', () => {
+  it('puts the pages of interest and the pages they link to first', async () => {
+    const { map } = await crawlApp(appUrl, { renderer: 'static' });
+    const text = renderAppMap(map, { focusPaths: ['/products'] });
+
+    expect(text.indexOf('## /products?page=1')).toBeLessThan(text.indexOf('## /products/1'));
+    expect(text.indexOf('## /products/2')).toBeLessThan(text.indexOf('## / - "Shop"'));
+    expect(text).toContain('Form "login" (action /api/session): Email, Password');
+    expect(text).toContain('button "Sign in" [data-cy="submit"]');
+    expect(renderAppMap(map, { maxChars: 400 })).toMatch(/\(\d more page\(s\) omitted\)$/);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * @fileOverview Crawls the running application and records what its pages render.
+ *
+ * Starting at the app URL, same-origin links are followed breadth-first until the page budget is used up. Each page
+ * is rendered in headless Chrome through puppeteer-core (CYPRESS_PILOT_CHROME_PATH, or a Chrome/Chromium found in the
+ * usual install locations) and its title, headings, links, forms and visible interactive elements with their
+ * accessible names and test ids are read from the DOM. Without a browser, or when it fails to start, the pages' HTML
+ * is fetched and scanned instead, which only sees server-rendered markup. Links that look like sign-out links and
+ * links to files are not followed.
+ *
+ * - findChromeExecutable - The Chrome or Chromium binary the crawler would use, if any.
+ * - launchBrowser - Starts that binary through puppeteer-core, headless unless asked otherwise.
+ * - ELEMENT_FUNCTIONS_SCRIPT - In-page functions giving an element's role, accessible name and test id.
+ * - crawlApp - Builds the AppMap of an application.
+ * - renderAppMap - Renders an AppMap as prompt text within a character budget, pages of interest first.
+ */
+
+import * as fs from 'fs';
+import type { Browser } from 'puppeteer-core';
+import type { AppMap, CrawledElement, CrawledPage } from '@/ai/schemas/app-map';
+import { extractMarkup } from '@/ai/analysis/markup-extractor';
+
+export interface CrawlAppOptions {
+  maxPages?: number;
+  pageTimeoutMs?: number;
+  // Forces a renderer; by default the browser is used when one is found
+  renderer?: AppMap['renderer'];
+  onLog?: (text: string) => void;
+}
+
+const DEFAULT_MAX_PAGES = 20;
+const DEFAULT_PAGE_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_CHARS = 8000;
+const MAX_ELEMENTS_PER_PAGE = 150;
+const CHROME_CANDIDATES = [
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/snap/bin/chromium',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  '/Applications/Chromium.app/Contents/MacOS/Chromium',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+];
+const TEST_ID_ATTRIBUTES = ['data-cy', 'data-testid', 'data-test-id', 'data-test', 'data-qa'];
+const SKIPPED_LINK = /\/(log|sign)[-_]?out\b|\/logoff\b/i;
+const FILE_LINK = /\.(pdf|zip|gz|png|jpe?g|gif|svg|webp|ico|css|js|mjs|json|xml|txt|csv|mp4|webm|mp3|woff2?)$/i;
+
+// Runs in the page, so it is kept as plain JavaScript source instead of functions the bundler could rewrite.
+// The session recorder describes the elements it records with the same functions.
+export const ELEMENT_FUNCTIONS_SCRIPT = `
+  const TEST_ID_ATTRIBUTES = ${JSON.stringify(TEST_ID_ATTRIBUTES)};
+  const textOf = el => (el.innerText || el.textContent || '').replace(/\\s+/g, ' ').trim().slice(0, 80);
+  const visible = el => !!(el.offsetWidth || el.offsetHeight || el.getClientRects().length);
+  const nameOf = el => {
+    const aria = el.getAttribute('aria-label');
+    if (aria && aria.trim()) return aria.trim();
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\\s+/).map(id => document.getElementById(id)).filter(Boolean).map(textOf).join(' ');
+      if (text) return text;
+    }
+    if (el.labels && el.labels.length > 0 && textOf(el.labels[0])) return textOf(el.labels[0]);
+    if (el.tagName === 'INPUT' && /^(submit|button|reset)$/.test(el.type) && el.value) return el.value;
+    return el.getAttribute('placeholder') || (['INPUT', 'SELECT', 'TEXTAREA'].includes(el.tagName) ? '' : textOf(el))
+      || el.getAttribute('title') || el.getAttribute('alt') || el.getAttribute('name') || '';
+  };
+  const roleOf = el => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit;
+    if (el.tagName === 'A') return 'link';
+    if (el.tagName === 'BUTTON') return 'button';
+    if (el.tagName === 'SELECT') return 'combobox';
+    if (el.tagName === 'TEXTAREA') return 'textbox';
+    if (el.tagName === 'INPUT') return { checkbox: 'checkbox', radio: 'radio', submit: 'button', button: 'button', reset: 'button', range: 'slider' }[el.type] || 'textbox';
+    return 'generic';
+  };
+  const testIdOf = el => {
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = el.getAttribute(attribute);
+      if (value) return '[' + attribute + '="' + value + '"]';
+    }
+    return undefined;
+  };`;
+
+const SNAPSHOT_SCRIPT = `(() => {${ELEMENT_FUNCTIONS_SCRIPT}
+  const selector = 'a[href], button, input:not([type=hidden]), select, textarea, [role=button], [role=link], [role=tab], [role=menuitem], [role=checkbox], [role=switch], [role=combobox], '
+    + TEST_ID_ATTRIBUTES.map(attribute => '[' + attribute + ']').join(', ');
+  const elements = [...document.querySelectorAll(selector)].filter(visible).slice(0, ${MAX_ELEMENTS_PER_PAGE}).map(el => ({
+    role: roleOf(el),
+    name: nameOf(el).slice(0, 80),
+    tag: el.tagName.toLowerCase(),
+    testId: testIdOf(el),
+    href: el.tagName === 'A' ? el.href : undefined,
+  }));
+  const forms = [...document.forms].map(form => ({
+    name: form.getAttribute('name') || form.getAttribute('aria-label') || form.id || undefined,
+    action: form.getAttribute('action') || undefined,
+    fields: [...form.elements].filter(el => el.type !== 'hidden' && el.tagName !== 'FIELDSET').map(nameOf).filter(Boolean),
+  }));
+  return {
+    title: document.title || undefined,
+    headings: [...document.querySelectorAll('h1, h2')].map(textOf).filter(Boolean).slice(0, 10),
+    links: [...document.querySelectorAll('a[href]')].map(a => a.href),
+    forms,
+    elements,
+  };
+})()`;
+
+type PageSnapshot = Omit<CrawledPage, 'path' | 'status'>;
+
+export function findChromeExecutable(): string | undefined {
+  const configured = process.env.CYPRESS_PILOT_CHROME_PATH?.trim();
+  if (configured) return configured;
+  return CHROME_CANDIDATES.find(candidate => fs.existsSync(candidate));
+}
+
+// A same-origin page URL without its hash, or undefined for links the crawler does not follow
+function pageUrl(href: string, base: string, origin: string): URL | undefined {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch {
+    return undefined;
+  }
+  if (url.origin !== origin || SKIPPED_LINK.test(url.pathname) || FILE_LINK.test(url.pathname)) return undefined;
+  url.hash = '';
+  return url;
+}
+
+const pathOf = (url: URL) => url.pathname + url.search;
+
+function staticSnapshot(html: string, path: string): PageSnapshot {
+  const { forms, interactiveElements, testIds } = extractMarkup(html, path);
+  const testIdSelector = (value?: string) => {
+    if (!value) return undefined;
+    const entry = testIds.find(testId => testId.value === value);
+    return `[${entry?.attribute || 'data-testid'}="${value}"]`;
+  };
+  const fieldRole = (type?: string) => ({ checkbox: 'checkbox', radio: 'radio', range: 'slider' } as Record<string, string>)[type || ''] || 'textbox';
+  const elements: CrawledElement[] = [
+    ...forms.flatMap(form => form.fields.map(field => ({
+      role: field.tag === 'select' ? 'combobox' : fieldRole(field.type),
+      name: field.label || field.name || field.id || '',
+      tag: field.tag,
+      testId: testIdSelector(field.testId),
+    }))),
+    ...interactiveElements.map(element => ({
+      role: element.kind,
+      name: element.text || '',
+      tag: element.kind === 'link' ? 'a' : 'button',
+      testId: testIdSelector(element.testId),
+      href: element.href,
+    })),
+  ];
+  const textOf = (fragment: string) => fragment.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return {
+    title: html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim() || undefined,
+    headings: [...html.matchAll(/<h[12][^>]*>([\s\S]*?)<\/h[12]>/gi)].map(match => textOf(match[1])).filter(Boolean).slice(0, 10),
+    links: interactiveElements.filter(element => element.href).map(element => element.href!),
+    forms: forms.filter(form => form.name !== '(no <form> element)').map(form => ({
+      name: form.name,
+      action: form.action,
+      fields: form.fields.map(field => field.label || field.name || field.id || '').filter(Boolean),
+    })),
+    elements: elements.slice(0, MAX_ELEMENTS_PER_PAGE),
+  };
+}
+
+export async function launchBrowser(executablePath: string, { headless = true }: { headless?: boolean } = {}): Promise<Browser> {
+  const puppeteer = await import('puppeteer-core');
+  // Chrome's sandbox does not start as root, e.g. in containers
+  const args = process.getuid?.() === 0 ? ['--no-sandbox'] : [];
+  // A visible window keeps its own size instead of puppeteer's 800x600 viewport
+  return puppeteer.launch({ executablePath, headless, args, defaultViewport: headless ? undefined : null });
+}
+
+export async function crawlApp(appUrl: string, options: CrawlAppOptions = {}): Promise<{ map: AppMap; log: string }> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const pageTimeoutMs = options.pageTimeoutMs ?? DEFAULT_PAGE_TIMEOUT_MS;
+  let log = '';
+  const appendLog = (text: string) => {
+    log += text;
+    options.onLog?.(text);
+  };
+
+  const start = new URL(appUrl);
+  const origin = start.origin;
+  let browser: Browser | undefined;
+  if (options.renderer !== 'static') {
+    const executablePath = findChromeExecutable();
+    if (executablePath) {
+      try {
+        browser = await launchBrowser(executablePath);
+        appendLog(`Crawling ${origin} with ${executablePath}.\n`);
+      } catch (error: any) {
+        appendLog(`Could not start ${executablePath} (${error.message}); fetching static HTML instead.\n`);
+      }
+    } else {
+      appendLog('No Chrome or Chromium found (set CYPRESS_PILOT_CHROME_PATH); fetching static HTML instead, so client-rendered content is missed.\n');
+    }
+  }
+
+  const map: AppMap = { origin, renderer: browser ? 'browser' : 'static', crawledAt: new Date().toISOString(), pages: [], skipped: [], truncated: false };
+  const queue: URL[] = [pageUrl(appUrl, appUrl, origin) ?? start];
+  const seen = new Set(queue.map(pathOf));
+  try {
+    while (queue.length > 0) {
+      if (map.pages.length >= maxPages) {
+        map.truncated = true;
+        break;
+      }
+      const url = queue.shift()!;
+      let status: number | undefined;
+      let snapshot: PageSnapshot;
+      let finalUrl = url.href;
+      try {
+        if (browser) {
+          const page = await browser.newPage();
+          try {
+            const response = await page.goto(url.href, { waitUntil: 'networkidle2', timeout: pageTimeoutMs });
+            status = response?.status();
+            finalUrl = page.url();
+            snapshot = await page.evaluate(SNAPSHOT_SCRIPT) as PageSnapshot;
+          } finally {
+            await page.close();
+          }
+        } else {
+          const response = await fetch(url, { signal: AbortSignal.timeout(pageTimeoutMs), headers: { accept: 'text/html' } });
+          status = response.status;
+          finalUrl = response.url || url.href;
+          if (!/html/i.test(response.headers.get('content-type') || '')) {
+            map.skipped.push({ url: url.href, reason: `Not an HTML page (${response.headers.get('content-type') || 'no content type'}).` });
+            continue;
+          }
+          snapshot = staticSnapshot(await response.text(), pathOf(url));
+        }
+      } catch (error: any) {
+        map.skipped.push({ url: url.href, reason: error.message || String(error) });
+        continue;
+      }
+
+      // Redirects to another origin (e.g. a hosted sign-in page) are not followed
+      const landed = pageUrl(finalUrl, finalUrl, origin);
+      if (!landed) {
+        map.skipped.push({ url: url.href, reason: `Redirected to ${finalUrl}.` });
+        continue;
+      }
+      const links = [...new Set(snapshot.links.map(href => pageUrl(href, finalUrl, origin)).filter((link): link is URL => !!link).map(pathOf))];
+      map.pages.push({
+        ...snapshot,
+        path: pathOf(landed),
+        status,
+        links,
+        elements: snapshot.elements.map(element => {
+          const href = element.href && pageUrl(element.href, finalUrl, origin);
+          return { ...element, href: href ? pathOf(href) : element.href };
+        }),
+      });
+      seen.add(pathOf(landed));
+      for (const link of links) {
+        if (seen.has(link)) continue;
+        seen.add(link);
+        queue.push(new URL(link, origin));
+      }
+    }
+  } finally {
+    await browser?.close();
+  }
+  appendLog(`Crawled ${map.pages.length} page(s)${map.truncated ? ` (page budget of ${maxPages} reached)` : ''}; ${map.skipped.length} skipped.\n`);
+  return { map, log };
+}
+
+function renderPage(page: CrawledPage): string {
+  const lines = [`## ${page.path}${page.title ? ` - "${page.title}"` : ''}${page.status && page.status >= 400 ? ` (HTTP ${page.status})` : ''}`];
+  if (page.headings.length > 0) lines.push(`Headings: ${page.headings.join(' | ')}`);
+  for (const form of page.forms) {
+    lines.push(`Form${form.name ? ` "${form.name}"` : ''}${form.action ? ` (action ${form.action})` : ''}: ${form.fields.join(', ')}`);
+  }
+  const elements = page.elements
+    .filter(element => element.name || element.testId)
+    .map(element => `${element.role} "${element.name}"${element.testId ? ` ${element.testId}` : ''}${element.role === 'link' && element.href ? ` -> ${element.href}` : ''}`);
+  if (elements.length > 0) lines.push(`Elements: ${elements.join('; ')}`);
+  if (page.links.length > 0) lines.push(`Links to: ${page.links.join(', ')}`);
+  return lines.join('\n');
+}
+
+export function renderAppMap(map: AppMap, { focusPaths = [], maxChars = DEFAULT_MAX_CHARS }: { focusPaths?: string[]; maxChars?: number } = {}): string {
+  // Pages of interest, then the pages they link to, then the rest in crawl order
+  const focused = map.pages.filter(page => focusPaths.includes(page.path.split('?')[0]));
+  const linked = map.pages.filter(page => !focused.includes(page) && focused.some(focus => focus.links.includes(page.path)));
+  const ordered = [...focused, ...linked, ...map.pages.filter(page => !focused.includes(page) && !linked.includes(page))];
+
+  let text = `Crawled ${map.pages.length} page(s) of ${map.origin} ${map.renderer === 'browser' ? 'rendered in a headless browser' : 'from their static HTML (client-rendered content is missing)'}:`;
+  let omitted = 0;
+  for (const page of ordered) {
+    const section = `\n\n${renderPage(page)}`;
+    if (text.length + section.length > maxChars) {
+      omitted++;
+      continue;
+    }
+    text += section;
+  }
+  if (omitted > 0) text += `\n\n(${omitted} more page(s) omitted)`;
+  return text;
+}
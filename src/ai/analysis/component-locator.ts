@@ -0,0 +1,136 @@
+/**
+ * @fileOverview Resolves the component a Component test for a user flow should mount, and where its spec goes.
+ *
+ * - resolveComponentTestTarget - Picks the component file, its export, props and providers, and a spec path
+ *   that matches the project's component specPattern.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import type { ComponentTestTarget } from '@/ai/schemas/component-test-target';
+import { walkRepository } from '@/ai/analysis/repository-analyzer';
+import { routeFromFilePath } from '@/ai/analysis/route-extractor';
+import { readCypressProjectConfig } from '@/ai/cypress/project-config';
+
+const COMPONENT_EXTENSIONS = new Set(['.tsx', '.jsx', '.vue', '.svelte']);
+const MAX_COMPONENT_SOURCE_CHARS = 8000;
+
+const PROVIDER_HINTS: [RegExp, string][] = [
+  [/from\s+['"]next\/(navigation|router)['"]/, 'Uses the Next.js router: stub useRouter/usePathname (e.g. provide an AppRouterContext value or cy.stub the module) before mounting.'],
+  [/from\s+['"]react-router(-dom)?['"]/, 'Uses React Router: wrap it in <MemoryRouter initialEntries={[...]}> from react-router-dom.'],
+  [/from\s+['"]@tanstack\/react-query['"]|from\s+['"]react-query['"]/, 'Uses React Query: wrap it in <QueryClientProvider client={new QueryClient()}>.'],
+  [/from\s+['"]react-redux['"]/, 'Uses Redux: wrap it in <Provider store={...}> with a test store.'],
+  [/from\s+['"]react-i18next['"]/, 'Uses react-i18next: initialise i18n or wrap it in <I18nextProvider>.'],
+  [/from\s+['"]@apollo\/client['"]/, 'Uses Apollo Client: wrap it in <MockedProvider mocks={[...]}> from @apollo/client/testing.'],
+  [/from\s+['"]next-auth\/react['"]/, 'Uses next-auth: wrap it in <SessionProvider session={...}>.'],
+];
+
+function toPascalCase(name: string): string {
+  return name.replace(/(^|[-_.\s]+)(\w)/g, (_, __, ch: string) => ch.toUpperCase());
+}
+
+function findExport(source: string, file: string): { exportName: string; isDefaultExport: boolean } {
+  const baseName = toPascalCase(path.basename(file, path.extname(file)));
+  if (/\.(vue|svelte)$/.test(file)) {
+    return { exportName: baseName, isDefaultExport: true };
+  }
+  const defaultNamed = source.match(/export\s+default\s+(?:async\s+)?(?:function|class)\s+(\w+)/) ?? source.match(/export\s+default\s+(?:React\.)?(?:memo\(|forwardRef\()?(\w+)\)?\s*;?\s*$/m);
+  if (defaultNamed) {
+    return { exportName: defaultNamed[1], isDefaultExport: true };
+  }
+  if (/export\s+default\b/.test(source)) {
+    return { exportName: baseName, isDefaultExport: true };
+  }
+  const named = [...source.matchAll(/export\s+(?:function|const|class)\s+([A-Z]\w*)/g)].map(m => m[1]);
+  const exportName = named.find(name => name === baseName) ?? named[0] ?? baseName;
+  return { exportName, isDefaultExport: false };
+}
+
+function findPropsDefinition(source: string, exportName: string): string | undefined {
+  const match = new RegExp(`(?:interface|type)\\s+${exportName}Props\\b[^{]*\\{`).exec(source);
+  if (!match) return undefined;
+  let depth = 0;
+  for (let i = match.index + match[0].length - 1; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}' && --depth === 0) return source.slice(match.index, i + 1).slice(0, 1500);
+  }
+  return undefined;
+}
+
+function pickComponentFile(repoPath: string, flow: UserFlow): string | undefined {
+  const isComponent = (file: string) => COMPONENT_EXTENSIONS.has(path.extname(file)) && !/\.(cy|test|spec|stories)\.\w+$/.test(file);
+  const fromFlow = flow.sourceFiles.filter(file => isComponent(file) && fs.existsSync(path.join(repoPath, file)));
+  // Components are easier to mount than route entry files, which usually need the whole app shell
+  const nonRoute = fromFlow.filter(file => !routeFromFilePath(file));
+  if (nonRoute.length > 0 || fromFlow.length > 0) {
+    return (nonRoute.find(file => /components?\//i.test(file)) ?? nonRoute[0]) ?? fromFlow[0];
+  }
+
+  const tokens = `${flow.name} ${flow.id}`.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 4);
+  if (tokens.length === 0) return undefined;
+  const ranked = walkRepository(repoPath).files
+    .filter(isComponent)
+    .map(file => {
+      const baseName = path.basename(file, path.extname(file)).toLowerCase();
+      return { file, score: tokens.filter(token => baseName.includes(token)).length };
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score || a.file.length - b.file.length);
+  return ranked[0]?.file.split(path.sep).join('/');
+}
+
+function chooseSpecPath(componentFile: string, exportName: string, patterns: string[]): string {
+  const ext = componentFile.endsWith('.jsx') ? 'jsx' : /\.(vue|svelte)$/.test(componentFile) ? 'ts' : 'tsx';
+  const specName = `${exportName}.cy.${ext}`;
+  const candidates = [
+    path.posix.join(path.posix.dirname(componentFile), specName),
+    path.posix.join('cypress', 'component', specName),
+  ];
+  const matches = (candidate: string) => patterns.some(pattern => minimatch(candidate, pattern, { dot: true }));
+  const match = candidates.find(matches);
+  if (match) return match;
+
+  // Fall back to the static directory prefix of the first pattern, e.g. "src/specs/**/*.cy.ts" -> "src/specs"
+  const staticPrefix = patterns[0].split('/').filter((segment, index, all) => all.slice(0, index + 1).every(s => !/[*?{[]/.test(s))).join('/');
+  return path.posix.join(staticPrefix || 'cypress/component', specName);
+}
+
+export function resolveComponentTestTarget(repoPath: string, flow: UserFlow): { target?: ComponentTestTarget; error?: string } {
+  const componentFile = pickComponentFile(repoPath, flow);
+  if (!componentFile) {
+    return { error: `Could not find a component file for "${flow.name}". None of the flow's source files is a component and no component file name matches the flow.` };
+  }
+
+  const source = fs.readFileSync(path.join(repoPath, componentFile), 'utf8');
+  const { exportName, isDefaultExport } = findExport(source, componentFile);
+  const config = readCypressProjectConfig(repoPath);
+  const specRelativePath = chooseSpecPath(componentFile, exportName, config.componentSpecPattern);
+
+  const keepExtension = /\.(vue|svelte)$/.test(componentFile);
+  const componentModule = keepExtension ? componentFile : componentFile.replace(/\.(tsx|jsx)$/, '');
+  let importPath = path.posix.relative(path.posix.dirname(specRelativePath), componentModule);
+  if (!importPath.startsWith('.')) importPath = `./${importPath}`;
+
+  const warnings: string[] = [];
+  if (!config.configFile) {
+    warnings.push('No cypress.config file was found, so component tests cannot run until Cypress is set up in the project.');
+  } else if (!config.hasComponentConfig) {
+    warnings.push(`${config.configFile} has no component.devServer; add a "component" section (framework and bundler) before running component tests.`);
+  }
+
+  return {
+    target: {
+      componentFile,
+      exportName,
+      isDefaultExport,
+      specRelativePath,
+      importPath,
+      componentSource: source.length > MAX_COMPONENT_SOURCE_CHARS ? `${source.slice(0, MAX_COMPONENT_SOURCE_CHARS)}\n/* ... truncated ... */` : source,
+      propsDefinition: findPropsDefinition(source, exportName),
+      providerHints: PROVIDER_HINTS.filter(([pattern]) => pattern.test(source)).map(([, hint]) => hint),
+      warnings,
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { findFlowSourceFiles, renderFlowMarkup } from '@/ai/analysis/flow-markup';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+
+const tempDirs: string[] = [];
+
+function fixtureRepo(files: Record<string, string>): string {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-flow-markup-'));
+  tempDirs.push(repo);
+  for (const [relativePath, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  }
+  return repo;
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function flow(fields: Partial<UserFlow>): UserFlow {
+  return {
+    id: 'user-login', name: 'User Login', description: 'Signs in.', steps: [], entryRoute: '/login', preconditions: [], testData: [],
+    priority: 'high', suggestedTestType: 'E2E', sourceFiles: [], ...fields,
+  };
+}
+
+const shop = {
+  'src/app/login/page.tsx': `import { LoginForm } from '@/components/LoginForm';
+import { formatDate } from '../../lib/dates';
+
+export default function LoginPage() {
+  return <main><LoginForm /></main>;
+}
+`,
+  'src/app/orders/[id]/page.tsx': `export default function Order() {
+  return <button data-cy="cancel-order">Cancel</button>;
+}
+`,
+  'src/components/LoginForm.tsx': `import { useState } from 'react';
+
+export function LoginForm() {
+  const [email, setEmail] = useState('');
+  const submit = () => {
+    fetch('/api/session', { method: 'POST' });
+  };
+
+  return (
+    <form onSubmit={submit}>
+      <input
+        type="email"
+        data-cy="email"
+        value={email}
+      />
+      <button type="submit">Sign in</button>
+    </form>
+  );
+}
+`,
+  'src/lib/dates.ts': 'export const formatDate = (date: Date) => date.toISOString();\n',
+};
+
+describe('findFlowSourceFiles', () => {
+  it('finds the page of the entry route and the components it imports', () => {
+    const repo = fixtureRepo(shop);
+
+    expect(findFlowSourceFiles(repo, flow({}))).toEqual(['src/app/login/page.tsx', 'src/components/LoginForm.tsx']);
+    expect(findFlowSourceFiles(repo, flow({ entryRoute: 'http://localhost:3000/orders/42?tab=items' }))).toEqual(['src/app/orders/[id]/page.tsx']);
+  });
+
+  it('puts the flow\'s own source files first', () => {
+    const repo = fixtureRepo(shop);
+
+    expect(findFlowSourceFiles(repo, flow({ entryRoute: '/', sourceFiles: ['src/components/LoginForm.tsx', 'src/missing.tsx'] }))).toEqual(['src/components/LoginForm.tsx']);
+  });
+});
+
+describe('renderFlowMarkup', () => {
+  it('keeps the numbered lines around selectable elements', () => {
+    const repo = fixtureRepo(shop);
+    const { text, files } = renderFlowMarkup(repo, ['src/app/login/page.tsx', 'src/components/LoginForm.tsx']);
+
+    // The page only renders a component, so it has nothing to select
+    expect(files).toEqual(['src/components/LoginForm.tsx']);
+    expect(text).toContain('--- src/components/LoginForm.tsx ---');
+    expect(text).toContain(' 8| \n 9|   return (\n10|     <form onSubmit={submit}>');
+    expect(text).toContain('13|         data-cy="email"');
+    expect(text).toContain('16|       <button type="submit">Sign in</button>');
+    expect(text).not.toContain('useState(');
+  });
+
+  it('stops at the character budget', () => {
+    const repo = fixtureRepo(shop);
+    const { files } = renderFlowMarkup(repo, ['src/components/LoginForm.tsx', 'src/app/orders/[id]/page.tsx'], { maxChars: 300 });
+
+    expect(files).toEqual(['src/components/LoginForm.tsx']);
+  });
+});
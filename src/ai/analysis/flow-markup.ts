@@ -0,0 +1,123 @@
+/**
+ * @fileOverview Retrieves the markup that implements a user flow, so generated specs select elements that exist.
+ *
+ * A flow's files are its sourceFiles, the page files serving its entry route, and the components those files import
+ * through relative or "@/" paths (one level deep). Of each file only the lines around forms, fields, buttons, links
+ * and tags with a test id, role, label or click handler are kept, with their line numbers.
+ *
+ * - findFlowSourceFiles - Lists the repository files that implement a flow, most relevant first.
+ * - renderFlowMarkup - Renders the markup snippets of a flow's files for the generation prompt.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import { walkRepository } from '@/ai/analysis/repository-analyzer';
+import { routeFromFilePath } from '@/ai/analysis/route-extractor';
+import { selectableTagRanges } from '@/ai/analysis/markup-extractor';
+
+const MARKUP_EXTENSIONS = new Set(['.tsx', '.jsx', '.js', '.vue', '.svelte', '.html']);
+const IMPORT_EXTENSIONS = ['', '.tsx', '.jsx', '.ts', '.js', '.vue', '.svelte', '/index.tsx', '/index.jsx', '/index.ts', '/index.js'];
+const MAX_FLOW_FILES = 8;
+const MAX_FILE_BYTES = 200_000;
+const CONTEXT_LINES = 2;
+const DEFAULT_MAX_CHARS = 12_000;
+
+// "/items/:id" matches "/items/42" and "/items/:id"; "*slug" matches the rest of the path
+function routeMatches(routePath: string, entryPath: string): boolean {
+  if (routePath === entryPath) return true;
+  const pattern = routePath
+    .split('/')
+    .map(segment => segment.startsWith(':') ? '[^/]+' : segment.startsWith('*') ? '.*' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('/');
+  return new RegExp(`^${pattern}/?$`).test(entryPath);
+}
+
+function entryPathOf(entryRoute: string): string {
+  try {
+    return new URL(entryRoute, 'http://localhost').pathname;
+  } catch {
+    return entryRoute;
+  }
+}
+
+function resolveImport(fromFile: string, specifier: string, files: Set<string>): string | undefined {
+  const base = specifier.startsWith('@/')
+    ? path.posix.join('src', specifier.slice(2))
+    : path.posix.join(path.posix.dirname(fromFile), specifier);
+  return IMPORT_EXTENSIONS.map(extension => base + extension).find(candidate => files.has(candidate));
+}
+
+function readSource(repoPath: string, file: string): string | undefined {
+  try {
+    const absolutePath = path.join(repoPath, file);
+    if (fs.statSync(absolutePath).size > MAX_FILE_BYTES) return undefined;
+    return fs.readFileSync(absolutePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+export function findFlowSourceFiles(repoPath: string, flow: UserFlow, files = walkRepository(repoPath).files): string[] {
+  const fileSet = new Set(files);
+  const entryPath = entryPathOf(flow.entryRoute);
+  const primary = [
+    ...flow.sourceFiles.filter(file => fileSet.has(file)),
+    ...files.filter(file => {
+      const route = routeFromFilePath(file);
+      return route?.kind === 'page' && routeMatches(route.path, entryPath);
+    }),
+  ];
+
+  const found = new Set(primary);
+  for (const file of primary) {
+    const source = readSource(repoPath, file);
+    if (!source) continue;
+    for (const match of source.matchAll(/\bfrom\s+['"](\.{1,2}\/[^'"]+|@\/[^'"]+)['"]/g)) {
+      const imported = resolveImport(file, match[1], fileSet);
+      if (imported && MARKUP_EXTENSIONS.has(path.extname(imported))) found.add(imported);
+    }
+  }
+  return [...found].filter(file => MARKUP_EXTENSIONS.has(path.extname(file))).slice(0, MAX_FLOW_FILES);
+}
+
+// The selectable tags of a file with a few lines around them; skipped lines are shown as "..."
+function markupSnippet(source: string): string {
+  const lines = source.split('\n');
+  const ranges: { start: number; end: number }[] = [];
+  for (const { startLine, endLine } of selectableTagRanges(source)) {
+    const start = Math.max(1, startLine - CONTEXT_LINES);
+    const end = Math.min(lines.length, endLine + CONTEXT_LINES);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) last.end = Math.max(last.end, end);
+    else ranges.push({ start, end });
+  }
+  const width = String(lines.length).length;
+  return ranges
+    .map(({ start, end }) => lines.slice(start - 1, end).map((line, index) => `${String(start + index).padStart(width)}| ${line}`).join('\n'))
+    .join('\n...\n');
+}
+
+export function renderFlowMarkup(
+  repoPath: string,
+  files: string[],
+  { maxChars = DEFAULT_MAX_CHARS }: { maxChars?: number } = {}
+): { text: string; files: string[] } {
+  const sections: string[] = [];
+  const used: string[] = [];
+  let length = 0;
+  for (const file of files) {
+    const source = readSource(repoPath, file);
+    const snippet = source && markupSnippet(source);
+    if (!snippet) continue;
+    let section = `--- ${file} ---\n${snippet}`;
+    if (length + section.length > maxChars) {
+      if (maxChars - length < 500) break;
+      section = `${section.slice(0, maxChars - length)}\n... truncated ...`;
+    }
+    sections.push(section);
+    used.push(file);
+    length += section.length;
+  }
+  return { text: sections.join('\n\n'), files: used };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { findUntaggedElements } from '@/ai/analysis/markup-extractor';
+
+const LOGIN_FORM = `export function LoginForm() {
+  return (
+    <form onSubmit={submit}>
+      <label htmlFor="email">Email address</label>
+      <input id="email" type="email" data-cy="email" />
+      <input id="password" type="password" placeholder="Password" />
+      <input type="hidden" name="csrf" />
+      <Button type="submit">Sign in</Button>
+      <a href="/forgot">Forgot your password?</a>
+    </form>
+  );
+}
+`;
+
+describe('findUntaggedElements', () => {
+  it('lists fields, buttons and links without the policy attributes and suggests test ids', () => {
+    expect(findUntaggedElements(LOGIN_FORM, 'src/LoginForm.tsx', ['data-cy', 'data-testid'])).toEqual([
+      { file: 'src/LoginForm.tsx', line: 6, tag: 'input', kind: 'field', text: 'Password', suggestedTestId: 'password-input' },
+      { file: 'src/LoginForm.tsx', line: 8, tag: 'Button', kind: 'button', text: 'Sign in', suggestedTestId: 'sign-in' },
+      { file: 'src/LoginForm.tsx', line: 9, tag: 'a', kind: 'link', text: 'Forgot your password?', suggestedTestId: 'forgot-your-password' },
+    ]);
+  });
+
+  it('only counts the attributes the policy uses', () => {
+    expect(findUntaggedElements(LOGIN_FORM, 'src/LoginForm.tsx', ['data-testid']).map(element => element.line)).toEqual([5, 6, 8, 9]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Extracts forms, fields, buttons, links and test ids from JSX, Vue, Svelte, Angular and HTML markup.
+ *
+ * This is a tolerant tag scanner rather than a parser: it finds opening tags, reads their attributes while
+ * skipping over `{...}` expressions and quoted strings, and takes the text up to the matching closing tag.
+ *
+ * - scanTags - Lists the opening tags in a source file with their attributes and line numbers.
+ * - extractMarkup - Builds the form, interactive element and test id entries for one file.
+ * - findUntaggedElements - Lists the fields, buttons and links of one file that have none of the given test id attributes.
+ * - selectableTagRanges - The line ranges of the tags a test can select: forms, fields, buttons, links and tags with a
+ *   test id, role, label or click handler.
+ */
+
+import type { FormEntry, FormField, InteractiveElement, TestIdEntry } from '@/ai/schemas/repository-inventory';
+import type { UntaggedElement } from '@/ai/schemas/selector-policy';
+
+export interface ScannedTag {
+  name: string;
+  attributes: Record<string, string | true>;
+  line: number;
+  start: number;
+  end: number;
+  selfClosing: boolean;
+}
+
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+const FIELD_TAGS = /^(input|select|textarea|Input|Select|Textarea|TextArea|TextField|Checkbox|RadioGroup|Switch)$/;
+const BUTTON_TAGS = /^(button|Button|IconButton)$/;
+const LINK_TAGS = /^(a|Link|NavLink|RouterLink|router-link|nuxt-link|NuxtLink)$/;
+
+export function createLineLocator(source: string): (index: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+  return (index: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+// Reads a tag's attribute section starting right after its name; returns the raw text and the index after `>`.
+function readAttributeSection(source: string, from: number): { raw: string; end: number } | null {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === quote && source[i - 1] !== '\\') quote = null;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+    } else if (ch === '>' && depth <= 0) {
+      return { raw: source.slice(from, i), end: i + 1 };
+    } else if (ch === '<' && depth <= 0) {
+      return null; // Not a tag after all (e.g. a comparison or a generic)
+    }
+  }
+  return null;
+}
+
+function parseAttributes(raw: string): Record<string, string | true> {
+  const attributes: Record<string, string | true> = {};
+  const pattern = /([:@]?[\w.:-]+|\[[\w.-]+\]|\([\w.-]+\))(?:\s*=\s*("([^"]*)"|'([^']*)'|\{\s*["'`]([^"'`]*)["'`]\s*\}|\{([^}]*)\}))?/g;
+  for (const match of raw.matchAll(pattern)) {
+    const name = match[1];
+    const value = match[3] ?? match[4] ?? match[5] ?? (match[6] !== undefined ? `{${match[6].trim()}}` : undefined);
+    attributes[name] = value ?? true;
+  }
+  return attributes;
+}
+
+export function scanTags(source: string): ScannedTag[] {
+  const tags: ScannedTag[] = [];
+  const lineAt = createLineLocator(source);
+  for (const match of source.matchAll(/<([A-Za-z][\w.-]*)(?=[\s/>])/g)) {
+    const start = match.index ?? 0;
+    const section = readAttributeSection(source, start + match[0].length);
+    if (!section) continue;
+    const selfClosing = section.raw.trimEnd().endsWith('/');
+    tags.push({
+      name: match[1],
+      attributes: parseAttributes(selfClosing ? section.raw.trimEnd().slice(0, -1) : section.raw),
+      line: lineAt(start),
+      start,
+      end: section.end,
+      selfClosing,
+    });
+  }
+  return tags;
+}
+
+function attributeValue(tag: ScannedTag, ...names: string[]): string | undefined {
+  for (const name of names) {
+    // Vue/Angular bindings (":href", "[routerLink]") carry expressions; they are still useful as hints.
+    for (const candidate of [name, `:${name}`, `[${name}]`, `v-bind:${name}`]) {
+      const value = tag.attributes[candidate];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function testIdOf(tag: ScannedTag): string | undefined {
+  return attributeValue(tag, ...TEST_ID_ATTRIBUTES);
+}
+
+function innerText(source: string, tag: ScannedTag): string | undefined {
+  if (tag.selfClosing) return undefined;
+  const close = source.indexOf(`</${tag.name}>`, tag.end);
+  if (close === -1 || close - tag.end > 2000) return undefined;
+  const text = source
+    .slice(tag.end, close)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\{[^}]*\}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text ? text.slice(0, 80) : undefined;
+}
+
+function labelsByIdOf(source: string, tags: ScannedTag[]): Map<string, string> {
+  const labelsById = new Map<string, string>();
+  for (const tag of tags.filter(t => t.name === 'label')) {
+    const target = attributeValue(tag, 'htmlFor', 'for');
+    const text = innerText(source, tag);
+    if (target && text) labelsById.set(target, text);
+  }
+  return labelsById;
+}
+
+export function extractMarkup(source: string, file: string): {
+  forms: FormEntry[];
+  interactiveElements: InteractiveElement[];
+  testIds: TestIdEntry[];
+} {
+  const tags = scanTags(source);
+  const forms: FormEntry[] = [];
+  const interactiveElements: InteractiveElement[] = [];
+  const testIds: TestIdEntry[] = [];
+
+  const labelsById = labelsByIdOf(source, tags);
+
+  // Form ranges, so fields can be attributed to the form that contains them
+  const formRanges = tags
+    .filter(tag => tag.name === 'form' || tag.name === 'Form')
+    .map(tag => {
+      const close = source.indexOf(`</${tag.name}>`, tag.end);
+      const entry: FormEntry = {
+        file,
+        line: tag.line,
+        name: attributeValue(tag, 'name', 'id', 'aria-label') ?? testIdOf(tag),
+        action: attributeValue(tag, 'action', 'onSubmit', '@submit', '(ngSubmit)', 'on:submit'),
+        fields: [],
+      };
+      forms.push(entry);
+      return { start: tag.start, end: close === -1 ? source.length : close, entry };
+    });
+  let standaloneFields: FormEntry | undefined;
+
+  for (const tag of tags) {
+    const testId = testIdOf(tag);
+    if (testId) {
+      const attribute = TEST_ID_ATTRIBUTES.find(name => attributeValue(tag, name) === testId) ?? 'data-testid';
+      testIds.push({ attribute, value: testId, tag: tag.name, file, line: tag.line });
+    }
+
+    const isInputButton = tag.name === 'input' && /^(submit|button|reset)$/.test(String(tag.attributes['type']));
+    if (FIELD_TAGS.test(tag.name) && !isInputButton) {
+      const type = attributeValue(tag, 'type');
+      if (type === 'hidden') continue;
+      const id = attributeValue(tag, 'id');
+      const field: FormField = {
+        tag: tag.name,
+        type,
+        name: attributeValue(tag, 'name', 'formControlName', 'v-model', 'bind:value'),
+        id,
+        label: (id && labelsById.get(id)) || attributeValue(tag, 'aria-label', 'label', 'placeholder'),
+        testId,
+        required: tag.attributes['required'] !== undefined ? true : undefined,
+      };
+      const container = formRanges.find(range => tag.start > range.start && tag.start < range.end);
+      if (container) {
+        container.entry.fields.push(field);
+      } else {
+        if (!standaloneFields) {
+          standaloneFields = { file, line: tag.line, name: '(no <form> element)', fields: [] };
+          forms.push(standaloneFields);
+        }
+        standaloneFields.fields.push(field);
+      }
+    } else if (BUTTON_TAGS.test(tag.name) || isInputButton) {
+      interactiveElements.push({
+        kind: 'button',
+        file,
+        line: tag.line,
+        text: innerText(source, tag) ?? attributeValue(tag, 'aria-label', 'value', 'title'),
+        testId,
+      });
+    } else if (LINK_TAGS.test(tag.name)) {
+      interactiveElements.push({
+        kind: 'link',
+        file,
+        line: tag.line,
+        href: attributeValue(tag, 'href', 'to', 'routerLink'),
+        text: innerText(source, tag) ?? attributeValue(tag, 'aria-label', 'title'),
+        testId,
+      });
+    }
+  }
+
+  return { forms: forms.filter(form => form.fields.length > 0 || form.name !== '(no <form> element)'), interactiveElements, testIds };
+}
+
+export function findUntaggedElements(source: string, file: string, testIdAttributes: string[]): UntaggedElement[] {
+  const tags = scanTags(source);
+  const labelsById = labelsByIdOf(source, tags);
+  const untagged: UntaggedElement[] = [];
+  for (const tag of tags) {
+    if (attributeValue(tag, ...testIdAttributes)) continue;
+    const isInputButton = tag.name === 'input' && /^(submit|button|reset)$/.test(String(tag.attributes['type']));
+    let kind: UntaggedElement['kind'];
+    let text: string | undefined;
+    if (FIELD_TAGS.test(tag.name) && !isInputButton) {
+      if (attributeValue(tag, 'type') === 'hidden') continue;
+      const id = attributeValue(tag, 'id');
+      kind = 'field';
+      text = (id && labelsById.get(id)) || attributeValue(tag, 'aria-label', 'label', 'placeholder', 'name', 'formControlName') || id;
+    } else if (BUTTON_TAGS.test(tag.name) || isInputButton) {
+      kind = 'button';
+      text = innerText(source, tag) ?? attributeValue(tag, 'aria-label', 'value', 'title');
+    } else if (LINK_TAGS.test(tag.name)) {
+      kind = 'link';
+      text = innerText(source, tag) ?? attributeValue(tag, 'aria-label', 'title', 'href', 'to');
+    } else {
+      continue;
+    }
+    // Bound expressions such as "{email}" are not useful as text
+    const slug = (text && !text.startsWith('{') ? text : '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40).replace(/-+$/, '');
+    untagged.push({ file, line: tag.line, tag: tag.name, kind, text, suggestedTestId: slug ? `${slug}${kind === 'field' ? '-input' : ''}` : `${kind}-${tag.line}` });
+  }
+  return untagged;
+}
+
+export function selectableTagRanges(source: string): { startLine: number; endLine: number }[] {
+  const lineAt = createLineLocator(source);
+  return scanTags(source)
+    .filter(tag => FIELD_TAGS.test(tag.name) || BUTTON_TAGS.test(tag.name) || LINK_TAGS.test(tag.name) || /^(form|Form|label)$/.test(tag.name)
+      || testIdOf(tag) !== undefined || attributeValue(tag, 'role', 'aria-label', 'onClick', '@click', '(click)', 'on:click') !== undefined)
+    .map(tag => ({ startLine: tag.line, endLine: lineAt(tag.end - 1) }));
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Finds source files in a cloned repository that are relevant to a Cypress spec.
+ *
+ * Search terms are taken from the spec's selectors and `cy.contains` texts and from quoted fragments of
+ * the failure messages; files are ranked by how many of those terms they contain.
+ *
+ * - extractSearchTerms - Collects selector fragments and texts worth searching the source for.
+ * - findRelevantSourceFiles - Ranks repository source files by search-term hits and returns their contents.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RelevantSourceFile {
+  path: string;
+  content: string;
+  matchedTerms: string[];
+}
+
+const SOURCE_EXTENSIONS = new Set(['.tsx', '.jsx', '.ts', '.js', '.vue', '.svelte', '.html']);
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.next', 'dist', 'build', 'out', 'coverage', 'cypress']);
+const MAX_FILES_SCANNED = 5000;
+const MAX_FILE_BYTES = 200_000;
+
+export function extractSearchTerms(...texts: string[]): string[] {
+  const terms = new Set<string>();
+  for (const text of texts) {
+    // Arguments of cy.get / cy.contains / cy.find / cy.visit, and quoted or backticked fragments in error messages
+    for (const match of text.matchAll(/\.(?:get|contains|find|visit)\(\s*(['"`])(.+?)\1/g)) {
+      terms.add(match[2]);
+    }
+    for (const match of text.matchAll(/`([^`\n]{2,80})`|'([^'\n]{2,80})'/g)) {
+      terms.add(match[1] ?? match[2]);
+    }
+  }
+
+  const expanded = new Set<string>();
+  for (const term of terms) {
+    // Attribute selectors are searched by their value, class/id selectors by their name
+    const attributeValues = [...term.matchAll(/\[[\w-]+=["']?([^"'\]]+)["']?\]/g)].map(m => m[1]);
+    const namedParts = [...term.matchAll(/[#.]([A-Za-z][\w-]{2,})/g)].map(m => m[1]);
+    if (attributeValues.length || namedParts.length) {
+      attributeValues.forEach(value => expanded.add(value));
+      namedParts.forEach(name => expanded.add(name));
+    } else if (term.trim().length >= 3 && !/^https?:\/\//.test(term)) {
+      expanded.add(term.trim());
+    }
+  }
+  return [...expanded];
+}
+
+function collectSourceFiles(repoPath: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    if (files.length >= MAX_FILES_SCANNED) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (files.length >= MAX_FILES_SCANNED) return;
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+          walk(path.join(dir, entry.name));
+        }
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(path.extname(entry.name))) {
+        files.push(path.join(dir, entry.name));
+      }
+    }
+  };
+  walk(repoPath);
+  return files;
+}
+
+export function findRelevantSourceFiles(
+  repoPath: string,
+  searchTerms: string[],
+  { maxFiles = 5, maxCharsPerFile = 8000 }: { maxFiles?: number; maxCharsPerFile?: number } = {}
+): RelevantSourceFile[] {
+  if (searchTerms.length === 0 || !fs.existsSync(repoPath)) {
+    return [];
+  }
+
+  const ranked: (RelevantSourceFile & { score: number })[] = [];
+  for (const filePath of collectSourceFiles(repoPath)) {
+    let content: string;
+    try {
+      if (fs.statSync(filePath).size > MAX_FILE_BYTES) continue;
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      continue;
+    }
+    const matchedTerms = searchTerms.filter(term => content.includes(term));
+    if (matchedTerms.length > 0) {
+      ranked.push({ path: path.relative(repoPath, filePath), content, matchedTerms, score: matchedTerms.length });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, maxFiles)
+    .map(({ path: filePath, content, matchedTerms }) => ({
+      path: filePath,
+      content: content.length > maxCharsPerFile ? `${content.slice(0, maxCharsPerFile)}\n/* ... truncated ... */` : content,
+      matchedTerms,
+    }));
+}
@@ -0,0 +1,242 @@
+/**
+ * @fileOverview Walks a cloned repository and builds a structured inventory for the model.
+ *
+ * The walk honours the repository's .gitignore files (root and nested). Every source file is fed to the
+ * route and markup extractors; the resulting inventory is rendered as text within a token budget so large
+ * repositories do not overflow the prompt.
+ *
+ * - walkRepository - Lists repository files, relative to the root, skipping ignored paths.
+ * - analyzeRepository - Builds the RepositoryInventory for a repository path.
+ * - renderInventory - Renders an inventory as prompt text within an approximate token budget.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { type Ignore } from 'ignore';
+import type { RepositoryInventory } from '@/ai/schemas/repository-inventory';
+import { routeFromFilePath, routesFromSource } from '@/ai/analysis/route-extractor';
+import { extractMarkup } from '@/ai/analysis/markup-extractor';
+import { inventoryCypressSpecs, isCypressSpecFile } from '@/ai/analysis/spec-inventory';
+
+const ALWAYS_SKIPPED = new Set(['.git', 'node_modules']);
+const SOURCE_EXTENSIONS = new Set(['.tsx', '.jsx', '.ts', '.js', '.mjs', '.vue', '.svelte', '.html', '.mdx']);
+const MAX_FILES = 20000;
+const MAX_SOURCE_FILE_BYTES = 300_000;
+const KEY_DEPENDENCIES = ['next', 'react', 'react-dom', 'react-router', 'react-router-dom', 'vue', 'vue-router', 'nuxt', '@angular/core', '@angular/router', 'svelte', '@sveltejs/kit', 'cypress', 'vite', 'webpack', 'express'];
+// Rough characters-per-token ratio used for the prompt budget
+const CHARS_PER_TOKEN = 4;
+
+export function walkRepository(repoPath: string, maxFiles = MAX_FILES): { files: string[]; truncated: boolean } {
+  const files: string[] = [];
+  let truncated = false;
+
+  const walk = (relativeDir: string, matchers: { base: string; ig: Ignore }[]) => {
+    if (truncated) return;
+    const absoluteDir = path.join(repoPath, relativeDir);
+    const gitignorePath = path.join(absoluteDir, '.gitignore');
+    let scopedMatchers = matchers;
+    if (fs.existsSync(gitignorePath)) {
+      scopedMatchers = [...matchers, { base: relativeDir, ig: ignore().add(fs.readFileSync(gitignorePath, 'utf8')) }];
+    }
+    const isIgnored = (relativePath: string, isDirectory: boolean) => scopedMatchers.some(({ base, ig }) => {
+      const fromBase = path.relative(base, relativePath).split(path.sep).join('/');
+      return ig.ignores(isDirectory ? `${fromBase}/` : fromBase);
+    });
+
+    for (const entry of fs.readdirSync(absoluteDir, { withFileTypes: true })) {
+      if (ALWAYS_SKIPPED.has(entry.name) || entry.isSymbolicLink()) continue;
+      const relativePath = path.join(relativeDir, entry.name);
+      if (isIgnored(relativePath, entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        walk(relativePath, scopedMatchers);
+      } else if (entry.isFile()) {
+        if (files.length >= maxFiles) {
+          truncated = true;
+          return;
+        }
+        files.push(relativePath);
+      }
+      if (truncated) return;
+    }
+  };
+
+  walk('', []);
+  return { files, truncated };
+}
+
+function readPackageJson(repoPath: string): any | undefined {
+  const packageJsonPath = path.join(repoPath, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) return undefined;
+  try {
+    return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+export function analyzeRepository(repoPath: string): { inventory: RepositoryInventory; log: string } {
+  let log = `Walking repository at ${repoPath} (respecting .gitignore)...\n`;
+  const { files, truncated } = walkRepository(repoPath);
+  log += `Found ${files.length} files${truncated ? ` (stopped at the ${MAX_FILES} file limit)` : ''}.\n`;
+
+  const packageJson = readPackageJson(repoPath);
+  const allDependencies = { ...(packageJson?.dependencies || {}), ...(packageJson?.devDependencies || {}) };
+  const keyDependencies = KEY_DEPENDENCIES.filter(name => name in allDependencies);
+  if (packageJson === undefined && fs.existsSync(path.join(repoPath, 'package.json'))) {
+    log += `Warning: Could not parse package.json.\n`;
+  }
+
+  const inventory: RepositoryInventory = {
+    packageName: packageJson?.name,
+    frameworks: [],
+    keyDependencies,
+    fileCount: files.length,
+    truncated,
+    topLevelDirectories: [],
+    routes: [],
+    forms: [],
+    interactiveElements: [],
+    testIds: [],
+    cypressSpecs: [],
+    existingTests: inventoryCypressSpecs(repoPath, files),
+  };
+
+  const topLevelCounts = new Map<string, number>();
+  let sourceFilesRead = 0;
+  for (const relativePath of files) {
+    const posixPath = relativePath.split(path.sep).join('/');
+    const topLevel = posixPath.includes('/') ? posixPath.split('/')[0] : '.';
+    topLevelCounts.set(topLevel, (topLevelCounts.get(topLevel) || 0) + 1);
+
+    if (isCypressSpecFile(posixPath)) {
+      inventory.cypressSpecs.push(posixPath);
+      continue;
+    }
+
+    const fileRoute = routeFromFilePath(relativePath);
+    if (fileRoute) inventory.routes.push(fileRoute);
+
+    if (!SOURCE_EXTENSIONS.has(path.extname(relativePath)) || /\.(test|spec|stories|d)\.\w+$/.test(relativePath)) continue;
+    let source: string;
+    try {
+      const absolutePath = path.join(repoPath, relativePath);
+      if (fs.statSync(absolutePath).size > MAX_SOURCE_FILE_BYTES) continue;
+      source = fs.readFileSync(absolutePath, 'utf8');
+    } catch {
+      continue;
+    }
+    sourceFilesRead++;
+
+    inventory.routes.push(...routesFromSource(source, relativePath));
+    const markup = extractMarkup(source, posixPath);
+    inventory.forms.push(...markup.forms);
+    inventory.interactiveElements.push(...markup.interactiveElements);
+    inventory.testIds.push(...markup.testIds);
+  }
+
+  inventory.topLevelDirectories = [...topLevelCounts.entries()]
+    .map(([name, fileCount]) => ({ name, fileCount }))
+    .sort((a, b) => b.fileCount - a.fileCount);
+
+  const frameworks = new Set<string>(inventory.routes.map(route => route.framework));
+  if ('next' in allDependencies) frameworks.add('next');
+  if ('react' in allDependencies) frameworks.add('react');
+  if ('vue' in allDependencies) frameworks.add('vue');
+  if ('@angular/core' in allDependencies) frameworks.add('angular');
+  if ('svelte' in allDependencies) frameworks.add('svelte');
+  inventory.frameworks = [...frameworks];
+
+  log += `Read ${sourceFilesRead} source files: ${inventory.routes.length} routes, ${inventory.forms.length} forms, ${inventory.interactiveElements.length} buttons/links, ${inventory.testIds.length} test ids, ${inventory.cypressSpecs.length} existing Cypress specs, ${inventory.existingTests.customCommands.length} custom Cypress commands.\n`;
+  return { inventory, log };
+}
+
+interface InventorySection {
+  title: string;
+  share: number;
+  lines: string[];
+}
+
+export function renderInventory(inventory: RepositoryInventory, tokenBudget = 6000): string {
+  const header = [
+    `Package name: ${inventory.packageName || 'N/A'}`,
+    `Frameworks: ${inventory.frameworks.join(', ') || 'none detected'}`,
+    `Key dependencies: ${inventory.keyDependencies.join(', ') || 'none'}`,
+    `Files analyzed: ${inventory.fileCount}${inventory.truncated ? ' (file limit reached, inventory is partial)' : ''}`,
+  ];
+
+  const fieldText = (field: RepositoryInventory['forms'][number]['fields'][number]) =>
+    [field.tag, field.type && `type=${field.type}`, field.name && `name=${field.name}`, field.label && `"${field.label}"`, field.testId && `testid=${field.testId}`]
+      .filter(Boolean).join(' ');
+
+  const sections: InventorySection[] = [
+    {
+      title: 'Routes',
+      share: 3,
+      lines: inventory.routes.map(route => `${route.kind === 'api' ? '[api] ' : ''}${route.path} -> ${route.file}${route.component ? ` (${route.component})` : ''}`),
+    },
+    {
+      title: 'Forms',
+      share: 3,
+      lines: inventory.forms.map(form => `${form.file}:${form.line}${form.name ? ` ${form.name}` : ''}: ${form.fields.map(fieldText).join('; ') || 'no fields found'}`),
+    },
+    {
+      title: 'Test ids (data-testid / data-cy)',
+      share: 2,
+      lines: inventory.testIds.map(entry => `${entry.attribute}="${entry.value}" on <${entry.tag}> in ${entry.file}:${entry.line}`),
+    },
+    {
+      title: 'Buttons',
+      share: 1,
+      lines: inventory.interactiveElements.filter(el => el.kind === 'button' && (el.text || el.testId))
+        .map(el => `"${el.text || ''}"${el.testId ? ` testid=${el.testId}` : ''} in ${el.file}:${el.line}`),
+    },
+    {
+      title: 'Links',
+      share: 1,
+      lines: inventory.interactiveElements.filter(el => el.kind === 'link' && el.href)
+        .map(el => `${el.href}${el.text ? ` "${el.text}"` : ''} in ${el.file}:${el.line}`),
+    },
+    {
+      title: 'Existing Cypress specs (file: tests)',
+      share: 1,
+      lines: inventory.existingTests.specs.map(spec => `${spec.file}: ${spec.tests.map(title => `"${title}"`).join(', ') || 'no tests found'}`),
+    },
+    {
+      title: 'Custom Cypress commands',
+      share: 0.5,
+      lines: inventory.existingTests.customCommands.map(command => `cy.${command.name}(${command.parameters}) in ${command.file}:${command.line}`),
+    },
+    {
+      title: 'Top-level directories (file counts)',
+      share: 0.5,
+      lines: inventory.topLevelDirectories.map(dir => `${dir.name}: ${dir.fileCount}`),
+    },
+  ];
+
+  let text = header.join('\n') + '\n';
+  let remainingChars = tokenBudget * CHARS_PER_TOKEN - text.length;
+  let remainingShares = sections.reduce((sum, section) => sum + section.share, 0);
+
+  // Each section gets its share of what is left; space a section does not use rolls over to the next ones.
+  for (const section of sections) {
+    const allowance = Math.floor(remainingChars * section.share / remainingShares);
+    remainingShares -= section.share;
+    if (section.lines.length === 0) continue;
+
+    let sectionText = `\n${section.title}:\n`;
+    let included = 0;
+    for (const line of section.lines) {
+      const entry = `  - ${line}\n`;
+      if (sectionText.length + entry.length > allowance) break;
+      sectionText += entry;
+      included++;
+    }
+    if (included === 0) continue;
+    if (included < section.lines.length) {
+      sectionText += `  ... (${section.lines.length - included} more omitted for the token budget)\n`;
+    }
+    text += sectionText;
+    remainingChars -= sectionText.length;
+  }
+  return text;
+}
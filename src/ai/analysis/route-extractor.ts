@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Extracts route definitions from file-system routers and route configuration code.
+ *
+ * - routeFromFilePath - Maps a Next.js (app/pages), SvelteKit or Nuxt file to the route it serves.
+ * - routesFromSource - Finds React Router, Vue Router and Angular route declarations in a source file.
+ */
+
+import * as path from 'path';
+import type { RouteEntry } from '@/ai/schemas/repository-inventory';
+
+const SCRIPT_EXTENSIONS = /\.(tsx|jsx|ts|js|mdx)$/;
+
+// Converts bracketed dynamic segments to ":param" / "*param" and drops route groups and parallel-route slots.
+function toRoutePath(segments: string[]): string {
+  const parts = segments
+    .filter(segment => !/^\(.*\)$/.test(segment) && !segment.startsWith('@'))
+    .map(segment => segment
+      .replace(/^\[\[?\.\.\.(\w+)\]\]?$/, '*$1')
+      .replace(/^\[(\w+)(?:=\w+)?\]$/, ':$1'));
+  return '/' + parts.join('/');
+}
+
+export function routeFromFilePath(relativePath: string): RouteEntry | null {
+  const normalized = relativePath.split(path.sep).join('/');
+  const file = normalized;
+
+  // Next.js app router: app/**/page.tsx and app/**/route.ts
+  const appMatch = normalized.match(/^(?:src\/)?app\/(.*?)\/?(page|route)\.(tsx|jsx|ts|js|mdx)$/);
+  if (appMatch) {
+    const segments = appMatch[1] ? appMatch[1].split('/') : [];
+    return { path: toRoutePath(segments), file, framework: 'next-app', kind: appMatch[2] === 'route' ? 'api' : 'page' };
+  }
+
+  // SvelteKit: src/routes/**/+page.svelte and +server.ts
+  const svelteMatch = normalized.match(/^src\/routes\/(.*?)\/?\+(page\.svelte|server\.(ts|js))$/);
+  if (svelteMatch) {
+    const segments = svelteMatch[1] ? svelteMatch[1].split('/') : [];
+    return { path: toRoutePath(segments), file, framework: 'sveltekit', kind: svelteMatch[2] === 'page.svelte' ? 'page' : 'api' };
+  }
+
+  // Next.js pages router and Nuxt: pages/**/*.tsx / *.vue
+  const pagesMatch = normalized.match(/^(?:src\/)?pages\/(.+)\.(tsx|jsx|ts|js|mdx|vue)$/);
+  if (pagesMatch) {
+    const segments = pagesMatch[1].split('/');
+    const last = segments[segments.length - 1];
+    if (/^_(app|document|error)$/.test(last) || /^\d{3}$/.test(last)) return null;
+    if (last === 'index') segments.pop();
+    const framework = pagesMatch[2] === 'vue' ? 'nuxt' : 'next-pages';
+    return { path: toRoutePath(segments), file, framework, kind: segments[0] === 'api' ? 'api' : 'page' };
+  }
+
+  return null;
+}
+
+export function routesFromSource(source: string, relativePath: string): RouteEntry[] {
+  const file = relativePath.split(path.sep).join('/');
+  let framework: RouteEntry['framework'] | null = null;
+  if (/from\s+['"]react-router(-dom)?['"]/.test(source)) framework = 'react-router';
+  else if (/from\s+['"]vue-router['"]/.test(source)) framework = 'vue-router';
+  else if (/from\s+['"]@angular\/router['"]/.test(source)) framework = 'angular';
+  if (!framework || !SCRIPT_EXTENSIONS.test(file)) return [];
+
+  const routes: RouteEntry[] = [];
+  const seen = new Set<string>();
+  const add = (routePath: string, component?: string) => {
+    const key = `${routePath}|${component ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    routes.push({ path: routePath, file, framework: framework!, kind: 'page', component });
+  };
+
+  // <Route path="/users/:id" element={<UserPage />} /> (React Router JSX)
+  for (const match of source.matchAll(/<Route\b[^>]*?\bpath=["'{`]+([^"'}`]*)["'}`]+[^>]*>/g)) {
+    const component = match[0].match(/(?:element=\{<|component=\{)(\w+)/)?.[1];
+    add(match[1], component);
+  }
+
+  // { path: 'users/:id', component: UserComponent } / { path: '/x', element: <X /> } (route config objects)
+  for (const match of source.matchAll(/\bpath\s*:\s*['"`]([^'"`]*)['"`]/g)) {
+    const window = source.slice(match.index ?? 0, (match.index ?? 0) + 300).split('}')[0];
+    const component = window.match(/\b(?:component|element|Component|loadComponent)\s*:\s*(?:<|\(\)\s*=>\s*import\(['"`]([^'"`]+)['"`]\)|)(\w+)?/);
+    add(match[1], component?.[2] ?? component?.[1]);
+  }
+
+  return routes;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { condenseEvents, recordingToUserFlow, renderRecording } from '@/ai/analysis/session-recorder';
+import type { RecordedEvent, RecordedTarget, SessionRecording } from '@/ai/schemas/session-recording';
+
+const email: RecordedTarget = { tag: 'input', role: 'textbox', name: 'Email', testId: '[data-cy="email"]', fieldName: 'email', type: 'email', cssPath: 'form > input:nth-of-type(1)' };
+const password: RecordedTarget = { tag: 'input', role: 'textbox', name: 'Password', id: 'password', type: 'password', cssPath: '#password' };
+const submit: RecordedTarget = { tag: 'button', role: 'button', name: 'Sign in', cssPath: 'form > button' };
+
+const EVENTS: RecordedEvent[] = [
+  { type: 'navigate', at: 0, path: '/login' },
+  { type: 'request', at: 50, path: '/login', request: { method: 'GET', url: '/api/config', status: 200, resourceType: 'fetch' } },
+  { type: 'type', at: 100, path: '/login', target: email, value: 'a' },
+  { type: 'type', at: 110, path: '/login', target: email, value: 'al' },
+  { type: 'type', at: 120, path: '/login', target: email, value: 'alice@example.com' },
+  { type: 'type', at: 200, path: '/login', target: password, value: '', sensitive: true },
+  { type: 'type', at: 210, path: '/login', target: password, value: '', sensitive: true },
+  { type: 'click', at: 300, path: '/login', target: submit },
+  { type: 'submit', at: 301, path: '/login', target: { tag: 'form', role: 'generic', name: 'login', cssPath: 'form' } },
+  { type: 'request', at: 400, path: '/login', request: { method: 'POST', url: '/api/session', status: 201, resourceType: 'fetch' } },
+  { type: 'navigate', at: 500, path: '/dashboard' },
+  { type: 'navigate', at: 510, path: '/dashboard' },
+];
+
+const recording: SessionRecording = { appUrl: 'http://localhost:3000/login', startedAt: '2026-10-19T09:00:00.000Z', stoppedAt: '2026-10-19T09:01:00.000Z', events: EVENTS };
+
+describe('condenseEvents', () => {
+  it('keeps the final value of each field and drops repeated navigations', () => {
+    const condensed = condenseEvents(EVENTS);
+    expect(condensed.filter(event => event.type === 'type').map(event => [event.target!.name, event.value, event.at])).toEqual([
+      ['Email', 'alice@example.com', 100],
+      ['Password', '', 200],
+    ]);
+    expect(condensed.filter(event => event.type === 'navigate').map(event => event.path)).toEqual(['/login', '/dashboard']);
+  });
+
+  it('merges typing interleaved with the requests it triggers', () => {
+    const search: RecordedTarget = { tag: 'input', role: 'textbox', name: 'Search', cssPath: 'header > input' };
+    const condensed = condenseEvents([
+      { type: 'type', at: 0, path: '/', target: search, value: 'c' },
+      { type: 'request', at: 10, path: '/', request: { method: 'GET', url: '/api/search?q=c', status: 200, resourceType: 'fetch' } },
+      { type: 'type', at: 20, path: '/', target: search, value: 'ca' },
+    ]);
+    expect(condensed.map(event => event.type)).toEqual(['type', 'request']);
+    expect(condensed[0].value).toBe('ca');
+  });
+});
+
+describe('renderRecording', () => {
+  it('numbers the steps with element details and the API calls they triggered', () => {
+    expect(renderRecording(recording)).toBe([
+      '1. Visit /login',
+      '   -> GET /api/config (200)',
+      '2. Type "alice@example.com" into textbox "Email" [data-cy="email"] name="email" type="email"',
+      '3. Type the password into textbox "Password" #password type="password"',
+      '4. Click button "Sign in"',
+      '5. Submit the form "login"',
+      '   -> POST /api/session (201)',
+      '6. Arrive at /dashboard',
+    ].join('\n'));
+  });
+});
+
+describe('recordingToUserFlow', () => {
+  it('describes the recorded flow without recording the password', () => {
+    const flow = recordingToUserFlow(recording, 'Sign In');
+    expect(flow).toMatchObject({ id: 'sign-in', name: 'Sign In', entryRoute: '/login', suggestedTestType: 'E2E', sourceFiles: [] });
+    expect(flow.steps).toHaveLength(6);
+    expect(flow.testData).toEqual(['"alice@example.com" for textbox "Email"', 'A password for textbox "Password"']);
+    expect(flow).not.toHaveProperty('app');
+  });
+
+  it('tags the flow with the monorepo app it was recorded in', () => {
+    expect(recordingToUserFlow(recording, 'Sign In', 'apps/web').app).toBe('apps/web');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @fileOverview Records a user session in a visible browser window and condenses it into steps for spec generation.
+ *
+ * The app URL is opened in Chrome through puppeteer-core (see app-crawler.ts for how the binary is found). A script
+ * injected into every page reports clicks, typing, selections, checks and form submissions with a description of the
+ * element acted on; navigations of the main frame and fetch/XHR calls are read from the browser. Password fields are
+ * recorded without their value. The recording ends when the user closes the window, or after maxDurationMs.
+ *
+ * - recordSession - Opens the browser and resolves with the recording once the window is closed.
+ * - condenseEvents - Merges keystrokes into one typing event per field and drops repeated navigations.
+ * - renderRecording - Renders a recording as numbered steps with element details and API calls, for prompts.
+ * - recordingToUserFlow - Builds the UserFlow a recording performs, to generate and save its spec like any other flow.
+ *   In a monorepo the flow belongs to the app the recording was made in.
+ */
+
+import type { RecordedEvent, RecordedTarget, SessionRecording } from '@/ai/schemas/session-recording';
+import { RecordedEventSchema } from '@/ai/schemas/session-recording';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import { ELEMENT_FUNCTIONS_SCRIPT, findChromeExecutable, launchBrowser } from '@/ai/analysis/app-crawler';
+import { toFlowId } from '@/lib/user-flows';
+
+export interface RecordSessionOptions {
+  maxDurationMs?: number;
+  onEvent?: (event: RecordedEvent) => void;
+  onLog?: (text: string) => void;
+}
+
+const DEFAULT_MAX_DURATION_MS = 30 * 60_000;
+const NAVIGATION_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_CHARS = 8000;
+const MAX_REQUESTS_PER_STEP = 5;
+const BINDING = '__cypressPilotRecord';
+
+// Runs in every page before its own scripts; clicks on fields are left out because their typing, selection or
+// check is recorded instead
+const RECORDER_SCRIPT = `(() => {
+  if (window.__cypressPilotRecorder) return;
+  window.__cypressPilotRecorder = true;${ELEMENT_FUNCTIONS_SCRIPT}
+  const cssPath = el => {
+    const parts = [];
+    for (let node = el; node && node.nodeType === 1 && parts.length < 4; node = node.parentElement) {
+      if (node.id) {
+        parts.unshift('#' + CSS.escape(node.id));
+        break;
+      }
+      const siblings = node.parentElement ? [...node.parentElement.children].filter(sibling => sibling.tagName === node.tagName) : [];
+      parts.unshift(node.tagName.toLowerCase() + (siblings.length > 1 ? ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')' : ''));
+    }
+    return parts.join(' > ');
+  };
+  const describe = el => ({
+    tag: el.tagName.toLowerCase(),
+    role: roleOf(el),
+    name: nameOf(el).slice(0, 80),
+    testId: testIdOf(el),
+    id: el.id || undefined,
+    fieldName: el.getAttribute('name') || undefined,
+    type: el.tagName === 'INPUT' ? el.type : undefined,
+    href: el.tagName === 'A' ? el.getAttribute('href') || undefined : undefined,
+    cssPath: cssPath(el),
+  });
+  const record = event => window.${BINDING}(JSON.stringify({ ...event, path: location.pathname + location.search }));
+  const ACTIONABLE = 'a[href], button, input, select, textarea, label, summary, [role=button], [role=link], [role=tab], [role=menuitem], [role=option], [role=checkbox], [role=switch], '
+    + TEST_ID_ATTRIBUTES.map(attribute => '[' + attribute + ']').join(', ');
+  const isField = el => el.matches('select, textarea, input') && !/^(submit|button|reset|image)$/.test(el.type);
+  const isToggle = el => el.tagName === 'INPUT' && /^(checkbox|radio)$/.test(el.type);
+  document.addEventListener('click', event => {
+    const el = event.target instanceof Element ? event.target.closest(ACTIONABLE) || event.target : null;
+    if (!el || isField(el) || (el.tagName === 'LABEL' && el.control)) return;
+    record({ type: 'click', target: describe(el) });
+  }, true);
+  document.addEventListener('input', event => {
+    const el = event.target;
+    if (!(el instanceof Element) || !el.matches('input, textarea') || isToggle(el) || el.type === 'file') return;
+    const sensitive = el.type === 'password';
+    record({ type: 'type', target: describe(el), value: sensitive ? '' : el.value, sensitive: sensitive || undefined });
+  }, true);
+  document.addEventListener('change', event => {
+    const el = event.target;
+    if (!(el instanceof Element)) return;
+    if (el.tagName === 'SELECT') {
+      record({ type: 'select', target: describe(el), value: (el.selectedOptions[0] && el.selectedOptions[0].text.trim()) || el.value });
+    } else if (isToggle(el)) {
+      record({ type: 'check', target: describe(el), checked: el.checked });
+    }
+  }, true);
+  document.addEventListener('submit', event => {
+    if (event.target instanceof Element) record({ type: 'submit', target: describe(event.target) });
+  }, true);
+})()`;
+
+// Path and query for URLs of the recorded origin, the full URL otherwise
+function displayUrl(href: string, origin: string): string {
+  try {
+    const url = new URL(href);
+    return url.origin === origin ? url.pathname + url.search : url.href;
+  } catch {
+    return href;
+  }
+}
+
+export async function recordSession(appUrl: string, options: RecordSessionOptions = {}): Promise<{ recording: SessionRecording; log: string }> {
+  const maxDurationMs = options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+  let log = '';
+  const appendLog = (text: string) => {
+    log += text;
+    options.onLog?.(text);
+  };
+
+  const origin = new URL(appUrl).origin;
+  const executablePath = findChromeExecutable();
+  if (!executablePath) {
+    throw new Error('No Chrome or Chromium found (set CYPRESS_PILOT_CHROME_PATH); recording needs a browser window.');
+  }
+  const browser = await launchBrowser(executablePath, { headless: false });
+  const startedAt = new Date();
+  const events: RecordedEvent[] = [];
+  const push = (event: Omit<RecordedEvent, 'at'>) => {
+    const recorded = { ...event, at: Date.now() - startedAt.getTime() };
+    events.push(recorded);
+    options.onEvent?.(recorded);
+  };
+
+  try {
+    const page = (await browser.pages())[0] ?? await browser.newPage();
+    await page.exposeFunction(BINDING, (json: string) => {
+      // The page could call the binding itself; anything that is not a recorder event is ignored
+      try {
+        const parsed = RecordedEventSchema.omit({ at: true }).safeParse(JSON.parse(json));
+        if (parsed.success) push(parsed.data);
+      } catch {
+        // Not JSON
+      }
+    });
+    await page.evaluateOnNewDocument(RECORDER_SCRIPT);
+    page.on('framenavigated', frame => {
+      if (frame === page.mainFrame() && /^https?:/.test(frame.url())) push({ type: 'navigate', path: displayUrl(frame.url(), origin) });
+    });
+    page.on('response', response => {
+      const request = response.request();
+      const resourceType = request.resourceType();
+      if (resourceType !== 'fetch' && resourceType !== 'xhr') return;
+      push({ type: 'request', path: displayUrl(page.url(), origin), request: { method: request.method(), url: displayUrl(request.url(), origin), status: response.status(), resourceType } });
+    });
+    page.on('requestfailed', request => {
+      const resourceType = request.resourceType();
+      if (resourceType !== 'fetch' && resourceType !== 'xhr') return;
+      push({ type: 'request', path: displayUrl(page.url(), origin), request: { method: request.method(), url: displayUrl(request.url(), origin), resourceType } });
+    });
+
+    const closed = new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        appendLog(`Stopped recording after ${Math.round(maxDurationMs / 60_000)} minutes.\n`);
+        resolve();
+      }, maxDurationMs);
+      const stop = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      browser.once('disconnected', stop);
+      page.once('close', stop);
+    });
+    appendLog(`Recording ${appUrl} in ${executablePath}; close the browser window to finish.\n`);
+    try {
+      await page.goto(appUrl, { waitUntil: 'domcontentloaded', timeout: NAVIGATION_TIMEOUT_MS });
+    } catch (error: any) {
+      appendLog(`Could not open ${appUrl} (${error.message}); the window stays open to navigate by hand.\n`);
+    }
+    await closed;
+  } finally {
+    if (browser.connected) await browser.close();
+  }
+
+  appendLog(`Recorded ${events.filter(event => event.type !== 'request').length} action(s) and ${events.filter(event => event.type === 'request').length} API call(s).\n`);
+  return { recording: { appUrl, startedAt: startedAt.toISOString(), stoppedAt: new Date().toISOString(), events }, log };
+}
+
+const sameTarget = (a?: RecordedTarget, b?: RecordedTarget) => !!a && !!b && a.cssPath === b.cssPath;
+
+export function condenseEvents(events: RecordedEvent[]): RecordedEvent[] {
+  const condensed: RecordedEvent[] = [];
+  for (const event of events) {
+    // Requests can arrive between keystrokes (e.g. search-as-you-type), so the last action is looked up past them
+    const lastAction = [...condensed].reverse().find(previous => previous.type !== 'request');
+    if (event.type === 'type' && lastAction?.type === 'type' && lastAction.path === event.path && sameTarget(lastAction.target, event.target)) {
+      condensed[condensed.indexOf(lastAction)] = { ...event, at: lastAction.at };
+    } else if (!(event.type === 'navigate' && lastAction?.type === 'navigate' && lastAction.path === event.path)) {
+      condensed.push(event);
+    }
+  }
+  return condensed;
+}
+
+function describeTarget(target: RecordedTarget): string {
+  return `${target.role} "${target.name}"`;
+}
+
+function targetDetails(target: RecordedTarget): string {
+  const details = [
+    target.testId,
+    target.id && `#${target.id}`,
+    target.fieldName && `name="${target.fieldName}"`,
+    target.type && `type="${target.type}"`,
+    target.href && `href="${target.href}"`,
+  ].filter(Boolean);
+  if (!target.testId && !target.id && !target.name) details.push(`css ${target.cssPath}`);
+  return details.length > 0 ? ` ${details.join(' ')}` : '';
+}
+
+interface RecordedStep {
+  text: string;
+  details: string;
+  requests: string[];
+}
+
+function stepsOf(recording: SessionRecording): RecordedStep[] {
+  const steps: RecordedStep[] = [];
+  for (const event of condenseEvents(recording.events)) {
+    if (event.type === 'request') {
+      const request = event.request!;
+      const text = `${request.method} ${request.url}${request.status !== undefined ? ` (${request.status})` : ' (failed)'}`;
+      if (steps.length === 0) steps.push({ text: `Visit ${event.path}`, details: '', requests: [] });
+      const step = steps[steps.length - 1];
+      if (!step.requests.includes(text)) step.requests.push(text);
+      continue;
+    }
+    const target = event.target;
+    let text: string;
+    if (event.type === 'navigate') {
+      text = steps.length === 0 ? `Visit ${event.path}` : `Arrive at ${event.path}`;
+    } else if (!target) {
+      continue;
+    } else if (event.type === 'type') {
+      text = event.sensitive ? `Type the password into ${describeTarget(target)}` : `Type "${event.value}" into ${describeTarget(target)}`;
+    } else if (event.type === 'select') {
+      text = `Select "${event.value}" in ${describeTarget(target)}`;
+    } else if (event.type === 'check') {
+      text = `${event.checked ? 'Check' : 'Uncheck'} ${describeTarget(target)}`;
+    } else if (event.type === 'submit') {
+      text = `Submit the form${target.name ? ` "${target.name}"` : ''}`;
+    } else {
+      text = `Click ${describeTarget(target)}`;
+    }
+    steps.push({ text, details: target ? targetDetails(target) : '', requests: [] });
+  }
+  return steps;
+}
+
+export function renderRecording(recording: SessionRecording, { maxChars = DEFAULT_MAX_CHARS }: { maxChars?: number } = {}): string {
+  const lines: string[] = [];
+  let length = 0;
+  const steps = stepsOf(recording);
+  for (const [index, step] of steps.entries()) {
+    const requests = step.requests.slice(0, MAX_REQUESTS_PER_STEP).map(request => `   -> ${request}`);
+    if (step.requests.length > MAX_REQUESTS_PER_STEP) requests.push(`   -> (${step.requests.length - MAX_REQUESTS_PER_STEP} more calls)`);
+    const section = [`${index + 1}. ${step.text}${step.details}`, ...requests].join('\n');
+    if (length + section.length > maxChars) {
+      lines.push(`(${steps.length - index} more steps omitted)`);
+      break;
+    }
+    lines.push(section);
+    length += section.length + 1;
+  }
+  return lines.join('\n');
+}
+
+export function recordingToUserFlow(recording: SessionRecording, name: string, app?: string): UserFlow {
+  const steps = stepsOf(recording);
+  const entryRoute = recording.events.find(event => event.type === 'navigate')?.path || displayUrl(recording.appUrl, new URL(recording.appUrl).origin);
+  const typed = condenseEvents(recording.events).filter(event => event.type === 'type');
+  return {
+    id: toFlowId(name),
+    name,
+    description: `Recorded in the browser on ${recording.startedAt.slice(0, 10)}: ${steps.length} steps starting at ${entryRoute}.`,
+    steps: steps.map(step => step.text),
+    entryRoute,
+    preconditions: [],
+    testData: typed.map(event => event.sensitive ? `A password for ${describeTarget(event.target!)}` : `"${event.value}" for ${describeTarget(event.target!)}`),
+    priority: 'medium',
+    suggestedTestType: 'E2E',
+    sourceFiles: [],
+    ...(app ? {app} : {}),
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileOverview Inventories the Cypress tests a repository already has and matches them to user flows.
+ *
+ * Specs, support files and fixtures are read with regular expressions, not a parser: titles, cy.visit paths,
+ * cy.intercept matchers and fixtures are picked from string literals, and custom commands from
+ * Cypress.Commands.add/overwrite calls in cypress/support.
+ *
+ * - isCypressSpecFile - Whether a repository path is a Cypress spec.
+ * - inventoryCypressSpecs - Builds the CypressSpecInventory from the repository's file list.
+ * - matchFlowsToSpecs - Rates how well the existing specs cover each user flow.
+ * - renderSpecConventions - Renders the commands, fixtures, intercepts and closest spec of a repository for the generation prompt.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CustomCommand, CypressSpecInventory, ExistingSpec, FlowCoverage } from '@/ai/schemas/cypress-spec-inventory';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import { createLineLocator } from '@/ai/analysis/markup-extractor';
+import { sanitizeFlowNameForFilename } from '@/lib/user-flows';
+
+const MAX_TEST_FILE_BYTES = 300_000;
+const MAX_EXCERPT_CHARS = 3000;
+// Words that say nothing about which flow a test title is about
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'into', 'user', 'page', 'flow', 'should', 'can', 'able', 'test', 'tests', 'when', 'then', 'that', 'new', 'works', 'correctly']);
+
+// A quoted string literal whose quote is capture group `group` and whose text is group `group + 1`
+const stringLiteral = (group: number) => `(['"\`])((?:\\\\.|(?!\\${group})[^\\\\])*?)\\${group}`;
+const TITLE_PATTERN = new RegExp(String.raw`\b(describe|context|it|specify)(?:\.only|\.skip)?\(\s*${stringLiteral(2)}`, 'g');
+const VISIT_PATTERN = new RegExp(String.raw`\bcy\.visit\(\s*${stringLiteral(1)}`, 'g');
+const INTERCEPT_PATTERN = /\bcy\.intercept\(\s*(?:(['"`])(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\1\s*,\s*)?(['"`])((?:\\.|(?!\3)[^\\])*?)\3/g;
+const FIXTURE_PATTERNS = [new RegExp(String.raw`\bcy\.fixture\(\s*${stringLiteral(1)}`, 'g'), new RegExp(String.raw`\bfixture\s*:\s*${stringLiteral(1)}`, 'g')];
+const COMMAND_PATTERN = /\bCypress\.Commands\.(add|overwrite)\(\s*(['"`])(\w+)\2\s*,\s*(?:(\{[^}]*\})\s*,\s*)?(?:async\s+)?(?:function\s*\w*\s*\(([^)]*)\)|\(([^)]*)\)\s*(?::[^=]+)?=>|(\w+)\s*=>)/g;
+
+export function isCypressSpecFile(posixPath: string): boolean {
+  return /^cypress\/(e2e|integration|component)\/.*\.(cy|spec)\.(ts|js|tsx|jsx)$/.test(posixPath) || /\.cy\.(ts|js|tsx|jsx)$/.test(posixPath);
+}
+
+function readTestFile(repoPath: string, relativePath: string): string | undefined {
+  try {
+    const absolutePath = path.join(repoPath, relativePath);
+    if (fs.statSync(absolutePath).size > MAX_TEST_FILE_BYTES) return undefined;
+    return fs.readFileSync(absolutePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// Cypress passes the original command to overwrites and the subject to child commands; callers never write those
+function callerParameters(kind: string, options: string | undefined, parameters: string): string {
+  const names = parameters.split(',').map(parameter => parameter.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const implicit = kind === 'overwrite' ? 1 + Number(/prevSubject/.test(options || '')) : Number(/prevSubject/.test(options || ''));
+  return names.slice(implicit).join(', ');
+}
+
+const unescape = (text: string) => text.replace(/\\(.)/g, '$1');
+
+function customCommandsIn(source: string, file: string): CustomCommand[] {
+  const lineAt = createLineLocator(source);
+  return [...source.matchAll(COMMAND_PATTERN)].map(match => ({
+    name: match[3],
+    kind: match[1] as CustomCommand['kind'],
+    parameters: callerParameters(match[1], match[4], match[5] ?? match[6] ?? match[7] ?? ''),
+    file,
+    line: lineAt(match.index!),
+  }));
+}
+
+function parseSpec(source: string, file: string, commandNames: Set<string>): ExistingSpec {
+  const titles = [...source.matchAll(TITLE_PATTERN)];
+  return {
+    file,
+    suites: titles.filter(match => match[1] === 'describe' || match[1] === 'context').map(match => unescape(match[3])),
+    tests: titles.filter(match => match[1] === 'it' || match[1] === 'specify').map(match => unescape(match[3])),
+    visits: unique([...source.matchAll(VISIT_PATTERN)].map(match => match[2])),
+    intercepts: unique([...source.matchAll(INTERCEPT_PATTERN)].map(match => match[2] ? `${match[2]} ${match[4]}` : match[4])),
+    fixtures: unique(FIXTURE_PATTERNS.flatMap(pattern => [...source.matchAll(pattern)].map(match => match[2]))),
+    commandsUsed: unique([...source.matchAll(/\bcy\.(\w+)\(/g)].map(match => match[1]).filter(name => commandNames.has(name))),
+  };
+}
+
+export function inventoryCypressSpecs(repoPath: string, files: string[]): CypressSpecInventory {
+  const posixFiles = files.map(file => file.split(path.sep).join('/'));
+
+  const customCommands: CustomCommand[] = [];
+  for (const file of posixFiles.filter(file => /^cypress\/support\/.*\.(ts|js|tsx|jsx)$/.test(file))) {
+    const source = readTestFile(repoPath, file);
+    if (source) customCommands.push(...customCommandsIn(source, file));
+  }
+  const commandNames = new Set(customCommands.filter(command => command.kind === 'add').map(command => command.name));
+
+  const specs: ExistingSpec[] = [];
+  for (const file of posixFiles.filter(isCypressSpecFile)) {
+    const source = readTestFile(repoPath, file);
+    if (source !== undefined) specs.push(parseSpec(source, file, commandNames));
+  }
+
+  const fixtures = posixFiles.filter(file => file.startsWith('cypress/fixtures/')).map(file => file.slice('cypress/fixtures/'.length));
+  return { specs, customCommands, fixtures };
+}
+
+function normalizeRoute(route: string): string {
+  const pathOnly = route.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/[?#].*$/, '');
+  return ('/' + pathOnly.replace(/^\/+|\/+$/g, '')).toLowerCase();
+}
+
+// Dynamic segments (":id", "[id]", "*", template placeholders) match any single segment
+function routePattern(route: string): RegExp {
+  const segments = normalizeRoute(route).split('/').slice(1).map(segment =>
+    /^[:*[]/.test(segment) || segment.includes('${') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^/${segments.join('/')}$`);
+}
+
+function routesMatch(entryRoute: string, visit: string): boolean {
+  return routePattern(entryRoute).test(normalizeRoute(visit)) || routePattern(visit).test(normalizeRoute(entryRoute));
+}
+
+function titleTokens(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(word => word.replace(/(ies|s)$/, match => match === 'ies' ? 'y' : '')));
+}
+
+export function matchFlowsToSpecs(flows: UserFlow[], inventory: CypressSpecInventory): FlowCoverage[] {
+  return flows.map(flow => {
+    const flowTokens = titleTokens(flow.name);
+    // Generated specs are named after the flow name; specs named after the id predate that
+    const flowBaseNames = [sanitizeFlowNameForFilename(flow.name).replace(/\.cy\.ts$/, ''), flow.id];
+    const matches = inventory.specs.map(spec => {
+      const reasons: string[] = [];
+      const baseName = path.posix.basename(spec.file).replace(/\.(cy|spec)\.\w+$/, '');
+      const namedAfterFlow = flowBaseNames.includes(baseName);
+      if (namedAfterFlow) reasons.push('named after the flow');
+      const visit = spec.visits.find(candidate => routesMatch(flow.entryRoute, candidate));
+      if (visit) reasons.push(`visits ${visit}`);
+      const specTokens = titleTokens([baseName, ...spec.suites, ...spec.tests].join(' '));
+      const shared = [...flowTokens].filter(token => specTokens.has(token));
+      const titleScore = flowTokens.size > 0 ? shared.length / flowTokens.size : 0;
+      if (titleScore >= 0.5) reasons.push(`titles mention ${shared.join(', ')}`);
+      const status: FlowCoverage['status'] = namedAfterFlow || (visit && titleScore >= 0.5) ? 'covered' : visit || titleScore >= 0.5 ? 'partial' : 'none';
+      return { file: spec.file, reasons, status, score: Number(namedAfterFlow) * 2 + Number(Boolean(visit)) + titleScore };
+    }).filter(match => match.status !== 'none').sort((a, b) => b.score - a.score);
+
+    return {
+      flowId: flow.id,
+      status: matches.some(match => match.status === 'covered') ? 'covered' : matches.length > 0 ? 'partial' : 'none',
+      specs: matches.map(({ file, reasons }) => ({ file, reasons })),
+    };
+  });
+}
+
+export function renderSpecConventions(repoPath: string, inventory: CypressSpecInventory, flow?: UserFlow): string {
+  const sections: string[] = [];
+  if (inventory.customCommands.length > 0) {
+    sections.push('Custom commands (cypress/support):\n' + inventory.customCommands
+      .map(command => `  - cy.${command.name}(${command.parameters})${command.kind === 'overwrite' ? ' (overwrites the built-in command)' : ''} in ${command.file}:${command.line}`)
+      .join('\n'));
+  }
+  if (inventory.fixtures.length > 0) {
+    const shown = inventory.fixtures.slice(0, 30);
+    sections.push(`Fixtures (cypress/fixtures): ${shown.join(', ')}${inventory.fixtures.length > shown.length ? `, ... (${inventory.fixtures.length - shown.length} more)` : ''}`);
+  }
+  const intercepts = unique(inventory.specs.flatMap(spec => spec.intercepts)).slice(0, 15);
+  if (intercepts.length > 0) {
+    sections.push(`Requests the existing specs intercept: ${intercepts.join('; ')}`);
+  }
+
+  // The closest spec for the flow, otherwise the one using the most custom commands, shows the house style
+  const closest = flow ? matchFlowsToSpecs([flow], inventory)[0].specs[0]?.file : undefined;
+  const example = closest ?? [...inventory.specs].sort((a, b) => b.commandsUsed.length - a.commandsUsed.length)[0]?.file;
+  const exampleSource = example ? readTestFile(repoPath, example) : undefined;
+  if (example && exampleSource) {
+    const excerpt = exampleSource.length > MAX_EXCERPT_CHARS ? `${exampleSource.slice(0, MAX_EXCERPT_CHARS)}\n// ... (truncated)` : exampleSource;
+    sections.push(`${closest ? 'Existing spec closest to this flow' : 'Example of an existing spec'} (${example}):\n${excerpt}`);
+  }
+  return sections.join('\n\n');
+}
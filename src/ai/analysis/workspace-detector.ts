@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Detects monorepo workspaces and classifies their packages.
+ *
+ * Package globs come from package.json "workspaces" (npm, yarn), pnpm-workspace.yaml and lerna.json; Nx projects
+ * are found through their project.json files. Turborepo reuses the package manager's workspaces and is only reported.
+ *
+ * - detectWorkspace - Lists the workspace tools and packages of a repository, each classified as web app, API or library.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { RepositoryWorkspace, WorkspacePackage, WorkspaceTool } from '@/ai/schemas/workspace';
+
+const MAX_PACKAGE_DEPTH = 4;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage', 'tmp']);
+// Dependencies that make a package an application on their own
+const APP_FRAMEWORKS: Record<string, string> = {
+  'next': 'next', 'nuxt': 'nuxt', '@sveltejs/kit': 'sveltekit', 'astro': 'astro', 'gatsby': 'gatsby',
+  '@remix-run/react': 'remix', 'react-scripts': 'create-react-app', '@angular/core': 'angular',
+};
+// UI dependencies that are an app only with a dev server script or an index.html
+const UI_FRAMEWORKS: Record<string, string> = {
+  'react-dom': 'react', 'vue': 'vue', 'svelte': 'svelte', 'solid-js': 'solid', 'preact': 'preact',
+};
+const API_FRAMEWORKS: Record<string, string> = {
+  'express': 'express', 'fastify': 'fastify', 'koa': 'koa', '@nestjs/core': 'nestjs', '@hapi/hapi': 'hapi', 'hono': 'hono',
+};
+
+function readJson(file: string): any | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Reads the "packages:" list of pnpm-workspace.yaml without a YAML parser; the file is a flat list in practice
+function pnpmWorkspaceGlobs(file: string): string[] {
+  const globs: string[] = [];
+  let inPackages = false;
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\s*-\s*/.test(line)) {
+      globs.push(line.replace(/^\s*-\s*/, '').replace(/\s+#.*$/, '').trim().replace(/^['"]|['"]$/g, ''));
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    }
+  }
+  return globs;
+}
+
+// Directories that hold a package.json or an Nx project.json, relative to the root
+function packageDirectories(rootPath: string): string[] {
+  const found: string[] = [];
+  const walk = (relativeDir: string, depth: number) => {
+    if (depth > MAX_PACKAGE_DEPTH) return;
+    for (const entry of fs.readdirSync(path.join(rootPath, relativeDir), { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      const dir = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (fs.existsSync(path.join(rootPath, dir, 'package.json')) || fs.existsSync(path.join(rootPath, dir, 'project.json'))) {
+        found.push(dir);
+      }
+      walk(dir, depth + 1);
+    }
+  };
+  walk('', 1);
+  return found;
+}
+
+function classifyPackage(rootPath: string, dir: string, packageJson: any, nxProject: any): Pick<WorkspacePackage, 'kind' | 'frameworks'> {
+  // A framework that is only a peer dependency marks a library built for that framework, not an app
+  const ownDependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const allDependencies = { ...ownDependencies, ...packageJson?.peerDependencies };
+  const pick = (table: Record<string, string>, dependencies: Record<string, string>) => Object.keys(table).filter(name => name in dependencies).map(name => table[name]);
+  const appFrameworks = pick(APP_FRAMEWORKS, ownDependencies);
+  const uiFrameworks = pick(UI_FRAMEWORKS, allDependencies);
+  const apiFrameworks = pick(API_FRAMEWORKS, ownDependencies);
+  const frameworks = [...new Set([...appFrameworks, ...uiFrameworks, ...apiFrameworks])];
+  const scripts = packageJson?.scripts || {};
+  const hasDevServer = ['dev', 'start', 'serve', 'preview'].some(name => typeof scripts[name] === 'string');
+  const hasIndexHtml = fs.existsSync(path.join(rootPath, dir, 'index.html')) || fs.existsSync(path.join(rootPath, dir, 'src', 'index.html'));
+
+  if (nxProject?.projectType === 'library') return { kind: 'library', frameworks };
+  if (appFrameworks.length > 0) return { kind: 'web-app', frameworks };
+  if (uiFrameworks.length > 0 && (hasDevServer || hasIndexHtml || nxProject?.projectType === 'application')) {
+    return { kind: 'web-app', frameworks };
+  }
+  if (apiFrameworks.length > 0) return { kind: 'api', frameworks };
+  if (uiFrameworks.length > 0 || packageJson?.main || packageJson?.module || packageJson?.exports || packageJson?.types) {
+    return { kind: 'library', frameworks };
+  }
+  return { kind: 'unknown', frameworks };
+}
+
+export function detectWorkspace(rootPath: string): { workspace: RepositoryWorkspace; log: string } {
+  const rootPackageJson = readJson(path.join(rootPath, 'package.json'));
+  const tools: WorkspaceTool[] = [];
+  const globs: string[] = [];
+
+  const packageJsonWorkspaces = Array.isArray(rootPackageJson?.workspaces) ? rootPackageJson.workspaces : rootPackageJson?.workspaces?.packages;
+  if (Array.isArray(packageJsonWorkspaces)) {
+    tools.push(fs.existsSync(path.join(rootPath, 'yarn.lock')) ? 'yarn' : 'npm');
+    globs.push(...packageJsonWorkspaces);
+  }
+  if (fs.existsSync(path.join(rootPath, 'pnpm-workspace.yaml'))) {
+    tools.push('pnpm');
+    globs.push(...pnpmWorkspaceGlobs(path.join(rootPath, 'pnpm-workspace.yaml')));
+  }
+  const lernaJson = readJson(path.join(rootPath, 'lerna.json'));
+  if (lernaJson) {
+    tools.push('lerna');
+    globs.push(...(Array.isArray(lernaJson.packages) ? lernaJson.packages : ['packages/*']));
+  }
+  const nxJson = readJson(path.join(rootPath, 'nx.json'));
+  if (nxJson) {
+    tools.push('nx');
+    if (globs.length === 0) {
+      globs.push(`${nxJson.workspaceLayout?.appsDir || 'apps'}/*`, `${nxJson.workspaceLayout?.libsDir || 'libs'}/*`);
+    }
+  }
+  if (fs.existsSync(path.join(rootPath, 'turbo.json'))) {
+    tools.push('turborepo');
+  }
+
+  if (tools.length === 0) {
+    return { workspace: { tools, packages: [] }, log: '' };
+  }
+
+  const includes = globs.filter(glob => !glob.startsWith('!')).map(glob => glob.replace(/^\.\//, '').replace(/\/$/, ''));
+  const excludes = globs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1).replace(/^\.\//, '').replace(/\/$/, ''));
+  const packages: WorkspacePackage[] = [];
+  for (const dir of packageDirectories(rootPath)) {
+    const nxProject = nxJson ? readJson(path.join(rootPath, dir, 'project.json')) : undefined;
+    const matchesGlobs = includes.some(glob => minimatch(dir, glob)) && !excludes.some(glob => minimatch(dir, glob));
+    if (!matchesGlobs && !nxProject) continue;
+    const packageJson = readJson(path.join(rootPath, dir, 'package.json'));
+    packages.push({
+      name: nxProject?.name || packageJson?.name || path.posix.basename(dir),
+      path: dir,
+      ...classifyPackage(rootPath, dir, packageJson, nxProject),
+    });
+  }
+  packages.sort((a, b) => a.path.localeCompare(b.path));
+
+  const counts = (['web-app', 'api', 'library', 'unknown'] as const)
+    .map(kind => [kind, packages.filter(pkg => pkg.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${kind}`);
+  const log = `Detected a ${tools.join(' + ')} workspace with ${packages.length} packages${counts.length > 0 ? ` (${counts.join(', ')})` : ''}.\n`;
+  return { workspace: { tools, packages }, log };
+}
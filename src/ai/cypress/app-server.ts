@@ -0,0 +1,154 @@
+/**
+ * @fileOverview Starts the application under test from a cloned repository for E2E runs.
+ *
+ * The server is launched through the project's own package manager script on a free local port, polled
+ * over HTTP until it answers, and stopped (with its whole process group) once the run is over.
+ *
+ * - detectStartScript - Picks the dev/start script of a project and how to pass it a port. A workspace app's script is
+ *   run with the package manager of its workspace root (see detectPackageManager).
+ * - findFreePort - Asks the OS for an unused local TCP port.
+ * - startAppServer - Launches the server, waits for readiness and returns its URL, logs and a stop function.
+ */
+
+import * as net from 'net';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { detectPackageManager, type PackageManager } from '@/ai/cypress/project-bootstrap';
+
+export interface StartScript {
+  packageManager: PackageManager;
+  name: string;
+  command: string;
+}
+
+export interface AppServer {
+  url: string;
+  script: StartScript;
+  logs: () => string;
+  stop: () => Promise<void>;
+}
+
+export interface StartAppServerOptions {
+  readyTimeoutMs?: number;
+  packageManager?: PackageManager;
+  onLog?: (text: string) => void;
+}
+
+const SCRIPT_PREFERENCE = ['dev', 'start', 'serve', 'preview'];
+const DEFAULT_READY_TIMEOUT_MS = 120_000;
+const POLL_INTERVAL_MS = 1000;
+const STOP_GRACE_MS = 5000;
+
+export function detectStartScript(repoPath: string, packageManager: PackageManager = detectPackageManager(repoPath)): StartScript | undefined {
+  let scripts: Record<string, string> = {};
+  try {
+    scripts = JSON.parse(fs.readFileSync(path.join(repoPath, 'package.json'), 'utf8')).scripts || {};
+  } catch {
+    return undefined;
+  }
+  const name = SCRIPT_PREFERENCE.find(candidate => typeof scripts[candidate] === 'string');
+  return name ? { packageManager, name, command: scripts[name] } : undefined;
+}
+
+export function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      server.close(() => (address && typeof address === 'object' ? resolve(address.port) : reject(new Error('Could not determine a free port.'))));
+    });
+  });
+}
+
+// Most dev servers ignore PORT, so the port is also passed as a CLI flag for the tools that take one.
+function portArguments(command: string, port: number): string[] {
+  if (/\bnext\b/.test(command)) return ['-p', String(port)];
+  if (/\b(vite|astro|nuxt|nuxi|ng\s+serve|svelte-kit|vue-cli-service)\b/.test(command)) return ['--port', String(port)];
+  return [];
+}
+
+function runScriptArguments(script: StartScript, port: number): string[] {
+  const extra = portArguments(script.command, port);
+  if (extra.length === 0) return ['run', script.name];
+  return script.packageManager === 'npm' ? ['run', script.name, '--', ...extra] : ['run', script.name, ...extra];
+}
+
+async function isResponding(url: string): Promise<boolean> {
+  try {
+    // Any HTTP response counts: dev servers often answer 404 on "/" while still being ready
+    await fetch(url, { signal: AbortSignal.timeout(POLL_INTERVAL_MS * 3), redirect: 'manual' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function startAppServer(repoPath: string, { readyTimeoutMs = DEFAULT_READY_TIMEOUT_MS, packageManager, onLog }: StartAppServerOptions = {}): Promise<AppServer> {
+  const script = detectStartScript(repoPath, packageManager);
+  if (!script) {
+    throw new Error(`No ${SCRIPT_PREFERENCE.join('/')} script found in ${path.join(repoPath, 'package.json')}; cannot start the application.`);
+  }
+
+  const port = await findFreePort();
+  const url = `http://localhost:${port}`;
+  const args = runScriptArguments(script, port);
+  let logs = '';
+  const appendLog = (text: string) => {
+    logs += text;
+    onLog?.(text);
+  };
+  appendLog(`Starting the application with \`${script.packageManager} ${args.join(' ')}\` (${script.command}) on ${url}...\n`);
+
+  // Detached so the whole process group (package manager + dev server) can be stopped together
+  const child = spawn(script.packageManager, args, {
+    cwd: repoPath,
+    env: { ...process.env, PORT: String(port), BROWSER: 'none', NODE_ENV: script.name === 'dev' ? 'development' : process.env.NODE_ENV },
+    stdio: ['ignore', 'pipe', 'pipe'],
+    detached: true,
+  });
+  let exitCode: number | null | undefined;
+  let spawnError: Error | undefined;
+  child.stdout.on('data', (data) => appendLog(data.toString()));
+  child.stderr.on('data', (data) => appendLog(data.toString()));
+  child.on('error', (error) => { spawnError = error; });
+  const exited = new Promise<void>(resolve => child.on('exit', (code) => { exitCode = code; resolve(); }));
+
+  const stop = async () => {
+    if (exitCode !== undefined || !child.pid) return;
+    appendLog(`Stopping the application server (pid ${child.pid})...\n`);
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      return;
+    }
+    const stopped = await Promise.race([exited.then(() => true), new Promise<boolean>(resolve => setTimeout(() => resolve(false), STOP_GRACE_MS))]);
+    if (!stopped) {
+      try {
+        process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already gone
+      }
+    }
+  };
+
+  const deadline = Date.now() + readyTimeoutMs;
+  while (Date.now() < deadline) {
+    if (spawnError) {
+      throw new Error(`Could not start \`${script.packageManager}\`: ${spawnError.message}\n${logs}`);
+    }
+    if (exitCode !== undefined) {
+      throw new Error(`The application exited with code ${exitCode} before it became ready.\n${logs}`);
+    }
+    if (await isResponding(url)) {
+      appendLog(`Application is ready at ${url}.\n`);
+      return { url, script, logs: () => logs, stop };
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  await stop();
+  throw new Error(`The application did not respond at ${url} within ${Math.round(readyTimeoutMs / 1000)} seconds.\n${logs}`);
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Runs Cypress through its Module API (`cypress.run()`) in a child Node process.
+ *
+ * The runner script is executed with the cloned repository as `cwd`, so `cypress` is resolved from the
+ * project's own node_modules. The raw run result is written to a JSON file instead of being scraped
+ * from the console output.
+ *
+ * - createModuleApiRun - Writes the runner script to a temporary directory and returns the paths it uses.
+ * - readModuleApiResult - Reads the JSON result written by the runner, if any.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const RUNNER_SCRIPT = `'use strict';
+const fs = require('fs');
+const [, , optionsJson, resultFile] = process.argv;
+const writeResult = (result) => fs.writeFileSync(resultFile, JSON.stringify(result));
+
+let cypress;
+try {
+  cypress = require(require.resolve('cypress', { paths: [process.cwd()] }));
+} catch (err) {
+  writeResult({ status: 'failed', failures: 1, message: 'Cypress is not installed in ' + process.cwd() + '. Add it as a devDependency (e.g. npm install --save-dev cypress). ' + err.message });
+  process.exit(1);
+}
+
+cypress.run(JSON.parse(optionsJson))
+  .then((result) => {
+    // The resolved config can contain env values; it is not needed by the caller.
+    const { config, ...rest } = result || {};
+    writeResult(rest);
+    process.exit(rest.status === 'finished' && !rest.totalFailed ? 0 : 1);
+  })
+  .catch((err) => {
+    writeResult({ status: 'failed', failures: 1, message: (err && err.stack) || String(err) });
+    process.exit(1);
+  });
+`;
+
+export interface ModuleApiRun {
+  /** Absolute path of the runner script to execute with `node`. */
+  runnerPath: string;
+  /** Absolute path of the JSON file the runner writes its result to. */
+  resultPath: string;
+  /** Removes the temporary directory holding the runner and its result. */
+  cleanup: () => void;
+}
+
+export function createModuleApiRun(): ModuleApiRun {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-run-'));
+  const runnerPath = path.join(dir, 'cypress-module-runner.cjs');
+  fs.writeFileSync(runnerPath, RUNNER_SCRIPT, 'utf8');
+  return {
+    runnerPath,
+    resultPath: path.join(dir, 'result.json'),
+    cleanup: () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
+export function readModuleApiResult(resultPath: string): any | undefined {
+  if (!fs.existsSync(resultPath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(resultPath, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
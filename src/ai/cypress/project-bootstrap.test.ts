@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { detectPackageManager, prepareCypressProject } from '@/ai/cypress/project-bootstrap';
+import { detectStartScript } from '@/ai/cypress/app-server';
+
+const tempDirs: string[] = [];
+
+function fixtureRepo(files: Record<string, string>): string {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-bootstrap-'));
+  tempDirs.push(repo);
+  for (const [relativePath, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  }
+  return repo;
+}
+
+const pnpmMonorepo = {
+  'package.json': JSON.stringify({ name: 'shop', private: true }),
+  'pnpm-workspace.yaml': 'packages:\n  - apps/*\n',
+  'pnpm-lock.yaml': "lockfileVersion: '9.0'\n",
+  'apps/web/package.json': JSON.stringify({
+    name: 'web',
+    scripts: { dev: 'next dev' },
+    dependencies: { next: '15.0.0', ui: 'workspace:*' },
+    devDependencies: { cypress: '13.0.0' },
+  }),
+  'apps/web/cypress.config.ts': "export default { e2e: { baseUrl: 'http://localhost:3000' } };\n",
+};
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('detectPackageManager', () => {
+  it('uses the lockfile of the workspace root for an app without one', () => {
+    const repo = fixtureRepo(pnpmMonorepo);
+
+    expect(detectPackageManager(repo)).toBe('pnpm');
+    expect(detectPackageManager(path.join(repo, 'apps/web'))).toBe('pnpm');
+    expect(detectStartScript(path.join(repo, 'apps/web'))).toEqual({ packageManager: 'pnpm', name: 'dev', command: 'next dev' });
+  });
+
+  it('falls back to npm outside a workspace', () => {
+    const repo = fixtureRepo({ 'package.json': JSON.stringify({ name: 'site' }) });
+
+    expect(detectPackageManager(repo)).toBe('npm');
+  });
+});
+
+describe('prepareCypressProject', () => {
+  it('leaves the install to the workspace root for a workspace app', async () => {
+    const repo = fixtureRepo(pnpmMonorepo);
+    const appPath = path.join(repo, 'apps/web');
+
+    const { steps } = await prepareCypressProject(appPath, { workspacePackageManager: 'pnpm' });
+
+    expect(steps.map(step => [step.name, step.status])).toEqual([
+      ['Detect package manager', 'done'],
+      ['Install dependencies', 'skipped'],
+      ['Add Cypress', 'skipped'],
+      ['Generate cypress.config.ts', 'skipped'],
+    ]);
+    expect(fs.existsSync(path.join(appPath, 'node_modules'))).toBe(false);
+    expect(fs.existsSync(path.join(appPath, 'package-lock.json'))).toBe(false);
+  });
+});
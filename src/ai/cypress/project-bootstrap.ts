@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Prepares a cloned repository so Cypress can run in it.
+ *
+ * Each step checks whether it is needed first, so an already configured project is left untouched:
+ * install dependencies, add Cypress (and TypeScript for the generated config) when missing, and write
+ * cypress.config.ts plus the support files when the project has no Cypress config.
+ *
+ * The apps of a monorepo have no lockfile of their own: dependencies are installed once at the workspace root
+ * (installWorkspaceDependencies) and each app is then prepared with the root's package manager.
+ *
+ * - detectPackageManager - Picks npm, yarn or pnpm from the lockfile in the repository or, for a workspace app, at its workspace root.
+ * - installWorkspaceDependencies - Installs the dependencies of a monorepo at its root.
+ * - prepareCypressProject - Runs the preparation steps and returns a log line per step.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runCommand } from '@/lib/run-command';
+import { DEFAULT_E2E_SPEC_PATTERN, findCypressConfigFile } from '@/ai/cypress/project-config';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+export interface BootstrapStep {
+  name: string;
+  status: 'done' | 'skipped' | 'failed';
+  detail: string;
+}
+
+export interface PrepareCypressProjectOptions {
+  baseUrl?: string;
+  skip?: boolean;
+  // Set for a workspace app whose dependencies were installed at the workspace root
+  workspacePackageManager?: PackageManager;
+}
+
+interface ComponentDevServer {
+  framework: string;
+  bundler: string;
+  mountModule: string;
+}
+
+const INSTALL_TIMEOUT_MS = 10 * 60_000;
+// Matches the depth workspace packages are searched to (see workspace-detector.ts)
+const MAX_WORKSPACE_DEPTH = 4;
+const LOCKFILES: [string, PackageManager][] = [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['package-lock.json', 'npm']];
+
+const INSTALL_ARGS: Record<PackageManager, string[]> = {
+  npm: ['install', '--no-audit', '--no-fund'],
+  yarn: ['install'],
+  pnpm: ['install'],
+};
+
+const ADD_DEV_ARGS: Record<PackageManager, string[]> = {
+  npm: ['install', '--save-dev', '--no-audit', '--no-fund'],
+  yarn: ['add', '--dev'],
+  pnpm: ['add', '--save-dev'],
+};
+
+function lockfilePackageManager(dir: string): PackageManager | undefined {
+  return LOCKFILES.find(([lockfile]) => fs.existsSync(path.join(dir, lockfile)))?.[1];
+}
+
+function declaresWorkspace(dir: string): boolean {
+  if (['pnpm-workspace.yaml', 'lerna.json', 'nx.json'].some(file => fs.existsSync(path.join(dir, file)))) return true;
+  try {
+    return !!JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')).workspaces;
+  } catch {
+    return false;
+  }
+}
+
+export function detectPackageManager(repoPath: string): PackageManager {
+  const own = lockfilePackageManager(repoPath);
+  if (own) return own;
+  // A workspace app shares the lockfile of the workspace root it belongs to
+  let dir = path.resolve(repoPath);
+  for (let depth = 0; depth < MAX_WORKSPACE_DEPTH && path.dirname(dir) !== dir; depth++) {
+    dir = path.dirname(dir);
+    if (declaresWorkspace(dir)) return lockfilePackageManager(dir) || 'npm';
+  }
+  return 'npm';
+}
+
+function readDependencies(repoPath: string): Record<string, string> {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(repoPath, 'package.json'), 'utf8'));
+    return { ...(packageJson.dependencies || {}), ...(packageJson.devDependencies || {}) };
+  } catch {
+    return {};
+  }
+}
+
+// The component dev server Cypress needs for the project's framework, when it can be told from the dependencies.
+function detectComponentDevServer(dependencies: Record<string, string>): ComponentDevServer | undefined {
+  const has = (name: string) => name in dependencies;
+  if (has('next')) return { framework: 'next', bundler: 'webpack', mountModule: 'cypress/react' };
+  if (has('react-scripts')) return { framework: 'create-react-app', bundler: 'webpack', mountModule: 'cypress/react' };
+  if (has('@angular/core')) return { framework: 'angular', bundler: 'webpack', mountModule: 'cypress/angular' };
+  if (!has('vite')) return undefined;
+  if (has('react')) return { framework: 'react', bundler: 'vite', mountModule: 'cypress/react' };
+  if (has('vue')) return { framework: 'vue', bundler: 'vite', mountModule: 'cypress/vue' };
+  if (has('svelte')) return { framework: 'svelte', bundler: 'vite', mountModule: 'cypress/svelte' };
+  return undefined;
+}
+
+function renderCypressConfig(baseUrl: string | undefined, devServer: ComponentDevServer | undefined): string {
+  const lines = [
+    `import { defineConfig } from 'cypress';`,
+    ``,
+    `export default defineConfig({`,
+    `  e2e: {`,
+    ...(baseUrl ? [`    baseUrl: '${baseUrl.replace(/['\\]/g, '\\$&')}',`] : []),
+    `    specPattern: '${DEFAULT_E2E_SPEC_PATTERN}',`,
+    `    supportFile: 'cypress/support/e2e.ts',`,
+    `  },`,
+    ...(devServer ? [
+      `  component: {`,
+      `    devServer: { framework: '${devServer.framework}', bundler: '${devServer.bundler}' },`,
+      `    supportFile: 'cypress/support/component.ts',`,
+      `  },`,
+    ] : []),
+    `  video: false,`,
+    `});`,
+    ``,
+  ];
+  return lines.join('\n');
+}
+
+const SUPPORT_FILES = (devServer: ComponentDevServer | undefined): Record<string, string> => ({
+  'cypress/support/commands.ts': `// Custom commands shared by the specs, e.g. Cypress.Commands.add('login', (email, password) => { ... })\nexport {};\n`,
+  'cypress/support/e2e.ts': `import './commands';\n`,
+  ...(devServer ? {
+    'cypress/support/component.ts': [
+      `import './commands';`,
+      `import { mount } from '${devServer.mountModule}';`,
+      ``,
+      `declare global {`,
+      `  // eslint-disable-next-line @typescript-eslint/no-namespace`,
+      `  namespace Cypress {`,
+      `    interface Chainable {`,
+      `      mount: typeof mount;`,
+      `    }`,
+      `  }`,
+      `}`,
+      ``,
+      `Cypress.Commands.add('mount', mount);`,
+      ``,
+    ].join('\n'),
+    'cypress/support/component-index.html': `<!DOCTYPE html>\n<html>\n  <head>\n    <meta charset="utf-8" />\n    <title>Components App</title>\n  </head>\n  <body>\n    <div data-cy-root></div>\n  </body>\n</html>\n`,
+  } : {}),
+});
+
+async function runPackageManager(repoPath: string, packageManager: PackageManager, args: string[]): Promise<{ ok: boolean; detail: string }> {
+  const commandLine = `${packageManager} ${args.join(' ')}`;
+  try {
+    const result = await runCommand(packageManager, args, { cwd: repoPath, timeoutMs: INSTALL_TIMEOUT_MS });
+    if (result.timedOut) {
+      return { ok: false, detail: `\`${commandLine}\` timed out after ${INSTALL_TIMEOUT_MS / 60_000} minutes.` };
+    }
+    if (result.code !== 0) {
+      const output = (result.stderr || result.stdout).trim().split('\n').slice(-5).join('\n');
+      return { ok: false, detail: `\`${commandLine}\` exited with code ${result.code}:\n${output}` };
+    }
+    return { ok: true, detail: `\`${commandLine}\` succeeded.` };
+  } catch (error: any) {
+    const hint = error.code === 'ENOENT' ? ` ${packageManager} is not installed on the server (try \`corepack enable\`).` : '';
+    return { ok: false, detail: `Could not start \`${commandLine}\`: ${error.message}.${hint}` };
+  }
+}
+
+async function installDependencies(repoPath: string, packageManager: PackageManager): Promise<BootstrapStep> {
+  if (fs.existsSync(path.join(repoPath, 'node_modules'))) {
+    return { name: 'Install dependencies', status: 'skipped', detail: 'node_modules already exists.' };
+  }
+  const install = await runPackageManager(repoPath, packageManager, INSTALL_ARGS[packageManager]);
+  return { name: 'Install dependencies', status: install.ok ? 'done' : 'failed', detail: install.detail };
+}
+
+function renderSteps(steps: BootstrapStep[]): string {
+  return steps.map(step => `[cypress setup] ${step.name}: ${step.status}. ${step.detail}\n`).join('');
+}
+
+export async function installWorkspaceDependencies(rootPath: string): Promise<{ packageManager: PackageManager; steps: BootstrapStep[]; log: string }> {
+  const packageManager = detectPackageManager(rootPath);
+  const steps: BootstrapStep[] = [
+    { name: 'Detect package manager', status: 'done', detail: `Using ${packageManager} for the workspace.` },
+    await installDependencies(rootPath, packageManager),
+  ];
+  return { packageManager, steps, log: renderSteps(steps) };
+}
+
+export async function prepareCypressProject(repoPath: string, { baseUrl, skip, workspacePackageManager }: PrepareCypressProjectOptions = {}): Promise<{ steps: BootstrapStep[]; log: string }> {
+  const steps: BootstrapStep[] = [];
+  const record = (step: BootstrapStep) => steps.push(step);
+  const finish = () => ({ steps, log: renderSteps(steps) });
+
+  if (skip) {
+    record({ name: 'Prepare Cypress project', status: 'skipped', detail: 'Skipped on request; the repository is expected to be configured already.' });
+    return finish();
+  }
+
+  const packageManager = workspacePackageManager || detectPackageManager(repoPath);
+  record({ name: 'Detect package manager', status: 'done', detail: workspacePackageManager ? `Using ${packageManager} of the workspace root.` : `Using ${packageManager}.` });
+
+  const packageJsonPath = path.join(repoPath, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    fs.writeFileSync(packageJsonPath, JSON.stringify({ name: path.basename(repoPath).toLowerCase(), private: true }, null, 2) + '\n');
+    record({ name: 'Create package.json', status: 'done', detail: 'The repository had no package.json; created a minimal one.' });
+  }
+
+  if (workspacePackageManager) {
+    record({ name: 'Install dependencies', status: 'skipped', detail: 'Installed at the workspace root.' });
+  } else {
+    const install = await installDependencies(repoPath, packageManager);
+    record(install);
+    if (install.status === 'failed') return finish();
+  }
+
+  const dependencies = readDependencies(repoPath);
+  const configFile = findCypressConfigFile(repoPath);
+  // A generated cypress.config.ts needs TypeScript in the project
+  const missingPackages = ['cypress', ...(configFile ? [] : ['typescript'])].filter(name => !(name in dependencies));
+  if (missingPackages.length === 0) {
+    record({ name: 'Add Cypress', status: 'skipped', detail: 'Cypress is already a dependency.' });
+  } else {
+    const add = await runPackageManager(repoPath, packageManager, [...ADD_DEV_ARGS[packageManager], ...missingPackages]);
+    record({ name: `Add ${missingPackages.join(', ')}`, status: add.ok ? 'done' : 'failed', detail: add.detail });
+    if (!add.ok) return finish();
+  }
+
+  if (configFile) {
+    const hasBaseUrl = /baseUrl\s*:/.test(fs.readFileSync(path.join(repoPath, configFile), 'utf8'));
+    record({
+      name: 'Generate cypress.config.ts',
+      status: 'skipped',
+      detail: `${configFile} already exists${baseUrl && !hasBaseUrl ? `; it has no baseUrl, so specs must visit absolute URLs such as ${baseUrl}` : ''}.`,
+    });
+    return finish();
+  }
+
+  const devServer = detectComponentDevServer(readDependencies(repoPath));
+  fs.writeFileSync(path.join(repoPath, 'cypress.config.ts'), renderCypressConfig(baseUrl, devServer));
+  record({
+    name: 'Generate cypress.config.ts',
+    status: 'done',
+    detail: `baseUrl: ${baseUrl || '(none, no App URL given)'}; component testing: ${devServer ? `${devServer.framework} with ${devServer.bundler}` : 'not configured (framework not detected)'}.`,
+  });
+
+  const written: string[] = [];
+  for (const [relativePath, content] of Object.entries(SUPPORT_FILES(devServer))) {
+    const absolutePath = path.join(repoPath, relativePath);
+    if (fs.existsSync(absolutePath)) continue;
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, content);
+    written.push(relativePath);
+  }
+  record({ name: 'Write support files', status: written.length > 0 ? 'done' : 'skipped', detail: written.length > 0 ? written.join(', ') : 'All support files already exist.' });
+  return finish();
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileOverview Reads the parts of a project's Cypress configuration the flows care about.
+ *
+ * The config file is not executed (it may import project code); its text is inspected instead, which is
+ * enough to find the spec patterns and whether a component dev server is configured.
+ *
+ * - findCypressConfigFile - Returns the cypress.config.* file of a project, if any.
+ * - readCypressProjectConfig - Extracts spec patterns and component dev server settings from it.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CYPRESS_CONFIG_FILES = ['cypress.config.ts', 'cypress.config.js', 'cypress.config.mjs', 'cypress.config.cjs', 'cypress.config.mts', 'cypress.config.cts'];
+export const DEFAULT_E2E_SPEC_PATTERN = 'cypress/e2e/**/*.cy.{js,jsx,ts,tsx}';
+export const DEFAULT_COMPONENT_SPEC_PATTERN = '**/*.cy.{js,jsx,ts,tsx}';
+
+export interface CypressProjectConfig {
+  configFile?: string;
+  e2eSpecPattern: string[];
+  componentSpecPattern: string[];
+  hasComponentConfig: boolean;
+  componentFramework?: string;
+  componentBundler?: string;
+}
+
+export function findCypressConfigFile(repoPath: string): string | undefined {
+  return CYPRESS_CONFIG_FILES.find(file => fs.existsSync(path.join(repoPath, file)));
+}
+
+// Returns the text of the `key: { ... }` object literal, balancing braces.
+function objectSection(source: string, key: string): string | undefined {
+  const match = new RegExp(`\\b${key}\\s*:\\s*\\{`).exec(source);
+  if (!match) return undefined;
+  let depth = 0;
+  for (let i = match.index + match[0].length - 1; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}' && --depth === 0) return source.slice(match.index, i + 1);
+  }
+  return source.slice(match.index);
+}
+
+function specPatterns(section: string | undefined, fallback: string): string[] {
+  const value = section?.match(/specPattern\s*:\s*(\[[^\]]*\]|['"`][^'"`]+['"`])/)?.[1];
+  if (!value) return [fallback];
+  const patterns = [...value.matchAll(/['"`]([^'"`]+)['"`]/g)].map(m => m[1]);
+  return patterns.length > 0 ? patterns : [fallback];
+}
+
+export function readCypressProjectConfig(repoPath: string): CypressProjectConfig {
+  const configFile = findCypressConfigFile(repoPath);
+  if (!configFile) {
+    return {
+      e2eSpecPattern: [DEFAULT_E2E_SPEC_PATTERN],
+      componentSpecPattern: [DEFAULT_COMPONENT_SPEC_PATTERN],
+      hasComponentConfig: false,
+    };
+  }
+
+  const source = fs.readFileSync(path.join(repoPath, configFile), 'utf8');
+  const e2eSection = objectSection(source, 'e2e');
+  const componentSection = objectSection(source, 'component');
+  return {
+    configFile,
+    e2eSpecPattern: specPatterns(e2eSection, DEFAULT_E2E_SPEC_PATTERN),
+    componentSpecPattern: specPatterns(componentSection, DEFAULT_COMPONENT_SPEC_PATTERN),
+    hasComponentConfig: !!componentSection && /devServer\s*[:(]/.test(componentSection),
+    componentFramework: componentSection?.match(/framework\s*:\s*['"`]([^'"`]+)['"`]/)?.[1],
+    componentBundler: componentSection?.match(/bundler\s*:\s*['"`]([^'"`]+)['"`]/)?.[1],
+  };
+}
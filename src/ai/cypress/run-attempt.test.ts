@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { tryCypressRunAttempt, type CypressRunTarget } from '@/ai/cypress/run-attempt';
+import type { CypressRunChunk } from '@/ai/flows/execute-cypress-run-headless-flow';
+
+const target: CypressRunTarget = {
+  specFilePath: '/repo/cypress/e2e/login.cy.ts',
+  relativeSpecPath: 'cypress/e2e/login.cy.ts',
+  testingType: 'e2e',
+  baseUrl: 'http://localhost:3000',
+};
+
+const tempDirs: string[] = [];
+
+// Runs load Cypress's module API from the project rather than calling `npx cypress`, so the fake is installed
+// as the repository's node_modules/cypress; its run() executes the given body. Without a body Cypress is missing.
+function repoWithFakeCypress(runBody?: string): string {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-attempt-'));
+  tempDirs.push(repo);
+  if (runBody !== undefined) {
+    const cypressDir = path.join(repo, 'node_modules', 'cypress');
+    fs.mkdirSync(cypressDir, { recursive: true });
+    fs.writeFileSync(path.join(cypressDir, 'package.json'), JSON.stringify({ name: 'cypress', main: 'index.js' }));
+    fs.writeFileSync(path.join(cypressDir, 'index.js'), `module.exports = { run: async (options) => { ${runBody} } };\n`);
+  }
+  return repo;
+}
+
+const finishedRun = (tests: object[], totals: object) => `return ${JSON.stringify({
+  status: 'finished',
+  browserName: 'chrome',
+  runs: [{ spec: { relative: 'cypress/e2e/login.cy.ts' }, stats: { passes: 1, failures: 0 }, tests }],
+  ...totals,
+})};`;
+
+function runAttempt(repo: string, onChunk?: (chunk: CypressRunChunk) => void) {
+  return tryCypressRunAttempt('chrome', { cwd: repo, env: { ...process.env } }, target, onChunk);
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('tryCypressRunAttempt', () => {
+  it('reports a missing libglib as error_libglib', async () => {
+    const repo = repoWithFakeCypress(`
+      process.stderr.write('error while loading shared libraries: libglib-2.0.so.0: cannot open shared object file: No such file or directory\\n');
+      return { status: 'failed', failures: 1, message: 'Cypress failed to start.' };
+    `);
+    const result = await runAttempt(repo);
+    expect(result.status).toBe('error_libglib');
+    expect(result.output.status).toBe('error_running');
+    expect(result.output.message).toContain("libglib-2.0.so.0");
+  });
+
+  it('reports a missing Xvfb as error_xvfb', async () => {
+    const repo = repoWithFakeCypress(`
+      process.stderr.write('Your system is missing the dependency: Xvfb\\n');
+      return { status: 'failed', failures: 1, message: 'Cypress failed to start.' };
+    `);
+    const result = await runAttempt(repo);
+    expect(result.status).toBe('error_xvfb');
+    expect(result.output.status).toBe('error_running');
+    expect(result.output.message).toContain('Xvfb');
+  });
+
+  it('reports a passing run as completed_successfully with structured results', async () => {
+    const repo = repoWithFakeCypress(`
+      console.log('OPTIONS ' + JSON.stringify(options));
+      ${finishedRun([{ title: ['Login', 'signs in'], state: 'passed', duration: 12 }], { totalTests: 1, totalPassed: 1, totalFailed: 0 })}
+    `);
+    const chunks: CypressRunChunk[] = [];
+    const result = await runAttempt(repo, chunk => chunks.push(chunk));
+
+    expect(result.status).toBe('ok');
+    expect(result.output.status).toBe('completed_successfully');
+    expect(result.output.results?.totalPassed).toBe(1);
+    expect(result.output.results?.specs[0].tests[0].titlePath).toEqual(['Login', 'signs in']);
+    const options = JSON.parse(chunks.filter(chunk => chunk.source === 'stdout').map(chunk => chunk.text).join('').match(/OPTIONS (.*)/)![1]);
+    expect(options).toMatchObject({ testingType: 'e2e', browser: 'chrome', headless: true, spec: target.relativeSpecPath, config: { video: false, baseUrl: target.baseUrl } });
+  });
+
+  it('reports failing tests as completed_with_failures', async () => {
+    const repo = repoWithFakeCypress(finishedRun(
+      [{ title: ['Login', 'signs in'], state: 'failed', displayError: 'AssertionError: expected true to be false\n    at Context.eval (login.cy.ts:3:4)' }],
+      { totalTests: 1, totalPassed: 0, totalFailed: 1 },
+    ));
+    const result = await runAttempt(repo);
+
+    expect(result.status).toBe('error_generic');
+    expect(result.output.status).toBe('completed_with_failures');
+    expect(result.output.message).toContain('1 of 1 tests failed');
+    expect(result.output.results?.specs[0].tests[0].errorMessage).toBe('AssertionError: expected true to be false');
+  });
+
+  it('treats a finished run without specs ("No specs found") as a successful completion', async () => {
+    const repo = repoWithFakeCypress(`return { status: 'finished', runs: [], totalTests: 0, totalPassed: 0, totalFailed: 0 };`);
+    const result = await runAttempt(repo);
+
+    expect(result.status).toBe('ok');
+    expect(result.output.status).toBe('completed_successfully');
+    expect(result.output.runSummary).toContain('No specs found');
+  });
+
+  it('reports a run Cypress could not start as error_running with its failure message', async () => {
+    const repo = repoWithFakeCypress(`return { status: 'failed', failures: 1, message: 'Could not find a Cypress configuration file.\\nMore details' };`);
+    const result = await runAttempt(repo);
+
+    expect(result.status).toBe('error_generic');
+    expect(result.output.status).toBe('error_running');
+    expect(result.output.message).toContain('Could not find a Cypress configuration file.');
+    expect(result.output.message).not.toContain('More details');
+  });
+
+  it('reports a repository without Cypress installed as error_running', async () => {
+    const result = await runAttempt(repoWithFakeCypress());
+
+    expect(result.status).toBe('error_generic');
+    expect(result.output.status).toBe('error_running');
+    expect(result.output.runSummary).toContain('Cypress is not installed');
+  });
+
+  it('reports a process that cannot be spawned as error_running', async () => {
+    const missingDir = path.join(os.tmpdir(), `cypress-pilot-missing-${process.pid}-${Date.now()}`);
+    const result = await runAttempt(missingDir);
+
+    expect(result.status).toBe('error_generic');
+    expect(result.output.status).toBe('error_running');
+    expect(result.output.message).toContain('Failed to start Cypress run with chrome');
+    expect(result.log).toContain('Spawn error for chrome');
+  });
+});
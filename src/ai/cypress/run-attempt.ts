@@ -0,0 +1,179 @@
+/**
+ * @fileOverview Runs one Cypress attempt with a given browser and classifies how it ended.
+ *
+ * The run goes through the Module API runner in a child Node process with the repository as cwd. Missing
+ * libglib and Xvfb are told apart from other startup failures so the caller can retry with another browser.
+ *
+ * - tryCypressRunAttempt - Runs the target with one browser and returns the attempt status, output and log.
+ */
+
+import { spawn } from 'child_process';
+import { formatRunSummary, normalizeCypressRunResults } from '@/ai/schemas/cypress-run-results';
+import { createModuleApiRun, readModuleApiResult } from '@/ai/cypress/module-api-runner';
+import { createTestProgressCounter, stripAnsi } from '@/ai/cypress/test-progress';
+import type { CypressRunChunk, ExecuteCypressRunHeadlessOutput } from '@/ai/flows/execute-cypress-run-headless-flow';
+
+export interface CypressSpawnOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+}
+
+export type CypressTestingType = 'e2e' | 'component';
+
+// What a run executes: the spec pattern, its testing type and the app URL to use as baseUrl
+export interface CypressRunTarget {
+  specFilePath: string;
+  relativeSpecPath: string;
+  testingType: CypressTestingType;
+  baseUrl?: string;
+}
+
+// Helper function to attempt a single Cypress run configuration
+export async function tryCypressRunAttempt(
+  browserName: string,
+  spawnOptions: CypressSpawnOptions,
+  { specFilePath, relativeSpecPath, testingType, baseUrl }: CypressRunTarget,
+  onChunk?: (chunk: CypressRunChunk) => void
+): Promise<{ status: 'ok' | 'error_xvfb' | 'error_libglib' | 'error_generic'; output: ExecuteCypressRunHeadlessOutput; log: string }> {
+  const moduleApiRun = createModuleApiRun();
+  // Video is disabled for the specified browser and headless mode
+  const runOptions = { testingType, browser: browserName, headless: true, spec: relativeSpecPath, config: { video: false, ...(baseUrl ? { baseUrl } : {}) } };
+
+  return new Promise((resolve) => {
+    let stdoutData = '';
+    let stderrData = '';
+    let attemptLog = `Attempting with ${browserName}: cypress.run(${JSON.stringify(runOptions)})\n`;
+    attemptLog += `Spawn options env: ${JSON.stringify(spawnOptions.env)}\n`;
+    const progressCounter = createTestProgressCounter();
+    const emit = (source: CypressRunChunk['source'], text: string) => {
+      onChunk?.({ source, text: stripAnsi(text), browserName, ...progressCounter.progress });
+    };
+    emit('status', `Starting Cypress with ${browserName} for ${relativeSpecPath}...\n`);
+
+    const finish = (result: { status: 'ok' | 'error_xvfb' | 'error_libglib' | 'error_generic'; output: ExecuteCypressRunHeadlessOutput; log: string }) => {
+      moduleApiRun.cleanup();
+      resolve(result);
+    };
+
+    const cypressProcess = spawn(
+      process.execPath,
+      [moduleApiRun.runnerPath, JSON.stringify(runOptions), moduleApiRun.resultPath],
+      { ...spawnOptions, stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+
+    cypressProcess.stdout.on('data', (data) => {
+      const line = data.toString();
+      stdoutData += line;
+      attemptLog += `STDOUT: ${line}\n`;
+      progressCounter.consume(line);
+      emit('stdout', line);
+    });
+
+    cypressProcess.stderr.on('data', (data) => {
+      const line = data.toString();
+      stderrData += line;
+      attemptLog += `STDERR: ${line}\n`;
+      emit('stderr', line);
+    });
+
+    cypressProcess.on('error', (err) => {
+      attemptLog += `Spawn error for ${browserName}: ${err.message}\n`;
+      finish({
+        status: 'error_generic',
+        log: attemptLog,
+        output: {
+          status: 'error_running',
+          message: `Failed to start Cypress run with ${browserName}: ${err.message}.`,
+          detailedLog: `${attemptLog}Spawn error: ${err.message}\nEnsure Cypress is installed.\nStderr (if any):\n${stderrData}`,
+          specPath: specFilePath,
+        }
+      });
+    });
+
+    cypressProcess.on('close', (code) => {
+      const rawResult = readModuleApiResult(moduleApiRun.resultPath);
+      const fullLog = `Browser: ${browserName}\nRun options: ${JSON.stringify(runOptions)}\nExit Code: ${code}\n\nStdout:\n${stdoutData}\n\nStderr:\n${stderrData}`;
+      attemptLog += `Process for ${browserName} closed with code ${code}\n`;
+      emit('status', `Cypress with ${browserName} exited with code ${code}.\n`);
+      // Startup failures are reported both on stderr and in the Module API failure message.
+      const startupErrorText = `${stderrData}\n${rawResult?.status === 'failed' ? rawResult.message || '' : ''}`;
+
+      if (startupErrorText.includes('libglib-2.0.so.0: cannot open shared object file')) {
+        finish({
+          status: 'error_libglib',
+          log: attemptLog,
+          output: {
+            status: 'error_running',
+            message: `Cypress Run with ${browserName} Failed: Missing system library 'libglib-2.0.so.0'. This library is required by Cypress/Electron. Please install it in your environment (e.g., via 'apt-get install libglib2.0-0' on Debian/Ubuntu, or its equivalent for your OS).`,
+            detailedLog: `Missing 'libglib-2.0.so.0' error detected with ${browserName}.\n${fullLog}`,
+            specPath: specFilePath,
+          }
+        });
+        return;
+      }
+
+      if (startupErrorText.toLowerCase().includes('xvfb') && (startupErrorText.toLowerCase().includes('missing the dependency') || startupErrorText.toLowerCase().includes('spawn xvfb enoent'))) {
+        finish({
+          status: 'error_xvfb',
+          log: attemptLog,
+          output: {
+            status: 'error_running',
+            message: `Cypress Run with ${browserName} Failed: Xvfb dependency reported. This is needed for graphical components. Please install Xvfb in your environment.`,
+            detailedLog: `Xvfb error detected with ${browserName}.\n${fullLog}`,
+            specPath: specFilePath,
+          }
+        });
+        return;
+      }
+
+      if (!rawResult || rawResult.status !== 'finished') {
+        // Cypress could not run the specs at all (not installed, browser not found, invalid config, ...)
+        const failureMessage = rawResult?.message || `Cypress did not report any results. Exit code: ${code}.`;
+        finish({
+          status: 'error_generic',
+          log: attemptLog,
+          output: {
+            status: 'error_running',
+            message: `Cypress headless run with ${browserName} for spec: ${relativeSpecPath} did not complete as expected. ${failureMessage.split('\n')[0]}`,
+            specPath: specFilePath,
+            runSummary: failureMessage,
+            detailedLog: fullLog,
+          }
+        });
+        return;
+      }
+
+      const results = normalizeCypressRunResults(rawResult);
+      const hasFailures = results.totalFailed > 0 || results.specs.some(spec => !!spec.error);
+
+      if (!hasFailures) {
+        // A finished run without any spec is treated as a successful completion, as before.
+        finish({
+          status: 'ok',
+          log: attemptLog,
+          output: {
+            status: 'completed_successfully',
+            message: `Cypress headless run with ${browserName} for spec: ${relativeSpecPath} completed successfully.`,
+            specPath: specFilePath,
+            runSummary: formatRunSummary(results),
+            results,
+            detailedLog: fullLog,
+          }
+        });
+      } else {
+        finish({
+          status: 'error_generic',
+          log: attemptLog,
+          output: {
+            status: 'completed_with_failures',
+            message: `Cypress headless run with ${browserName} for spec: ${relativeSpecPath} completed with failures/errors. ${results.totalFailed} of ${results.totalTests} tests failed.`,
+            specPath: specFilePath,
+            runSummary: formatRunSummary(results),
+            results,
+            detailedLog: fullLog,
+          }
+        });
+      }
+    });
+  });
+}
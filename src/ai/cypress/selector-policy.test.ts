@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { renderSelectorPolicy } from '@/ai/cypress/selector-policy';
+import { validateSpec } from '@/ai/cypress/spec-validation';
+import { DEFAULT_SELECTOR_POLICY } from '@/lib/constants';
+
+function selectorIssues(body: string, policy = DEFAULT_SELECTOR_POLICY) {
+  const spec = `describe('Checkout', () => {\n  it('pays', () => {\n    cy.visit('/checkout');\n${body}\n  });\n});\n`;
+  return validateSpec(spec, 'checkout.cy.ts', policy).issues.map(issue => [issue.rule, issue.severity, issue.line]);
+}
+
+describe('checkSelectors', () => {
+  it('accepts test ids, roles, labels and text', () => {
+    expect(selectorIssues([
+      "    cy.get('[data-cy=\"card-number\"]').type('4242');",
+      "    cy.get('[data-testid=cart] button').click();",
+      "    cy.get('[role=\"dialog\"]').should('be.visible');",
+      "    cy.get('[aria-label=\"Close\"]').click();",
+      "    cy.contains('button', 'Pay now').click();",
+      "    cy.get('@payment').should('exist');",
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('rejects class chains and positional selectors', () => {
+    expect(selectorIssues([
+      "    cy.get('.checkout .btn.primary > span').click();",
+      "    cy.get('[data-cy=items] li:nth-child(2)').click();",
+      "    cy.get('[data-cy=items] li').eq(1).click();",
+    ].join('\n'))).toEqual([
+      ['css-selector', 'error', 4],
+      ['positional-selector', 'error', 5],
+      ['positional-selector', 'error', 6],
+    ]);
+  });
+
+  it('follows the configured attributes and fallbacks', () => {
+    const policy = { ...DEFAULT_SELECTOR_POLICY, testIdAttributes: ['data-qa'], allowText: false, cssSelectors: 'warning' as const };
+
+    expect(selectorIssues([
+      "    cy.get('[data-qa=pay]').click();",
+      "    cy.get('[data-cy=pay]').click();",
+      "    cy.get('#email').type('a@b.c');",
+      "    cy.contains('Pay now').click();",
+      "    cy.contains('Thank you');",
+    ].join('\n'), policy)).toEqual([
+      ['test-id-attribute', 'warning', 5],
+      ['css-selector', 'warning', 6],
+      ['text-selector', 'error', 7],
+    ]);
+  });
+
+  it('does not take Map#get or Array#find for commands', () => {
+    expect(selectorIssues("    const prices = new Map([['a', 1]]);\n    expect(prices.get('a')).to.eq(1);")).toEqual([]);
+  });
+});
+
+describe('renderSelectorPolicy', () => {
+  it('lists the allowed selectors in order', () => {
+    expect(renderSelectorPolicy(DEFAULT_SELECTOR_POLICY)).toMatch(/1\. Test ids: \[data-cy="\.\.\."\], then \[data-testid="\.\.\."\][^]*2\. .*ARIA role or label[^]*3\. .*visible text/);
+    expect(renderSelectorPolicy({ ...DEFAULT_SELECTOR_POLICY, allowRoleAndLabel: false })).toMatch(/2\. Otherwise its visible text/);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @fileOverview Applies a SelectorPolicy to generated specs: renders it for prompts and lints the selectors a spec uses.
+ *
+ * Selectors are read from string literals passed to cy.get() and .find(); the selector argument of cy.contains() is
+ * only checked for positions.
+ * A selector passes when one of its compound parts is one of the policy's test id attributes or, when allowed, an
+ * ARIA role or label attribute. Positional selectors (:nth-child, :eq(), .eq()) always fail; selectors made only of
+ * classes, ids, tags or other attributes fail or warn as the policy says. Interacting with an element found by text
+ * fails when the policy does not allow text.
+ *
+ * - renderSelectorPolicy - Renders the policy as instructions for the generation and repair prompts.
+ * - checkSelectors - Lists the selectors of a parsed spec that break the policy.
+ */
+
+import * as ts from 'typescript';
+import type { SelectorPolicy } from '@/ai/schemas/selector-policy';
+import type { SpecValidationIssue } from '@/ai/schemas/spec-diagnostics';
+
+// Test id attributes the policy may not list; selecting by them is reported so specs use the repository's own attribute
+const KNOWN_TEST_ID_ATTRIBUTES = ['data-cy', 'data-testid', 'data-test-id', 'data-test', 'data-qa'];
+const ROLE_AND_LABEL_ATTRIBUTES = new Set(['role', 'aria-label', 'aria-labelledby']);
+const POSITIONAL_PSEUDO = /:(nth-child|nth-last-child|nth-of-type|nth-last-of-type|first-child|last-child|first-of-type|last-of-type|eq|gt|lt|first|last|even|odd)\b/;
+const ATTRIBUTE_PATTERN = /\[\s*([\w-]+)\s*(?:[~|^$*]?=[^\]]*)?\]/g;
+const INTERACTION_COMMANDS = new Set(['click', 'dblclick', 'rightclick', 'type', 'clear', 'check', 'uncheck', 'select', 'selectFile', 'trigger']);
+// Testing Library queries that select by role or label, and by text
+const ROLE_AND_LABEL_QUERIES = /^find(All)?By(Role|LabelText|PlaceholderText|Title|AltText)$/;
+const TEXT_QUERIES = /^find(All)?By(Text|DisplayValue)$/;
+
+export function renderSelectorPolicy(policy: SelectorPolicy): string {
+  const testIds = policy.testIdAttributes.map(attribute => `[${attribute}="..."]`).join(', then ');
+  const lines = [
+    'Select elements in this order of preference:',
+    `1. Test ids: ${testIds}, e.g. cy.get('[${policy.testIdAttributes[0]}="submit"]').`,
+  ];
+  if (policy.allowRoleAndLabel) {
+    lines.push(`${lines.length}. Where an element has no test id, its ARIA role or label, e.g. cy.get('[role="dialog"]') or cy.get('[aria-label="Search"]').`);
+  }
+  if (policy.allowText) {
+    lines.push(`${lines.length}. Otherwise its visible text, e.g. cy.contains('button', 'Sign in').`);
+  }
+  lines.push('Never select by position (:nth-child, :first, :eq() or .eq()).');
+  lines.push(`Do not select by classes, ids, tags or other attributes (e.g. '.btn.primary > span' or '#email')${policy.allowText ? '' : ', and do not interact with elements found by their text'}.`);
+  return lines.join('\n');
+}
+
+// Splits "a > b, c d" into selectors and their compound parts, ignoring combinators inside brackets and quotes
+function parseSelectorList(selectorList: string): string[][] {
+  const selectors: string[][] = [[]];
+  let current = '';
+  let depth = 0;
+  let quote: string | null = null;
+  const endCompound = () => {
+    if (current.trim()) selectors[selectors.length - 1].push(current.trim());
+    current = '';
+  };
+  for (const ch of selectorList) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '(') {
+      depth++;
+    } else if (ch === ']' || ch === ')') {
+      depth--;
+    } else if (depth === 0 && (ch === ',' || /[\s>+~]/.test(ch))) {
+      endCompound();
+      if (ch === ',') selectors.push([]);
+      continue;
+    }
+    current += ch;
+  }
+  endCompound();
+  return selectors.filter(compounds => compounds.length > 0);
+}
+
+// Whether a call chain starts at `cy`, so Map#get or Array#find are not taken for commands
+function isCypressChain(expression: ts.Expression): boolean {
+  while (ts.isCallExpression(expression) || ts.isPropertyAccessExpression(expression)) {
+    expression = expression.expression;
+  }
+  return ts.isIdentifier(expression) && expression.text === 'cy';
+}
+
+function selectorText(node: ts.Expression | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+}
+
+export function checkSelectors(sourceFile: ts.SourceFile, policy: SelectorPolicy): SpecValidationIssue[] {
+  const issues: SpecValidationIssue[] = [];
+  const report = (rule: SpecValidationIssue['rule'], severity: SpecValidationIssue['severity'], message: string, node: ts.Node) => {
+    const from = node.getStart();
+    issues.push({ rule, severity, message, line: sourceFile.getLineAndCharacterOfPosition(from).line + 1, from, to: node.getEnd() });
+  };
+  const preferred = policy.testIdAttributes.map(attribute => `[${attribute}=...]`).join(' or ');
+  const fallbacks = [policy.allowRoleAndLabel && 'an ARIA role or label', policy.allowText && 'the visible text'].filter(Boolean).join(', then ');
+  const instead = fallbacks ? `${preferred} (or ${fallbacks})` : preferred;
+
+  const checkSelector = (selectorList: string, node: ts.Node) => {
+    if (selectorList.startsWith('@')) return;
+    if (POSITIONAL_PSEUDO.test(selectorList)) {
+      report('positional-selector', 'error', `'${selectorList}' selects by position, which breaks when the page changes; use ${instead} instead.`, node);
+      return;
+    }
+    for (const compounds of parseSelectorList(selectorList)) {
+      const attributes = compounds.flatMap(compound => [...compound.matchAll(ATTRIBUTE_PATTERN)].map(match => match[1]));
+      if (attributes.some(attribute => policy.testIdAttributes.includes(attribute))) continue;
+      if (policy.allowRoleAndLabel && attributes.some(attribute => ROLE_AND_LABEL_ATTRIBUTES.has(attribute))) continue;
+      const otherTestId = attributes.find(attribute => KNOWN_TEST_ID_ATTRIBUTES.includes(attribute));
+      if (otherTestId) {
+        report('test-id-attribute', 'warning', `'${compounds.join(' ')}' selects by ${otherTestId}; the selector policy uses ${policy.testIdAttributes.join(', ')}.`, node);
+      } else {
+        report('css-selector', policy.cssSelectors, `'${compounds.join(' ')}' selects by classes, ids, tags or attributes that change with styling and markup; use ${instead} instead.`, node);
+      }
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && isCypressChain(node.expression)) {
+      const command = node.expression.name.text;
+      const receiver = node.expression.expression;
+      if (command === 'get' || command === 'find') {
+        const selector = selectorText(node.arguments[0]);
+        if (selector !== undefined) checkSelector(selector, node.arguments[0]);
+      } else if (command === 'contains' && node.arguments.length >= 2) {
+        // cy.contains('button', 'Sign in') selects by text; the tag only narrows it down
+        const selector = selectorText(node.arguments[0]);
+        if (selector !== undefined && POSITIONAL_PSEUDO.test(selector)) checkSelector(selector, node.arguments[0]);
+      } else if (command === 'eq') {
+        report('positional-selector', 'error', `.eq() selects by position, which breaks when the page changes; use ${instead} instead.`, node.expression.name);
+      } else if (!policy.allowRoleAndLabel && ROLE_AND_LABEL_QUERIES.test(command)) {
+        report('css-selector', policy.cssSelectors, `${command}() selects by role or label, which the selector policy does not allow; use ${preferred} instead.`, node.expression.name);
+      } else if (!policy.allowText && TEXT_QUERIES.test(command)) {
+        report('text-selector', 'error', `${command}() selects by text, which the selector policy does not allow; use ${instead} instead.`, node.expression.name);
+      }
+      if (!policy.allowText && INTERACTION_COMMANDS.has(command) && ts.isCallExpression(receiver)
+        && ts.isPropertyAccessExpression(receiver.expression) && receiver.expression.name.text === 'contains') {
+        report('text-selector', 'error', `.${command}() acts on an element found by its text, which the selector policy does not allow; use ${instead} instead.`, receiver);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return issues;
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { checkSpecSource, completeSpecSource } from '@/ai/cypress/spec-language-service';
+
+const SPEC = 'cypress/e2e/login.cy.ts';
+
+// Just enough of Cypress's global types for the checks below
+const FAKE_CYPRESS_TYPES = `declare namespace Cypress {
+  interface Chainable<Subject = any> {
+    visit(url: string): Chainable<Subject>;
+    contains(text: string): Chainable<Subject>;
+  }
+}
+declare const cy: Cypress.Chainable;
+declare function describe(title: string, fn: () => void): void;
+declare function it(title: string, fn: () => void): void;
+`;
+
+const tempDirs: string[] = [];
+
+function fixtureRepo(files: Record<string, string>, { cypress = true } = {}): string {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-spec-check-'));
+  tempDirs.push(repo);
+  const allFiles = cypress ? {
+    'node_modules/cypress/package.json': JSON.stringify({ name: 'cypress', types: 'types/index.d.ts' }),
+    'node_modules/cypress/types/index.d.ts': FAKE_CYPRESS_TYPES,
+    ...files,
+  } : files;
+  for (const [relativePath, content] of Object.entries(allFiles)) {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  }
+  return repo;
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('checkSpecSource', () => {
+  it('accepts a spec that only uses Cypress commands', () => {
+    const repo = fixtureRepo({});
+    const code = "describe('Login', () => {\n  it('opens', () => {\n    cy.visit('/login').contains('Sign in');\n  });\n});\n";
+
+    expect(checkSpecSource(repo, SPEC, code)).toEqual({ diagnostics: [], cypressTypes: true });
+  });
+
+  it('reports unknown commands at their position in the edited text', () => {
+    const repo = fixtureRepo({});
+    const code = "cy.visit('/login');\ncy.clickk('Sign in');\n";
+    const { diagnostics } = checkSpecSource(repo, SPEC, code);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'error', code: 2339 });
+    expect(code.slice(diagnostics[0].from, diagnostics[0].to)).toBe('clickk');
+    expect(diagnostics[0].message).toContain("Property 'clickk' does not exist");
+  });
+
+  it('knows the custom commands declared in the support files', () => {
+    const repo = fixtureRepo({
+      'cypress/support/commands.ts': `declare global {
+  namespace Cypress {
+    interface Chainable {
+      login(email: string): Chainable;
+    }
+  }
+}
+export {};
+`,
+    });
+
+    expect(checkSpecSource(repo, SPEC, "cy.login('user@example.com');\n").diagnostics).toEqual([]);
+    expect(checkSpecSource(repo, SPEC, 'cy.login(42);\n').diagnostics).toEqual([expect.objectContaining({ code: 2345 })]);
+  });
+
+  it('uses the compiler options of the tsconfig nearest to the spec', () => {
+    const code = 'const twice = (value) => value * 2;\ncy.visit(`/items/${twice(2)}`);\n';
+    const strictRepo = fixtureRepo({ 'cypress/tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, lib: ['es2020', 'dom'] } }) });
+    const looseRepo = fixtureRepo({ 'tsconfig.json': JSON.stringify({ compilerOptions: { strict: false, lib: ['es2020', 'dom'] } }) });
+
+    expect(checkSpecSource(strictRepo, SPEC, code).diagnostics).toEqual([expect.objectContaining({ code: 7006 })]);
+    expect(checkSpecSource(looseRepo, SPEC, code).diagnostics).toEqual([]);
+  });
+
+  it('picks up edits between checks', () => {
+    const repo = fixtureRepo({});
+
+    expect(checkSpecSource(repo, SPEC, 'cy.vist("/");\n').diagnostics).toHaveLength(1);
+    expect(checkSpecSource(repo, SPEC, 'cy.visit("/");\n').diagnostics).toEqual([]);
+  });
+
+  it('only reports syntax errors when Cypress is not installed', () => {
+    const repo = fixtureRepo({}, { cypress: false });
+
+    expect(checkSpecSource(repo, SPEC, "cy.visit('/');\n")).toEqual({ diagnostics: [], cypressTypes: false });
+    expect(checkSpecSource(repo, SPEC, "cy.visit('/';\n").diagnostics).toEqual([expect.objectContaining({ severity: 'error', code: 1005 })]);
+  });
+
+  it('rejects spec paths outside the repository', () => {
+    const repo = fixtureRepo({});
+
+    expect(() => checkSpecSource(repo, '../outside.cy.ts', '')).toThrow('Spec path must be inside the repository');
+  });
+});
+
+describe('completeSpecSource', () => {
+  it('completes Cypress commands after cy.', () => {
+    const repo = fixtureRepo({});
+    const code = "cy.\n";
+    const labels = completeSpecSource(repo, SPEC, code, 3).map(entry => entry.label);
+
+    expect(labels).toEqual(expect.arrayContaining(['visit', 'contains']));
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @fileOverview Type-checks and completes a spec being edited against the cloned repository, without writing it to disk.
+ *
+ * The spec is checked with the tsconfig.json nearest to where it will be saved (e.g. cypress/tsconfig.json), so path
+ * aliases and compiler options match the project. Cypress's own types and the project's support files are always
+ * included, so `cy`, its commands and the project's custom commands resolve even when the tsconfig does not list them.
+ * When Cypress is not installed in the repository only syntax errors are reported.
+ *
+ * Language services are cached per tsconfig so that successive checks while typing reuse the parsed project.
+ *
+ * - checkSpecSource - Returns the diagnostics of the edited spec text.
+ * - completeSpecSource - Returns the completions at a position of the edited spec text.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { SpecCompletion, SpecDiagnostic } from '@/ai/schemas/spec-diagnostics';
+
+const MAX_CACHED_PROJECTS = 4;
+const MAX_COMPLETIONS = 200;
+// Virtual file that pulls in Cypress's global types whatever the tsconfig's "types" says
+const CYPRESS_TYPES_FILE = '__cypress-pilot-types.d.ts';
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+  jsx: ts.JsxEmit.ReactJSX,
+  allowJs: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+interface SpecProject {
+  service: ts.LanguageService;
+  rootFiles: Set<string>;
+  openSpecs: Map<string, { text: string; version: number }>;
+  cypressInstalled: boolean;
+}
+
+const projects = new Map<string, SpecProject>();
+
+function isInside(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+function resolveSpecPath(repoPath: string, specRelativePath: string): string {
+  const root = path.resolve(repoPath);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`Repository path does not exist: ${repoPath}`);
+  }
+  const specPath = path.resolve(root, specRelativePath);
+  if (!isInside(root, specPath) || specPath === root) {
+    throw new Error(`Spec path must be inside the repository: ${specRelativePath}`);
+  }
+  return specPath;
+}
+
+// The tsconfig.json nearest to the spec, looking no further up than the repository root
+function findTsconfig(root: string, specPath: string): string | undefined {
+  for (let dir = path.dirname(specPath); isInside(root, dir); dir = path.dirname(dir)) {
+    const candidate = path.join(dir, 'tsconfig.json');
+    if (fs.existsSync(candidate)) return candidate;
+    if (dir === root) break;
+  }
+  return undefined;
+}
+
+// Whether `/// <reference types="cypress" />` resolves from the repository, i.e. Cypress is installed
+function hasCypressTypes(root: string, options: ts.CompilerOptions): boolean {
+  const resolution = ts.resolveTypeReferenceDirective('cypress', path.join(root, CYPRESS_TYPES_FILE), options, ts.sys);
+  return !!resolution.resolvedTypeReferenceDirective?.resolvedFileName;
+}
+
+function createProject(root: string, tsconfigPath: string | undefined): SpecProject {
+  let options = DEFAULT_COMPILER_OPTIONS;
+  const rootFiles = new Set<string>([path.join(root, CYPRESS_TYPES_FILE)]);
+  if (tsconfigPath) {
+    const config = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+    const parsed = ts.parseJsonConfigFileContent(config.config || {}, ts.sys, path.dirname(tsconfigPath), undefined, tsconfigPath);
+    options = parsed.options;
+    // Declaration files carry global augmentations; the rest of the project is loaded through imports as needed
+    parsed.fileNames.filter(file => file.endsWith('.d.ts')).forEach(file => rootFiles.add(file));
+  }
+  const supportDir = path.join(root, 'cypress', 'support');
+  if (fs.existsSync(supportDir)) {
+    ts.sys.readDirectory(supportDir, ['.ts', '.tsx', '.js', '.jsx']).forEach(file => rootFiles.add(path.resolve(file)));
+  }
+
+  const openSpecs = new Map<string, { text: string; version: number }>();
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => [...rootFiles],
+    getScriptVersion: file => {
+      const open = openSpecs.get(file);
+      if (open) return String(open.version);
+      try {
+        return String(fs.statSync(file).mtimeMs);
+      } catch {
+        return '0';
+      }
+    },
+    getScriptSnapshot: file => {
+      const text = host.readFile(file);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => root,
+    getCompilationSettings: () => ({ ...options, noEmit: true }),
+    getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+    fileExists: file => openSpecs.has(file) || file === path.join(root, CYPRESS_TYPES_FILE) || ts.sys.fileExists(file),
+    readFile: (file, encoding) => {
+      if (file === path.join(root, CYPRESS_TYPES_FILE)) return '/// <reference types="cypress" />\n';
+      return openSpecs.get(file)?.text ?? ts.sys.readFile(file, encoding);
+    },
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+
+  return { service: ts.createLanguageService(host), rootFiles, openSpecs, cypressInstalled: hasCypressTypes(root, options) };
+}
+
+// Loads the edited text into the cached project of the spec's tsconfig and returns both
+function openSpec(repoPath: string, specRelativePath: string, code: string): { project: SpecProject; specPath: string } {
+  const specPath = resolveSpecPath(repoPath, specRelativePath);
+  const root = path.resolve(repoPath);
+  const tsconfigPath = findTsconfig(root, specPath);
+  const key = `${root}\0${tsconfigPath || ''}`;
+
+  let project = projects.get(key);
+  if (project) {
+    // Re-inserted so the map stays in least-recently-used order
+    projects.delete(key);
+  } else {
+    project = createProject(root, tsconfigPath);
+    if (projects.size >= MAX_CACHED_PROJECTS) {
+      const [oldestKey, oldest] = projects.entries().next().value!;
+      oldest.service.dispose();
+      projects.delete(oldestKey);
+    }
+  }
+  projects.set(key, project);
+
+  const open = project.openSpecs.get(specPath);
+  if (open?.text !== code) {
+    project.openSpecs.set(specPath, { text: code, version: (open?.version ?? 0) + 1 });
+  }
+  project.rootFiles.add(specPath);
+  return { project, specPath };
+}
+
+function severityOf(category: ts.DiagnosticCategory): SpecDiagnostic['severity'] {
+  if (category === ts.DiagnosticCategory.Error) return 'error';
+  if (category === ts.DiagnosticCategory.Warning) return 'warning';
+  return 'info';
+}
+
+export function checkSpecSource(repoPath: string, specRelativePath: string, code: string): { diagnostics: SpecDiagnostic[]; cypressTypes: boolean } {
+  const { project, specPath } = openSpec(repoPath, specRelativePath, code);
+  const diagnostics = [
+    ...project.service.getSyntacticDiagnostics(specPath),
+    ...(project.cypressInstalled ? project.service.getSemanticDiagnostics(specPath) : []),
+  ];
+  return {
+    diagnostics: diagnostics.map(diagnostic => {
+      const from = Math.min(diagnostic.start ?? 0, code.length);
+      return {
+        from,
+        to: Math.min(from + (diagnostic.length ?? 0), code.length),
+        severity: severityOf(diagnostic.category),
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        code: diagnostic.code,
+      };
+    }),
+    cypressTypes: project.cypressInstalled,
+  };
+}
+
+export function completeSpecSource(repoPath: string, specRelativePath: string, code: string, position: number): SpecCompletion[] {
+  const { project, specPath } = openSpec(repoPath, specRelativePath, code);
+  const completions = project.service.getCompletionsAtPosition(specPath, Math.min(Math.max(position, 0), code.length), {});
+  if (!completions) return [];
+  return completions.entries
+    .slice()
+    .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name))
+    .slice(0, MAX_COMPLETIONS)
+    .map(entry => ({ label: entry.name, kind: entry.kind, sortText: entry.sortText }));
+}
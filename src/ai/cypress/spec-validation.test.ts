@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { formatValidationIssues, stripMarkdownFences, validateSpec } from '@/ai/cypress/spec-validation';
+
+const VALID_SPEC = `describe('Login', () => {
+  it('signs in', () => {
+    cy.visit('/login');
+    cy.get('[data-cy=email]').type('user@example.com');
+    cy.get('[data-cy=submit]').click();
+    cy.contains('Welcome');
+  });
+});
+`;
+
+describe('stripMarkdownFences', () => {
+  it('returns the code inside a fenced block', () => {
+    expect(stripMarkdownFences('Here is the test:\n```typescript\n' + VALID_SPEC + '```\nIt covers the flow.')).toBe(VALID_SPEC);
+  });
+
+  it('keeps the largest block when the reply has several', () => {
+    expect(stripMarkdownFences('```bash\nnpx cypress run\n```\n```ts\n' + VALID_SPEC + '```')).toBe(VALID_SPEC);
+  });
+
+  it('removes an opening fence that is never closed', () => {
+    expect(stripMarkdownFences('```js\n' + VALID_SPEC)).toBe(VALID_SPEC);
+  });
+
+  it('leaves unfenced code alone apart from surrounding whitespace', () => {
+    expect(stripMarkdownFences('\n\n' + VALID_SPEC + '\n\n')).toBe(VALID_SPEC);
+  });
+});
+
+describe('validateSpec', () => {
+  it('accepts a well-formed spec', () => {
+    expect(validateSpec(VALID_SPEC)).toEqual({ code: VALID_SPEC, issues: [] });
+  });
+
+  it('validates the code inside markdown fences', () => {
+    expect(validateSpec('```ts\n' + VALID_SPEC + '```')).toEqual({ code: VALID_SPEC, issues: [] });
+  });
+
+  it('rejects code that does not parse', () => {
+    const { issues } = validateSpec("describe('Login', () => {\n  it('signs in', () => {\n    cy.visit('/login';\n  });\n});\n");
+
+    expect(issues).toEqual([expect.objectContaining({ rule: 'syntax', severity: 'error', line: 3 })]);
+  });
+
+  it('rejects code without describe or it', () => {
+    expect(validateSpec("cy.visit('/login');\n").issues.map(issue => issue.rule)).toEqual(['missing-describe', 'missing-it']);
+    expect(validateSpec("context('Login', () => {\n  specify('opens', () => cy.visit('/'));\n});\n").issues).toEqual([]);
+  });
+
+  it('flags .only on tests and suites', () => {
+    const { issues } = validateSpec(VALID_SPEC.replace("describe('Login'", "describe.only('Login'").replace("it('signs in'", "it.only('signs in'"));
+
+    expect(issues.map(issue => [issue.rule, issue.line])).toEqual([['only', 1], ['only', 2]]);
+  });
+
+  it('flags hard waits but not waits on aliases', () => {
+    const { issues } = validateSpec(VALID_SPEC.replace("cy.contains('Welcome');", "cy.wait(2000);\n    cy.wait('@login');\n    cy.contains('Welcome');"));
+
+    expect(issues).toEqual([expect.objectContaining({ rule: 'hard-wait', severity: 'error', line: 6 })]);
+    expect(issues[0].message).toContain('cy.wait(2000)');
+  });
+
+  it('fails specs that force most interactions and only warns about occasional ones', () => {
+    const forcedEverywhere = VALID_SPEC
+      .replace(".type('user@example.com')", ".type('user@example.com', { force: true })")
+      .replace('.click()', '.click({ force: true })');
+    const forcedOnce = VALID_SPEC
+      .replace('.click()', '.click({ force: true })')
+      .replace("cy.contains('Welcome');", "cy.get('[data-cy=remember]').check();\n    cy.get('[data-cy=menu]').click();");
+
+    expect(validateSpec(forcedEverywhere).issues.map(issue => [issue.rule, issue.severity])).toEqual([['force-everywhere', 'error'], ['force-everywhere', 'error']]);
+    expect(validateSpec(forcedOnce).issues.map(issue => [issue.rule, issue.severity])).toEqual([['forced-action', 'warning']]);
+  });
+
+  it('reports positions in the cleaned code', () => {
+    const { code, issues } = validateSpec('```ts\n' + VALID_SPEC.replace("cy.contains('Welcome');", 'cy.wait(500);') + '```');
+
+    expect(code.slice(issues[0].from, issues[0].to)).toBe('cy.wait(500)');
+  });
+});
+
+describe('formatValidationIssues', () => {
+  it('lists each issue with its line and rule', () => {
+    const { issues } = validateSpec(VALID_SPEC.replace("it('signs in'", "it.only('signs in'").replace('.click()', '.click({ force: true })'));
+
+    expect(formatValidationIssues(issues).split('\n')).toEqual([
+      expect.stringMatching(/^- line 2 \[only\]: it\.only\(\) runs only this test/),
+      expect.stringMatching(/^- line 5 \[forced-action, warning\]: /),
+    ]);
+  });
+});
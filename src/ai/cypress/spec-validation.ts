@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Static checks a generated spec must pass before it is saved and run.
+ *
+ * Model output is cleaned first: markdown fences are removed, keeping the largest fenced block when there are
+ * several. The cleaned spec is then parsed with the TypeScript compiler API and rejected when it does not parse,
+ * has no describe()/context() block or it()/specify() test, or uses patterns that make specs flaky or hide
+ * failures:
+ * - `.only` - Runs a single test or suite and silently skips the rest.
+ * - Hard waits such as `cy.wait(1000)` - Wait on aliases or assertions instead; `cy.wait('@alias')` is fine.
+ * - `{ force: true }` on most interactions - Forcing skips actionability checks, so such specs pass against
+ *   broken pages. A few forced actions are reported as warnings only.
+ * - Selectors that break the selector policy, when one is given (see selector-policy.ts).
+ *
+ * - stripMarkdownFences - Removes markdown fences around model output.
+ * - validateSpec - Cleans a spec and returns it with the problems found.
+ * - formatValidationIssues - Renders problems as text for prompts and error messages.
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import type { SpecValidationIssue } from '@/ai/schemas/spec-diagnostics';
+import type { SelectorPolicy } from '@/ai/schemas/selector-policy';
+import { checkSelectors } from '@/ai/cypress/selector-policy';
+
+const SUITE_FUNCTIONS = new Set(['describe', 'context']);
+const TEST_FUNCTIONS = new Set(['it', 'specify']);
+const INTERACTION_COMMANDS = new Set(['click', 'dblclick', 'rightclick', 'type', 'clear', 'check', 'uncheck', 'select', 'selectFile', 'trigger']);
+// Forced interactions fail the validation when they are more than this share of all interactions (and at least two)
+const MAX_FORCED_SHARE = 0.5;
+
+const FENCED_BLOCK = /```[\w.+-]*[^\S\n]*\n([\s\S]*?)\n?[^\S\n]*```/g;
+
+export function stripMarkdownFences(text: string): string {
+  const blocks = [...text.matchAll(FENCED_BLOCK)].map(match => match[1]);
+  let code = blocks.length > 0 ? blocks.reduce((longest, block) => block.length > longest.length ? block : longest) : text;
+  // A reply cut off before its closing fence still starts with the opening one
+  code = code.replace(/^\s*```[\w.+-]*[^\S\n]*\n/, '').replace(/\n[^\S\n]*```\s*$/, '');
+  return code.trim() + '\n';
+}
+
+function scriptKindOf(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js': case '.mjs': case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+// The names of a callee such as `cy.get('a').click` are ['click']; `describe.only` gives ['describe', 'only']
+function calleeNames(expression: ts.Expression): string[] {
+  if (ts.isIdentifier(expression)) return [expression.text];
+  if (ts.isPropertyAccessExpression(expression)) {
+    const names = ts.isIdentifier(expression.expression) || ts.isPropertyAccessExpression(expression.expression) ? calleeNames(expression.expression) : [];
+    return [...names, expression.name.text];
+  }
+  return [];
+}
+
+function hasForceOption(call: ts.CallExpression): ts.Node | undefined {
+  for (const argument of call.arguments) {
+    if (!ts.isObjectLiteralExpression(argument)) continue;
+    const force = argument.properties.find(property => ts.isPropertyAssignment(property) && property.name.getText() === 'force' && property.initializer.kind === ts.SyntaxKind.TrueKeyword);
+    if (force) return force;
+  }
+  return undefined;
+}
+
+export function validateSpec(text: string, fileName = 'spec.cy.ts', selectorPolicy?: SelectorPolicy): { code: string; issues: SpecValidationIssue[] } {
+  const code = stripMarkdownFences(text);
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true, scriptKindOf(fileName));
+  const issues: SpecValidationIssue[] = [];
+  const report = (rule: SpecValidationIssue['rule'], severity: SpecValidationIssue['severity'], message: string, from: number, to: number) => {
+    issues.push({ rule, severity, message, line: sourceFile.getLineAndCharacterOfPosition(from).line + 1, from, to });
+  };
+
+  const { diagnostics = [] } = ts.transpileModule(code, { fileName, reportDiagnostics: true, compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true } });
+  for (const diagnostic of diagnostics) {
+    const from = diagnostic.start ?? 0;
+    report('syntax', 'error', ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'), from, from + (diagnostic.length ?? 0));
+  }
+  if (issues.length > 0) {
+    // Rules below assume a well-formed tree
+    return { code, issues };
+  }
+
+  let hasSuite = false;
+  let hasTest = false;
+  let interactions = 0;
+  const forced: ts.Node[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const names = calleeNames(node.expression);
+      const last = names[names.length - 1];
+      if (SUITE_FUNCTIONS.has(names[0])) hasSuite = true;
+      if (TEST_FUNCTIONS.has(names[0])) hasTest = true;
+      if (names.length === 2 && (SUITE_FUNCTIONS.has(names[0]) || TEST_FUNCTIONS.has(names[0])) && last === 'only') {
+        report('only', 'error', `${names.join('.')}() runs only this ${TEST_FUNCTIONS.has(names[0]) ? 'test' : 'suite'} and skips the rest of the spec; use ${names[0]}() instead.`, node.expression.getStart(), node.expression.getEnd());
+      }
+      if (last === 'wait' && node.arguments.length > 0 && ts.isNumericLiteral(node.arguments[0])) {
+        report('hard-wait', 'error', `cy.wait(${node.arguments[0].text}) waits a fixed time; wait for an aliased request (cy.wait('@alias')) or assert on the page instead.`, node.getStart(), node.getEnd());
+      }
+      if (INTERACTION_COMMANDS.has(last) && ts.isPropertyAccessExpression(node.expression)) {
+        interactions++;
+        const force = hasForceOption(node);
+        if (force) forced.push(force);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!hasSuite) {
+    report('missing-describe', 'error', 'The spec has no describe() or context() block.', 0, 0);
+  }
+  if (!hasTest) {
+    report('missing-it', 'error', 'The spec has no it() or specify() test.', 0, 0);
+  }
+  const forceEverywhere = forced.length >= 2 && forced.length > interactions * MAX_FORCED_SHARE;
+  for (const force of forced) {
+    report(
+      forceEverywhere ? 'force-everywhere' : 'forced-action',
+      forceEverywhere ? 'error' : 'warning',
+      forceEverywhere
+        ? `${forced.length} of ${interactions} interactions use { force: true }, which skips Cypress's actionability checks; target the visible, enabled element instead.`
+        : '{ force: true } skips Cypress\'s actionability checks; prefer targeting the visible, enabled element.',
+      force.getStart(),
+      force.getEnd(),
+    );
+  }
+  if (selectorPolicy) {
+    issues.push(...checkSelectors(sourceFile, selectorPolicy));
+  }
+  return { code, issues };
+}
+
+export function formatValidationIssues(issues: SpecValidationIssue[]): string {
+  return issues.map(issue => `- line ${issue.line} [${issue.rule}${issue.severity === 'warning' ? ', warning' : ''}]: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Tracks test progress from the live console output of a Cypress run.
+ *
+ * The structured results only arrive when the run finishes; this counter gives the UI a running
+ * pass/fail tally while the spec reporter is still printing.
+ *
+ * - stripAnsi - Removes terminal color codes from Cypress output.
+ * - createTestProgressCounter - Returns a counter that consumes stdout chunks and tallies reported tests.
+ */
+
+export interface TestProgress {
+  passed: number;
+  failed: number;
+  pending: number;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+export function createTestProgressCounter() {
+  const progress: TestProgress = { passed: 0, failed: 0, pending: 0 };
+  let partialLine = '';
+  // After "N failing" the spec reporter repeats every failure with its details; those must not be counted twice.
+  let inFailureDetails = false;
+
+  const consumeLine = (line: string) => {
+    if (/^\s*Running:\s/.test(line)) {
+      inFailureDetails = false;
+    } else if (/^\s*\d+ failing\b/.test(line)) {
+      inFailureDetails = true;
+    } else if (inFailureDetails) {
+      return;
+    } else if (/^\s+[✓√]\s/.test(line)) {
+      progress.passed += 1;
+    } else if (/^\s+\d+\)\s/.test(line)) {
+      progress.failed += 1;
+    } else if (/^\s+-\s/.test(line)) {
+      progress.pending += 1;
+    }
+  };
+
+  return {
+    /** Feeds a raw stdout chunk (lines may be split across chunks) and returns the updated tally. */
+    consume(chunk: string): TestProgress {
+      const lines = (partialLine + stripAnsi(chunk)).split('\n');
+      partialLine = lines.pop() ?? '';
+      lines.forEach(consumeLine);
+      return { ...progress };
+    },
+    get progress(): TestProgress {
+      return { ...progress };
+    },
+  };
+}
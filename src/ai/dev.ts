@@ -5,3 +5,12 @@ config();
 import '@/ai/flows/generate-cypress-test.ts';
 import '@/ai/flows/identify-user-flows-flow.ts';
 import '@/ai/flows/execute-cypress-run-headless-flow.ts'; // Updated filename
+import '@/ai/flows/repair-cypress-test-flow.ts';
+import '@/ai/flows/generate-cypress-tests-batch-flow.ts';
+import '@/ai/flows/resolve-component-target-flow.ts';
+import '@/ai/flows/project-workspace-flow.ts';
+import '@/ai/flows/credential-profiles-flow.ts';
+import '@/ai/flows/analyze-test-coverage-flow.ts';
+import '@/ai/flows/check-cypress-spec-flow.ts';
+import '@/ai/flows/record-user-session-flow.ts';
+import '@/ai/flows/convert-recording-flow.ts';
@@ -0,0 +1,43 @@
+'use server';
+/**
+ * @fileOverview Reports which identified user flows the repository's existing Cypress specs already cover.
+ *
+ * - analyzeTestCoverage - A function that inventories the existing specs and matches them to the flows.
+ * - AnalyzeTestCoverageInput - The input type for the analyzeTestCoverage function.
+ * - AnalyzeTestCoverageOutput - The return type for the analyzeTestCoverage function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {CypressSpecInventorySchema, FlowCoverageSchema} from '@/ai/schemas/cypress-spec-inventory';
+import {walkRepository} from '@/ai/analysis/repository-analyzer';
+import {inventoryCypressSpecs, matchFlowsToSpecs} from '@/ai/analysis/spec-inventory';
+
+const AnalyzeTestCoverageInputSchema = z.object({
+  repoPath: z.string().describe('The absolute local path to the cloned repository (Cypress project root).'),
+  flows: z.array(UserFlowSchema).describe('The user flows to look up in the existing specs.'),
+});
+export type AnalyzeTestCoverageInput = z.infer<typeof AnalyzeTestCoverageInputSchema>;
+
+const AnalyzeTestCoverageOutputSchema = z.object({
+  inventory: CypressSpecInventorySchema,
+  coverage: z.array(FlowCoverageSchema).describe('One entry per input flow, in input order.'),
+});
+export type AnalyzeTestCoverageOutput = z.infer<typeof AnalyzeTestCoverageOutputSchema>;
+
+export async function analyzeTestCoverage(input: AnalyzeTestCoverageInput): Promise<AnalyzeTestCoverageOutput> {
+  return analyzeTestCoverageFlow(input);
+}
+
+const analyzeTestCoverageFlow = ai.defineFlow(
+  {
+    name: 'analyzeTestCoverageFlow',
+    inputSchema: AnalyzeTestCoverageInputSchema,
+    outputSchema: AnalyzeTestCoverageOutputSchema,
+  },
+  async ({repoPath, flows}) => {
+    const inventory = inventoryCypressSpecs(repoPath, walkRepository(repoPath).files);
+    return {inventory, coverage: matchFlowsToSpecs(flows, inventory)};
+  }
+);
@@ -0,0 +1,80 @@
+'use server';
+/**
+ * @fileOverview Type-checks and completes a spec while it is edited, against the cloned repository's tsconfig and Cypress types.
+ * The problems found by the static validation that runs before a spec is saved are reported alongside the type errors.
+ *
+ * - checkCypressSpec - A function that returns the TypeScript diagnostics of the edited spec.
+ * - completeCypressSpec - A function that returns the completions at a position of the edited spec.
+ * - CheckCypressSpecInput - The input type for the checkCypressSpec function.
+ * - CheckCypressSpecOutput - The return type for the checkCypressSpec function.
+ * - CompleteCypressSpecInput - The input type for the completeCypressSpec function.
+ * - CompleteCypressSpecOutput - The return type for the completeCypressSpec function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {SpecCompletionSchema, SpecDiagnosticSchema} from '@/ai/schemas/spec-diagnostics';
+import {checkSpecSource, completeSpecSource} from '@/ai/cypress/spec-language-service';
+import {validateSpec} from '@/ai/cypress/spec-validation';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+
+const CheckCypressSpecInputSchema = z.object({
+  repoPath: z.string().describe('The absolute local path to the cloned repository (Cypress project root).'),
+  specRelativePath: z.string().describe('Where the spec will be saved, relative to the repository root, e.g. "cypress/e2e/user-login.cy.ts".'),
+  code: z.string().describe('The edited spec text.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('Selector policy to lint the spec against; selectors are not checked without one.'),
+});
+export type CheckCypressSpecInput = z.infer<typeof CheckCypressSpecInputSchema>;
+
+const CheckCypressSpecOutputSchema = z.object({
+  diagnostics: z.array(SpecDiagnosticSchema),
+  cypressTypes: z.boolean().describe('False when Cypress is not installed in the repository; only syntax errors are reported then.'),
+});
+export type CheckCypressSpecOutput = z.infer<typeof CheckCypressSpecOutputSchema>;
+
+const CompleteCypressSpecInputSchema = CheckCypressSpecInputSchema.extend({
+  position: z.number().int().nonnegative().describe('Offset of the cursor in the spec text.'),
+});
+export type CompleteCypressSpecInput = z.infer<typeof CompleteCypressSpecInputSchema>;
+
+const CompleteCypressSpecOutputSchema = z.object({
+  entries: z.array(SpecCompletionSchema),
+});
+export type CompleteCypressSpecOutput = z.infer<typeof CompleteCypressSpecOutputSchema>;
+
+export async function checkCypressSpec(input: CheckCypressSpecInput): Promise<CheckCypressSpecOutput> {
+  return checkCypressSpecFlow(input);
+}
+
+export async function completeCypressSpec(input: CompleteCypressSpecInput): Promise<CompleteCypressSpecOutput> {
+  return completeCypressSpecFlow(input);
+}
+
+const checkCypressSpecFlow = ai.defineFlow(
+  {
+    name: 'checkCypressSpecFlow',
+    inputSchema: CheckCypressSpecInputSchema,
+    outputSchema: CheckCypressSpecOutputSchema,
+  },
+  async ({repoPath, specRelativePath, code, selectorPolicy}) => {
+    const {diagnostics, cypressTypes} = checkSpecSource(repoPath, specRelativePath, code);
+    // Validation positions are relative to the cleaned code; they are only shown when it is found in the text as typed
+    const validation = validateSpec(code, specRelativePath, selectorPolicy);
+    const offset = code.indexOf(validation.code.trimEnd());
+    if (offset >= 0) {
+      for (const issue of validation.issues.filter(issue => issue.rule !== 'syntax')) {
+        diagnostics.push({from: issue.from + offset, to: issue.to + offset, severity: issue.severity, message: issue.message, rule: issue.rule});
+      }
+    }
+    return {diagnostics, cypressTypes};
+  }
+);
+
+const completeCypressSpecFlow = ai.defineFlow(
+  {
+    name: 'completeCypressSpecFlow',
+    inputSchema: CompleteCypressSpecInputSchema,
+    outputSchema: CompleteCypressSpecOutputSchema,
+  },
+  async ({repoPath, specRelativePath, code, position}) => ({entries: completeSpecSource(repoPath, specRelativePath, code, position)})
+);
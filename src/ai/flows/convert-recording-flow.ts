@@ -0,0 +1,91 @@
+'use server';
+/**
+ * @fileOverview Converts a session recorded in the browser into a Cypress E2E spec.
+ *
+ * - convertRecordingToCypressTest - Builds the UserFlow the recording performs and generates its spec through
+ *   generateCypressTest with the recorded steps, so the repository's conventions, the flow's markup and the selector
+ *   policy apply as for any other flow. When a project id is given, the flow is added to the project's flows.
+ * - ConvertRecordingToCypressTestInput - The input type for the convertRecordingToCypressTest function.
+ * - ConvertRecordingToCypressTestOutput - The return type for the convertRecordingToCypressTest function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {SessionRecordingSchema} from '@/ai/schemas/session-recording';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+import {AppMapSchema} from '@/ai/schemas/app-map';
+import {SpecValidationIssueSchema} from '@/ai/schemas/spec-diagnostics';
+import {recordingToUserFlow, renderRecording} from '@/ai/analysis/session-recorder';
+import {generateCypressTest} from '@/ai/flows/generate-cypress-test';
+import {updateProject} from '@/ai/projects/project-store';
+import {formatUserFlow, sanitizeFlowNameForFilename} from '@/lib/user-flows';
+
+const ConvertRecordingToCypressTestInputSchema = z.object({
+  recording: SessionRecordingSchema,
+  flowName: z.string().min(1).describe('Name of the recorded flow, e.g. "Checkout"; the spec file is named after it.'),
+  applicationDetails: z.string().describe('Details about the application including the App URL and repository URL.'),
+  repoPath: z.string().optional().describe('The cloned repository, or the app directory in a monorepo; its existing specs and markup are used as for generated flows.'),
+  app: z.string().optional().describe('Monorepo app the recording was made in, e.g. "apps/web". The flow is tagged with it.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('How the spec selects elements; see generateCypressTest.'),
+  appMap: AppMapSchema.optional().describe('Pages of the running application from a crawl.'),
+  startAppServer: z.boolean().optional().describe('Whether E2E runs start the application from the repository; see generateCypressTest.'),
+  projectId: z.string().optional().describe('Project the recorded flow is added to.'),
+});
+export type ConvertRecordingToCypressTestInput = z.infer<typeof ConvertRecordingToCypressTestInputSchema>;
+
+const ConvertRecordingToCypressTestOutputSchema = z.object({
+  flow: UserFlowSchema.describe('The flow the recording performs.'),
+  specFileName: z.string().describe('File name the spec should be saved under, e.g. "checkout.cy.ts".'),
+  testCode: z.string(),
+  model: z.string().describe('The model that generated the code.'),
+  validation: z.object({
+    passed: z.boolean(),
+    attempts: z.number(),
+    issues: z.array(SpecValidationIssueSchema),
+  }).describe('The static validation of the returned code; see generateCypressTest.'),
+  markupFiles: z.array(z.string()).optional().describe('Repository files whose markup was given to the model.'),
+});
+export type ConvertRecordingToCypressTestOutput = z.infer<typeof ConvertRecordingToCypressTestOutputSchema>;
+
+export async function convertRecordingToCypressTest(input: ConvertRecordingToCypressTestInput): Promise<ConvertRecordingToCypressTestOutput> {
+  return convertRecordingToCypressTestFlow(input);
+}
+
+const convertRecordingToCypressTestFlow = ai.defineFlow(
+  {
+    name: 'convertRecordingToCypressTestFlow',
+    inputSchema: ConvertRecordingToCypressTestInputSchema,
+    outputSchema: ConvertRecordingToCypressTestOutputSchema,
+  },
+  async input => {
+    if (!input.recording.events.some(event => event.type !== 'request' && event.type !== 'navigate')) {
+      throw new Error('The recording has no clicks, typing or other actions to convert.');
+    }
+    const flow = recordingToUserFlow(input.recording, input.flowName, input.app);
+    const output = await generateCypressTest({
+      flowDescription: formatUserFlow(flow),
+      flow,
+      testType: 'E2E',
+      applicationDetails: input.applicationDetails,
+      repoPath: input.repoPath,
+      selectorPolicy: input.selectorPolicy,
+      appMap: input.appMap,
+      startAppServer: input.startAppServer,
+      recordedSession: renderRecording(input.recording),
+    });
+    if (input.projectId) {
+      updateProject(input.projectId, project => {
+        project.identifiedFlows = [...project.identifiedFlows.filter(existing => existing.id !== flow.id), flow];
+      });
+    }
+    return {
+      flow,
+      specFileName: sanitizeFlowNameForFilename(flow.name),
+      testCode: output.testCode,
+      model: output.model,
+      validation: output.validation,
+      markupFiles: output.markupFiles,
+    };
+  }
+);
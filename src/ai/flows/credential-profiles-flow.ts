@@ -0,0 +1,95 @@
+'use server';
+/**
+ * @fileOverview Manages credential profiles for private repositories and tests repository access.
+ *
+ * - listCredentialProfiles - Lists stored profiles (without secrets).
+ * - saveCredentialProfile - Stores a new profile with its token or private key.
+ * - deleteCredentialProfile - Deletes a profile and its secret.
+ * - testRepositoryConnection - Runs `git ls-remote` against a repository with an optional profile.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {CredentialProfileSchema, SaveCredentialProfileInputSchema, type CredentialProfile, type SaveCredentialProfileInput} from '@/ai/schemas/credential-profile';
+import * as credentialStore from '@/ai/projects/credential-store';
+import {testRepositoryConnection as lsRemote} from '@/ai/projects/repository-sync';
+import {isSupportedRepoUrl} from '@/lib/repo-url';
+import {redactSecrets} from '@/lib/redact';
+
+const CredentialProfileIdInputSchema = z.object({
+  credentialProfileId: z.string(),
+});
+
+const TestRepositoryConnectionInputSchema = z.object({
+  repoUrl: z.string().refine(isSupportedRepoUrl, 'Enter an HTTPS or SSH git repository URL.'),
+  credentialProfileId: z.string().optional(),
+});
+export type TestRepositoryConnectionInput = z.infer<typeof TestRepositoryConnectionInputSchema>;
+
+const TestRepositoryConnectionOutputSchema = z.object({
+  ok: z.boolean(),
+  message: z.string(),
+});
+export type TestRepositoryConnectionOutput = z.infer<typeof TestRepositoryConnectionOutputSchema>;
+
+export async function listCredentialProfiles(): Promise<CredentialProfile[]> {
+  return listCredentialProfilesFlow();
+}
+
+export async function saveCredentialProfile(input: SaveCredentialProfileInput): Promise<CredentialProfile> {
+  return saveCredentialProfileFlow(input);
+}
+
+export async function deleteCredentialProfile(input: z.infer<typeof CredentialProfileIdInputSchema>): Promise<void> {
+  await deleteCredentialProfileFlow(input);
+}
+
+export async function testRepositoryConnection(input: TestRepositoryConnectionInput): Promise<TestRepositoryConnectionOutput> {
+  return testRepositoryConnectionFlow(input);
+}
+
+const listCredentialProfilesFlow = ai.defineFlow(
+  {
+    name: 'listCredentialProfilesFlow',
+    outputSchema: z.array(CredentialProfileSchema),
+  },
+  async () => credentialStore.listCredentialProfiles()
+);
+
+const saveCredentialProfileFlow = ai.defineFlow(
+  {
+    name: 'saveCredentialProfileFlow',
+    inputSchema: SaveCredentialProfileInputSchema,
+    outputSchema: CredentialProfileSchema,
+  },
+  async input => credentialStore.saveCredentialProfile(input)
+);
+
+const deleteCredentialProfileFlow = ai.defineFlow(
+  {
+    name: 'deleteCredentialProfileFlow',
+    inputSchema: CredentialProfileIdInputSchema,
+  },
+  async ({credentialProfileId}) => {
+    credentialStore.deleteCredentialProfile(credentialProfileId);
+  }
+);
+
+const testRepositoryConnectionFlow = ai.defineFlow(
+  {
+    name: 'testRepositoryConnectionFlow',
+    inputSchema: TestRepositoryConnectionInputSchema,
+    outputSchema: TestRepositoryConnectionOutputSchema,
+  },
+  async ({repoUrl, credentialProfileId}) => {
+    let secrets: string[] = [];
+    try {
+      const auth = credentialProfileId ? credentialStore.gitAuthForProfile(credentialProfileId, repoUrl) : undefined;
+      secrets = auth?.secrets || [];
+      const {defaultBranch, refCount} = await lsRemote(repoUrl, auth);
+      return {ok: true, message: `Connected: ${refCount} branch(es)${defaultBranch ? `, default branch ${defaultBranch}` : ''}.`};
+    } catch (error: any) {
+      return {ok: false, message: redactSecrets(error.message || String(error), secrets)};
+    }
+  }
+);
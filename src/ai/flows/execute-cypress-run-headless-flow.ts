@@ -1,186 +1,92 @@
-
 'use server';
 /**
- * @fileOverview Saves a Cypress test file and attempts to run Cypress headlessly,
+ * @fileOverview Saves a Cypress test file and runs it headlessly through the Cypress Module API,
  * trying Chrome first, then Firefox if Chrome encounters Xvfb issues, and disabling video recording.
  * Also adds Electron-specific environment variables to promote headless behavior.
  *
- * - executeCypressRunHeadless - Saves the test and runs `cypress run --headless --browser <browser> --spec <spec> --config video=false`.
- * - ExecuteCypressRunHeadlessInput - Input type for the flow.
- * - ExecuteCypressRunHeadlessOutput - Output type for the flow.
+ * - executeCypressRunHeadless - Saves the test and runs `cypress.run({ browser, headless: true, spec, config: { video: false } })`.
+ *   Streams stdout/stderr chunks with a running test tally while the run is in progress (see /api/cypress-run).
+ * - executeCypressSuiteHeadless - Saves several specs and runs them as one suite in a single `cypress.run()` (see /api/cypress-suite-run).
+ *   Component specs are saved at their resolved location and run with `testingType: 'component'` and the project's dev server.
+ *   For E2E runs the application can be started from the repository first; its URL becomes the run's `baseUrl`.
+ *   When a project id is given, every run is appended to that project's run history.
+ *   Specs are cleaned of markdown fences and must pass the static validation of spec-validation.ts before they are saved.
+ * - ExecuteCypressRunHeadlessInput - Input type for the single-spec flow.
+ * - ExecuteCypressSuiteHeadlessInput - Input type for the suite flow.
+ * - ExecuteCypressRunHeadlessOutput - Output type for both flows, including structured per-spec, per-test results.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
 import * as fs from 'fs';
-import type { StdioOptions } from 'child_process';
-import { spawn } from 'child_process';
 import * as path from 'path';
+import { CypressRunResultsSchema } from '@/ai/schemas/cypress-run-results';
+import { stripAnsi } from '@/ai/cypress/test-progress';
+import { tryCypressRunAttempt, type CypressRunTarget, type CypressSpawnOptions } from '@/ai/cypress/run-attempt';
+import { readCypressProjectConfig } from '@/ai/cypress/project-config';
+import { formatValidationIssues, validateSpec } from '@/ai/cypress/spec-validation';
+import { startAppServer, type AppServer } from '@/ai/cypress/app-server';
+import { recordProjectRun } from '@/ai/projects/project-store';
+
+const TestTypeSchema = z.enum(['E2E', 'Component']).optional().describe('The kind of test. Component specs run with `testingType: "component"`. Defaults to E2E.');
+const StartAppServerSchema = z.boolean().optional().describe('Start the application from the repository\'s dev/start script and use it as baseUrl (E2E only).');
+const ProjectIdSchema = z.string().optional().describe('Project whose run history the run is recorded in.');
+const SpecRelativePathSchema = z.string().optional().describe('Where to save the spec, relative to the repository root. Defaults to cypress/e2e/<specFileName>.');
 
 const ExecuteCypressRunHeadlessInputSchema = z.object({
   testCode: z.string().describe('The Cypress test code to be saved and executed.'),
   repoPath: z.string().describe('The absolute local path to the cloned repository (Cypress project root).'),
   specFileName: z.string().describe('The desired file name for the spec, e.g., "user-login.cy.ts".'),
+  specRelativePath: SpecRelativePathSchema,
+  testType: TestTypeSchema,
+  startAppServer: StartAppServerSchema,
+  projectId: ProjectIdSchema,
 });
 export type ExecuteCypressRunHeadlessInput = z.infer<typeof ExecuteCypressRunHeadlessInputSchema>;
 
+const ExecuteCypressSuiteHeadlessInputSchema = z.object({
+  specs: z.array(z.object({
+    specFileName: z.string().describe('The desired file name for the spec, e.g., "user-login.cy.ts".'),
+    testCode: z.string().describe('The Cypress test code to be saved.'),
+    specRelativePath: SpecRelativePathSchema,
+  })).min(1).describe('The specs to save and run together.'),
+  repoPath: z.string().describe('The absolute local path to the cloned repository (Cypress project root).'),
+  testType: TestTypeSchema,
+  startAppServer: StartAppServerSchema,
+  projectId: ProjectIdSchema,
+});
+export type ExecuteCypressSuiteHeadlessInput = z.infer<typeof ExecuteCypressSuiteHeadlessInputSchema>;
+
 const ExecuteCypressRunHeadlessOutputSchema = z.object({
   status: z.enum(['completed_successfully', 'completed_with_failures', 'error_running', 'error_saving_file'])
     .describe('Status of the Cypress headless run attempt.'),
   message: z.string().describe('A message detailing the outcome.'),
   specPath: z.string().optional().describe('The full path to the saved spec file.'),
-  runSummary: z.string().optional().describe('Summary of the test run from Cypress output (e.g., pass/fail counts).'),
+  runSummary: z.string().optional().describe('Human-readable summary derived from the structured results (e.g., pass/fail counts).'),
+  results: CypressRunResultsSchema.optional().describe('Structured per-spec, per-test results reported by the Cypress Module API.'),
   detailedLog: z.string().optional().describe('More detailed log, potentially including multiple attempts.'),
+  appServerLog: z.string().optional().describe('Output of the application server started for the run, if any.'),
 });
 export type ExecuteCypressRunHeadlessOutput = z.infer<typeof ExecuteCypressRunHeadlessOutputSchema>;
 
+const CypressRunChunkSchema = z.object({
+  source: z.enum(['stdout', 'stderr', 'status', 'server']).describe('Where the text came from; "status" chunks are progress notes from the flow itself, "server" chunks come from the application server.'),
+  text: z.string().describe('Output text with terminal color codes removed.'),
+  browserName: z.string().describe('Browser of the attempt that produced the chunk.'),
+  passed: z.number().describe('Tests reported as passing so far in this attempt.'),
+  failed: z.number().describe('Tests reported as failing so far in this attempt.'),
+  pending: z.number().describe('Tests reported as pending so far in this attempt.'),
+});
+export type CypressRunChunk = z.infer<typeof CypressRunChunkSchema>;
 
-// Helper function to attempt a single Cypress run configuration
-async function tryCypressRunAttempt(
-  baseCypressArgs: string[], // Base args like run
-  browserName: string,
-  spawnOptions: { cwd: string; stdio: StdioOptions; env: Record<string, string | undefined> },
-  specFilePath: string,
-  relativeSpecPath: string
-): Promise<{ status: 'ok' | 'error_xvfb' | 'error_libglib' | 'error_generic'; output: ExecuteCypressRunHeadlessOutput; log: string }> {
-  return new Promise((resolve) => {
-    let stdoutData = '';
-    let stderrData = '';
-    // Add --config video=false to the arguments for the specified browser and headless mode
-    const cypressArgs = [...baseCypressArgs, '--browser', browserName, '--headless', '--config', 'video=false', '--spec', relativeSpecPath];
-    let attemptLog = `Attempting with ${browserName}: npx cypress ${cypressArgs.join(' ')}\n`;
-    attemptLog += `Spawn options env: ${JSON.stringify(spawnOptions.env)}\n`;
-
-
-    const cypressProcess = spawn('npx', ['cypress', ...cypressArgs], spawnOptions);
-
-    cypressProcess.stdout?.on('data', (data) => {
-      const line = data.toString();
-      stdoutData += line;
-      attemptLog += `STDOUT: ${line}\n`;
-    });
-
-    cypressProcess.stderr?.on('data', (data) => {
-      const line = data.toString();
-      stderrData += line;
-      attemptLog += `STDERR: ${line}\n`;
-    });
-
-    cypressProcess.on('error', (err) => {
-      attemptLog += `Spawn error for ${browserName}: ${err.message}\n`;
-      resolve({
-        status: 'error_generic',
-        log: attemptLog,
-        output: {
-          status: 'error_running',
-          message: `Failed to start Cypress run with ${browserName}: ${err.message}.`,
-          detailedLog: `${attemptLog}Spawn error: ${err.message}\nEnsure Cypress is installed.\nStderr (if any):\n${stderrData}`,
-          specPath: specFilePath,
-        }
-      });
-    });
-
-    cypressProcess.on('close', (code) => {
-      const fullLog = `Browser: ${browserName}\nCommand: npx cypress ${cypressArgs.join(' ')}\nExit Code: ${code}\n\nStdout:\n${stdoutData}\n\nStderr:\n${stderrData}`;
-      attemptLog += `Process for ${browserName} closed with code ${code}\n`;
-
-      if (stderrData.includes('libglib-2.0.so.0: cannot open shared object file')) {
-        resolve({
-          status: 'error_libglib',
-          log: attemptLog,
-          output: {
-            status: 'error_running',
-            message: `Cypress Run with ${browserName} Failed: Missing system library 'libglib-2.0.so.0'. This library is required by Cypress/Electron. Please install it in your environment (e.g., via 'apt-get install libglib2.0-0' on Debian/Ubuntu, or its equivalent for your OS).`,
-            detailedLog: `Missing 'libglib-2.0.so.0' error detected with ${browserName}.\n${fullLog}`,
-            specPath: specFilePath,
-          }
-        });
-        return;
-      }
-      
-      if (stderrData.toLowerCase().includes('xvfb') && (stderrData.toLowerCase().includes('missing the dependency') || stderrData.toLowerCase().includes('spawn xvfb enoent'))) {
-        resolve({
-          status: 'error_xvfb',
-          log: attemptLog,
-          output: {
-            status: 'error_running',
-            message: `Cypress Run with ${browserName} Failed: Xvfb dependency reported. This is needed for graphical components. Please install Xvfb in your environment.`,
-            detailedLog: `Xvfb error detected with ${browserName}.\n${fullLog}`,
-            specPath: specFilePath,
-          }
-        });
-        return;
-      }
-
-      if (code === 0 && (stdoutData.includes('All specs passed!') || stdoutData.match(/\(\d+ passing\)/) || stdoutData.includes('No specs found'))) {
-        // Consider "No specs found" as a successful Cypress run completion if exit code is 0
-         let runSummaryText = 'Tests passed or no tests found.';
-        if (stdoutData.includes('All specs passed!') || stdoutData.match(/\(\d+ passing\)/)) {
-            runSummaryText = stdoutData.substring(stdoutData.lastIndexOf('Run Summary'), stdoutData.lastIndexOf('Done running') !== -1 ? stdoutData.lastIndexOf('Done running') : undefined) || 'Tests passed.';
-        } else if (stdoutData.includes('No specs found')) {
-            runSummaryText = 'Cypress run completed: No specs found matching the pattern.';
-        }
-        resolve({
-          status: 'ok',
-          log: attemptLog,
-          output: {
-            status: 'completed_successfully',
-            message: `Cypress headless run with ${browserName} for spec: ${relativeSpecPath} completed successfully.`,
-            specPath: specFilePath,
-            runSummary: runSummaryText,
-            detailedLog: fullLog,
-          }
-        });
-      } else { // Includes code !== 0, test failures, or other stderr output
-        resolve({
-          status: 'error_generic',
-          log: attemptLog,
-          output: {
-            status: code !== 0 || stdoutData.match(/\(\d+ failing\)/) ? 'completed_with_failures' : 'error_running',
-            message: `Cypress headless run with ${browserName} for spec: ${relativeSpecPath} ${code !==0 || stdoutData.match(/\(\d+ failing\)/) ? 'completed with failures/errors' : 'did not complete as expected'}. Exit code: ${code}.`,
-            specPath: specFilePath,
-            runSummary: stdoutData.substring(stdoutData.lastIndexOf('Run Summary'), stdoutData.lastIndexOf('Done running') !== -1 ? stdoutData.lastIndexOf('Done running') : undefined) || 'Run did not complete successfully or had failures.',
-            detailedLog: fullLog,
-          }
-        });
-      }
-    });
-  });
-}
-
-
-async function executeCypressRunHeadlessLogic(input: ExecuteCypressRunHeadlessInput): Promise<ExecuteCypressRunHeadlessOutput> {
-  const { testCode, repoPath, specFileName } = input;
-
-  if (!fs.existsSync(repoPath)) {
-    return {
-      status: 'error_saving_file',
-      message: `Repository path does not exist: ${repoPath}`,
-      detailedLog: `Repository path check failed for: ${repoPath}`,
-    };
-  }
-
-  const cypressE2eDir = path.join(repoPath, 'cypress', 'e2e');
-  const specFilePath = path.join(cypressE2eDir, specFileName);
-
-  try {
-    if (!fs.existsSync(cypressE2eDir)) {
-      fs.mkdirSync(cypressE2eDir, { recursive: true });
-    }
-    fs.writeFileSync(specFilePath, testCode, 'utf8');
-  } catch (error: any) {
-    return {
-      status: 'error_saving_file',
-      message: `Failed to save test file at ${specFilePath}: ${error.message}`,
-      detailedLog: `File save error: ${error.message}\n${error.stack || ''}`,
-      specPath: specFilePath,
-    };
-  }
-
-  const relativeSpecPath = path.join('cypress', 'e2e', specFileName);
-  const commonSpawnOptions: { cwd: string; stdio: StdioOptions; env: Record<string, string | undefined> } = {
+// Runs the given spec pattern (one path or a comma-separated list), trying Chrome first and falling back to Firefox.
+async function runCypressWithBrowserFallback(
+  repoPath: string,
+  target: CypressRunTarget,
+  sendChunk?: (chunk: CypressRunChunk) => void
+): Promise<ExecuteCypressRunHeadlessOutput> {
+  const commonSpawnOptions: CypressSpawnOptions = {
     cwd: repoPath,
-    stdio: ['ignore', 'pipe', 'pipe'],
     env: {
       ...process.env,
       DISPLAY: '', // Keep this
@@ -191,11 +97,10 @@ async function executeCypressRunHeadlessLogic(input: ExecuteCypressRunHeadlessIn
   };
 
   let cumulativeLog = "Starting Cypress headless execution attempts...\n";
-  const baseArgs = ['run'];
 
   // Attempt 1: Chrome Headless with video disabled and extra Electron flags
   cumulativeLog += `\n--- Attempting with Chrome headless (video disabled, Electron flags) ---\n`;
-  let attemptResult = await tryCypressRunAttempt(baseArgs, 'chrome', commonSpawnOptions, specFilePath, relativeSpecPath);
+  let attemptResult = await tryCypressRunAttempt('chrome', commonSpawnOptions, target, sendChunk);
   cumulativeLog += attemptResult.log;
 
   if (attemptResult.status === 'ok' || (attemptResult.status === 'error_generic' && attemptResult.output.status !== 'error_running')) {
@@ -205,7 +110,7 @@ async function executeCypressRunHeadlessLogic(input: ExecuteCypressRunHeadlessIn
   // If Chrome attempt had an Xvfb or libglib error, or a generic startup error, proceed to Firefox
 
   cumulativeLog += `\n--- Chrome headless (video disabled, Electron flags) attempt encountered issues (${attemptResult.status}). Attempting with Firefox headless (video disabled, Electron flags) ---\n`;
-  attemptResult = await tryCypressRunAttempt(baseArgs, 'firefox', commonSpawnOptions, specFilePath, relativeSpecPath);
+  attemptResult = await tryCypressRunAttempt('firefox', commonSpawnOptions, target, sendChunk);
   cumulativeLog += attemptResult.log;
 
   const finalMessage = attemptResult.status === 'ok' ? attemptResult.output.message : `${attemptResult.output.message} (after trying Chrome then Firefox, both with video disabled and Electron flags).`;
@@ -214,12 +119,197 @@ async function executeCypressRunHeadlessLogic(input: ExecuteCypressRunHeadlessIn
   return { ...attemptResult.output, message: finalMessage, detailedLog: finalDetailedLog };
 }
 
+interface SpecToSave {
+  specFileName: string;
+  testCode: string;
+  specRelativePath?: string;
+}
+
+function relativeSpecPathOf(spec: SpecToSave): string {
+  return spec.specRelativePath ? path.normalize(spec.specRelativePath) : path.join('cypress', 'e2e', spec.specFileName);
+}
+
+// Writes each spec at its relative path (cypress/e2e by default) once it passes the static validation; returns the
+// error output if any of them is invalid or cannot be saved.
+function saveSpecFiles(repoPath: string, specs: SpecToSave[]): ExecuteCypressRunHeadlessOutput | null {
+  if (!fs.existsSync(repoPath)) {
+    return {
+      status: 'error_saving_file',
+      message: `Repository path does not exist: ${repoPath}`,
+      detailedLog: `Repository path check failed for: ${repoPath}`,
+    };
+  }
+
+  for (const spec of specs) {
+    const relativeSpecPath = relativeSpecPathOf(spec);
+    const specFilePath = path.resolve(repoPath, relativeSpecPath);
+    if (path.isAbsolute(relativeSpecPath) || path.relative(repoPath, specFilePath).startsWith('..')) {
+      return {
+        status: 'error_saving_file',
+        message: `Refusing to save a spec outside the repository: ${relativeSpecPath}`,
+        detailedLog: `Spec path ${specFilePath} is not inside ${repoPath}`,
+      };
+    }
+    const { code, issues } = validateSpec(spec.testCode, relativeSpecPath);
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      return {
+        status: 'error_saving_file',
+        message: `${relativeSpecPath} did not pass validation and was not saved:\n${formatValidationIssues(errors)}`,
+        detailedLog: `Validation of ${relativeSpecPath}:\n${formatValidationIssues(issues)}`,
+        specPath: specFilePath,
+      };
+    }
+    try {
+      fs.mkdirSync(path.dirname(specFilePath), { recursive: true });
+      fs.writeFileSync(specFilePath, code, 'utf8');
+    } catch (error: any) {
+      return {
+        status: 'error_saving_file',
+        message: `Failed to save test file at ${specFilePath}: ${error.message}`,
+        detailedLog: `File save error: ${error.message}\n${error.stack || ''}`,
+        specPath: specFilePath,
+      };
+    }
+  }
+  return null;
+}
+
+// Component runs need a `component.devServer` in the project's Cypress config; fail early with a clear message otherwise.
+function checkComponentSetup(repoPath: string): ExecuteCypressRunHeadlessOutput | null {
+  const config = readCypressProjectConfig(repoPath);
+  if (config.hasComponentConfig) {
+    return null;
+  }
+  const problem = config.configFile
+    ? `${config.configFile} has no component.devServer configuration`
+    : 'no cypress.config file was found';
+  return {
+    status: 'error_running',
+    message: `Cannot run component tests: ${problem}. Add a "component: { devServer: { framework, bundler } }" section to the Cypress config.`,
+    detailedLog: `Component testing setup check failed in ${repoPath}: ${problem}.`,
+  };
+}
+
+// Starts the application for E2E runs when asked, points the run's baseUrl at it and always stops it afterwards.
+async function runWithAppServer(
+  repoPath: string,
+  target: CypressRunTarget,
+  startServer: boolean,
+  sendChunk?: (chunk: CypressRunChunk) => void
+): Promise<ExecuteCypressRunHeadlessOutput> {
+  if (!startServer || target.testingType !== 'e2e') {
+    return runCypressWithBrowserFallback(repoPath, target, sendChunk);
+  }
+
+  const emitServerLog = (text: string) => sendChunk?.({ source: 'server', text: stripAnsi(text).replace(/^(?=.)/gm, '[app] '), browserName: 'app', passed: 0, failed: 0, pending: 0 });
+  let appServer: AppServer;
+  try {
+    appServer = await startAppServer(repoPath, { onLog: emitServerLog });
+  } catch (error: any) {
+    return {
+      status: 'error_running',
+      message: `Could not start the application under test: ${error.message.split('\n')[0]}`,
+      specPath: target.specFilePath,
+      appServerLog: error.message,
+    };
+  }
+
+  try {
+    const output = await runCypressWithBrowserFallback(repoPath, { ...target, baseUrl: appServer.url }, sendChunk);
+    return { ...output, appServerLog: appServer.logs() };
+  } finally {
+    await appServer.stop();
+  }
+}
+
+function recordRunHistory(projectId: string | undefined, startedAt: Date, specs: string[], output: ExecuteCypressRunHeadlessOutput): ExecuteCypressRunHeadlessOutput {
+  if (!projectId) {
+    return output;
+  }
+  try {
+    recordProjectRun(projectId, {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      specs,
+      status: output.status,
+      message: output.message,
+      runSummary: output.runSummary,
+      results: output.results,
+    });
+  } catch (error: any) {
+    // History is best effort; the run result is still returned
+    return { ...output, detailedLog: `${output.detailedLog || ''}\nCould not record the run in project ${projectId}: ${error.message}` };
+  }
+  return output;
+}
+
+async function executeCypressRunHeadlessLogic(
+  input: ExecuteCypressRunHeadlessInput,
+  { sendChunk }: { sendChunk?: (chunk: CypressRunChunk) => void } = {}
+): Promise<ExecuteCypressRunHeadlessOutput> {
+  const { testCode, repoPath, specFileName, specRelativePath, testType } = input;
+  const spec = { specFileName, testCode, specRelativePath };
+  const startedAt = new Date();
+
+  const saveError = saveSpecFiles(repoPath, [spec]);
+  if (saveError) {
+    return recordRunHistory(input.projectId, startedAt, [relativeSpecPathOf(spec)], saveError);
+  }
+
+  const relativeSpecPath = relativeSpecPathOf(spec);
+  const specFilePath = path.join(repoPath, relativeSpecPath);
+  if (testType === 'Component') {
+    const setupError = checkComponentSetup(repoPath);
+    if (setupError) {
+      return recordRunHistory(input.projectId, startedAt, [relativeSpecPath], { ...setupError, specPath: specFilePath });
+    }
+  }
+  const output = await runWithAppServer(repoPath, { specFilePath, relativeSpecPath, testingType: testType === 'Component' ? 'component' : 'e2e' }, !!input.startAppServer, sendChunk);
+  return recordRunHistory(input.projectId, startedAt, [relativeSpecPath], output);
+}
+
+async function executeCypressSuiteHeadlessLogic(
+  input: ExecuteCypressSuiteHeadlessInput,
+  { sendChunk }: { sendChunk?: (chunk: CypressRunChunk) => void } = {}
+): Promise<ExecuteCypressRunHeadlessOutput> {
+  const { specs, repoPath, testType } = input;
+  const startedAt = new Date();
+  const relativeSpecPaths = specs.map(relativeSpecPathOf);
+
+  const saveError = saveSpecFiles(repoPath, specs);
+  if (saveError) {
+    return recordRunHistory(input.projectId, startedAt, relativeSpecPaths, saveError);
+  }
+  if (testType === 'Component') {
+    const setupError = checkComponentSetup(repoPath);
+    if (setupError) {
+      return recordRunHistory(input.projectId, startedAt, relativeSpecPaths, setupError);
+    }
+  }
+
+  // A single `cypress run` over the whole batch; the structured results report each spec separately.
+  const specDir = testType === 'Component' ? repoPath : path.join(repoPath, 'cypress', 'e2e');
+  const output = await runWithAppServer(repoPath, { specFilePath: specDir, relativeSpecPath: relativeSpecPaths.join(','), testingType: testType === 'Component' ? 'component' : 'e2e' }, !!input.startAppServer, sendChunk);
+  return recordRunHistory(input.projectId, startedAt, relativeSpecPaths, output);
+}
+
 export const executeCypressRunHeadless = ai.defineFlow(
   {
     name: 'executeCypressRunHeadlessFlow',
     inputSchema: ExecuteCypressRunHeadlessInputSchema,
     outputSchema: ExecuteCypressRunHeadlessOutputSchema,
+    streamSchema: CypressRunChunkSchema,
   },
   executeCypressRunHeadlessLogic
 );
 
+export const executeCypressSuiteHeadless = ai.defineFlow(
+  {
+    name: 'executeCypressSuiteHeadlessFlow',
+    inputSchema: ExecuteCypressSuiteHeadlessInputSchema,
+    outputSchema: ExecuteCypressRunHeadlessOutputSchema,
+    streamSchema: CypressRunChunkSchema,
+  },
+  executeCypressSuiteHeadlessLogic
+);
@@ -4,47 +4,221 @@
 /**
  * @fileOverview Generates Cypress test code from a user flow description.
  *
+ * When the cloned repository is given, its custom commands, fixtures, intercepts and the existing spec closest
+ * to the flow are added to the prompt so the new spec follows the repository's conventions. The markup of the files
+ * implementing the flow (see flow-markup.ts) is added as well, so the spec selects elements that exist. For E2E tests,
+ * the crawled pages of the running application, when given, show what the browser renders, entry route first.
+ * A flow recorded in the browser (see session-recorder.ts) comes with its recorded steps and API calls, which the spec
+ * reproduces with policy-compliant selectors, intercepted requests and assertions.
+ *
+ * The model's code goes through the static validation of spec-validation.ts. When it fails, the model is asked
+ * again with the problems found, up to MAX_GENERATION_ATTEMPTS times; the last attempt is returned with its problems.
+ *
+ * The selector policy (DEFAULT_SELECTOR_POLICY unless given) is part of the prompt and of the validation. When it asks
+ * for it, the fields, buttons and links of the flow's source files that have no test id are returned as well.
+ *
  * - generateCypressTest - A function that generates Cypress test code.
  * - GenerateCypressTestInput - The input type for the generateCypressTest function.
  * - GenerateCypressTestOutput - The return type for the generateCypressTest function.
  */
 
+import * as fs from 'fs';
+import * as path from 'path';
 import {ai} from '@/ai/genkit';
+import {modelFor, modelRefFor} from '@/ai/model-config';
 import {z} from 'genkit';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {ComponentTestTargetSchema} from '@/ai/schemas/component-test-target';
+import {walkRepository} from '@/ai/analysis/repository-analyzer';
+import {inventoryCypressSpecs, renderSpecConventions} from '@/ai/analysis/spec-inventory';
+import {findFlowSourceFiles, renderFlowMarkup} from '@/ai/analysis/flow-markup';
+import {renderAppMap} from '@/ai/analysis/app-crawler';
+import {AppMapSchema} from '@/ai/schemas/app-map';
+import {formatValidationIssues, validateSpec} from '@/ai/cypress/spec-validation';
+import {SpecValidationIssueSchema} from '@/ai/schemas/spec-diagnostics';
+import {SelectorPolicySchema, UntaggedElementSchema, type UntaggedElement} from '@/ai/schemas/selector-policy';
+import {renderSelectorPolicy} from '@/ai/cypress/selector-policy';
+import {findUntaggedElements} from '@/ai/analysis/markup-extractor';
+import {DEFAULT_SELECTOR_POLICY} from '@/lib/constants';
 
 const GenerateCypressTestInputSchema = z.object({
   flowDescription: z.string().describe('The description of the user flow to test.'),
+  flow: UserFlowSchema.optional().describe('The structured user flow identified from the repository, when available.'),
   testType: z.enum(['E2E', 'Component']).describe('The type of test to generate: E2E or Component.'),
+  componentTarget: ComponentTestTargetSchema.optional().describe('For Component tests: the resolved component to mount and where the spec is saved.'),
   // applicationDescription removed as it's no longer manually provided.
   // The LLM should infer from repoUrl and appUrl if needed, or from the flowDescription itself.
   applicationDetails: z.string().describe('Details about the application including the App URL and repository URL.'),
+  repoPath: z.string().optional().describe('The cloned repository (Cypress project root); its existing specs and custom commands are reused.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('How the spec selects elements. Defaults to data-cy/data-testid, then role or label, then text.'),
+  appMap: AppMapSchema.optional().describe('Pages of the running application from a crawl, for E2E tests.'),
+  startAppServer: z.boolean().optional().describe('Whether E2E runs start the application from the repository and point baseUrl at it.'),
+  recordedSession: z.string().optional().describe('The steps, elements and API calls of a recorded session the spec reproduces, as rendered by renderRecording.'),
 });
 export type GenerateCypressTestInput = z.infer<typeof GenerateCypressTestInputSchema>;
 
-const GenerateCypressTestOutputSchema = z.object({
+const GenerateCypressTestPromptOutputSchema = z.object({
   testCode: z.string().describe('The generated Cypress test code.'),
 });
+
+const GenerateCypressTestOutputSchema = GenerateCypressTestPromptOutputSchema.extend({
+  model: z.string().describe('The model that generated the code, e.g. "googleai/gemini-2.0-flash".'),
+  validation: z.object({
+    passed: z.boolean().describe('False when the last attempt still has validation errors.'),
+    attempts: z.number().describe('Number of times the model was asked for the spec.'),
+    issues: z.array(SpecValidationIssueSchema).describe('Problems found in the returned code, including warnings.'),
+  }),
+  markupFiles: z.array(z.string()).optional().describe('Repository files whose markup was given to the model.'),
+  untaggedElements: z.array(UntaggedElementSchema).optional().describe('Elements of the flow\'s source files without a test id, when the selector policy asks for them.'),
+});
 export type GenerateCypressTestOutput = z.infer<typeof GenerateCypressTestOutputSchema>;
 
 export async function generateCypressTest(input: GenerateCypressTestInput): Promise<GenerateCypressTestOutput> {
   return generateCypressTestFlow(input);
 }
 
+const GenerateCypressTestPromptInputSchema = GenerateCypressTestInputSchema.extend({
+  existingConventions: z.string().optional(),
+  flowMarkup: z.string().optional(),
+  renderedPages: z.string().optional(),
+  selectorRules: z.string(),
+  isE2E: z.boolean(),
+  appServerBaseUrl: z.boolean(),
+  rejectedAttempt: z.object({testCode: z.string(), issues: z.string()}).optional(),
+});
+
+const MAX_GENERATION_ATTEMPTS = 3;
+const MAX_SOURCE_FILE_BYTES = 300_000;
+const MAX_RENDERED_PAGES_CHARS = 4000;
+
 const prompt = ai.definePrompt({
   name: 'generateCypressTestPrompt',
-  input: {schema: GenerateCypressTestInputSchema},
-  output: {schema: GenerateCypressTestOutputSchema},
+  model: modelRefFor('generate'),
+  input: {schema: GenerateCypressTestPromptInputSchema},
+  output: {schema: GenerateCypressTestPromptOutputSchema},
   prompt: `You are an expert Cypress test generator. Based on the provided user flow description, generate Cypress test code.
 
   User Flow Description: {{{flowDescription}}}
   Test Type: {{{testType}}}
   Application Details (App URL, Repo URL): {{{applicationDetails}}}
+  {{#if flow}}
+
+  Identified User Flow:
+  Name: {{{flow.name}}} (priority: {{{flow.priority}}})
+  Entry route: {{{flow.entryRoute}}}
+  {{#if flow.preconditions}}Preconditions:
+  {{#each flow.preconditions}}  - {{{this}}}
+  {{/each}}{{/if}}
+  Steps:
+  {{#each flow.steps}}  - {{{this}}}
+  {{/each}}
+  {{#if flow.testData}}Required test data:
+  {{#each flow.testData}}  - {{{this}}}
+  {{/each}}{{/if}}
+  {{#if flow.sourceFiles}}Implemented in: {{#each flow.sourceFiles}}{{{this}}} {{/each}}{{/if}}
+
+  Cover every step in order, start from the entry route, and set up the preconditions and test data explicitly (e.g. with fixtures or cy.request).
+  {{/if}}
+  {{#if recordedSession}}
+
+  Recorded Session (what the user did in the browser, the elements acted on and the API calls each step triggered):
+  {{{recordedSession}}}
+
+  Reproduce the recorded steps in order. The element details are what the recorder saw: choose selectors from them by the rules below instead of copying CSS paths.
+  Alias the recorded API calls with cy.intercept before the step that triggers them and wait on the aliases, asserting on their status codes.
+  Assert the location after every "Arrive at" step and what the page shows once the flow is done. Type passwords from Cypress.env('password'), not literals.
+  {{/if}}
+  {{#if componentTarget}}
+
+  Component Under Test:
+  The spec is saved at {{{componentTarget.specRelativePath}}} and mounts {{{componentTarget.exportName}}} from {{{componentTarget.componentFile}}}.
+  Import it exactly as: {{#if componentTarget.isDefaultExport}}import {{{componentTarget.exportName}}} from '{{{componentTarget.importPath}}}';{{else}}import { {{{componentTarget.exportName}}} } from '{{{componentTarget.importPath}}}';{{/if}}
+  {{#if componentTarget.propsDefinition}}Props:
+  {{{componentTarget.propsDefinition}}}
+  {{/if}}
+  {{#if componentTarget.providerHints}}Mounting requirements:
+  {{#each componentTarget.providerHints}}  - {{{this}}}
+  {{/each}}{{/if}}
+  Component source:
+  {{{componentTarget.componentSource}}}
+
+  Mount the component with cy.mount(...) (do not cy.visit a page), pass realistic values for required props, stub callback props with cy.stub().as(...),
+  wrap it in the providers listed above, and assert on what the component renders.
+  {{/if}}
+  {{#if flowMarkup}}
+
+  Markup of the files implementing the flow (line numbers on the left):
+  {{{flowMarkup}}}
+
+  Select only elements that appear in this markup, by the test ids, roles, labels and texts written there; do not invent selectors.
+  Text that comes from expressions such as {t('...')} is not known; prefer attributes for those elements.
+  {{/if}}
+  {{#if renderedPages}}
 
-  Ensure the generated code is valid Cypress code and includes appropriate assertions to validate the user flow.
-  Return only the code, do not include explanations or comments outside of the test code.
+  Pages of the running application, as a headless browser or the served HTML shows them:
+  {{{renderedPages}}}
+
+  The roles, accessible names and test ids above are what the application renders; select elements by them rather than by guesses.
+  {{/if}}
+  {{#if existingConventions}}
+
+  The repository already has Cypress tests. Follow their conventions:
+  {{{existingConventions}}}
+
+  Prefer the custom commands above over raw cy.get chains for what they already cover (e.g. logging in or seeding data),
+  load test data from the listed fixtures where they fit, and stub requests the way the existing specs do.
+  {{/if}}
+
+  {{#if rejectedAttempt}}
+
+  Your previous spec was rejected by static validation:
+  {{{rejectedAttempt.issues}}}
+
+  Previous spec:
+  {{{rejectedAttempt.testCode}}}
+
+  Return a complete spec that fixes every problem above.
+  {{/if}}
+
+  {{#if isE2E}}
+  Visit pages with paths relative to the configured baseUrl (e.g. cy.visit('/login')), never with absolute URLs{{#if appServerBaseUrl}}; the run points baseUrl at the application started from the repository{{/if}}.
+  {{/if}}
+
+  {{{selectorRules}}}
+
+  Ensure the generated code is valid Cypress code with describe() and it() blocks and includes appropriate assertions to validate the user flow.
+  Do not use .only, fixed-time waits such as cy.wait(1000) or { force: true }; wait on aliased requests or assertions and target visible, enabled elements.
+  Return only the code, without markdown fences, explanations or comments outside of the test code.
   `,
 });
 
+// The entry route comes from the model and may not be a valid URL; the pages are then rendered without a focus
+function crawledPathOf(entryRoute: string, origin: string): string | undefined {
+  try {
+    return new URL(entryRoute, origin).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+// The flow's source files (relative to the repository, or to the app for monorepo flows) and the mounted component
+function untaggedElementsOf(input: GenerateCypressTestInput, testIdAttributes: string[]): UntaggedElement[] {
+  const repoPath = input.repoPath!;
+  const files = new Set(input.flow?.sourceFiles || []);
+  if (input.componentTarget) files.add(input.componentTarget.componentFile);
+  const untagged: UntaggedElement[] = [];
+  for (const file of files) {
+    try {
+      const absolutePath = path.join(repoPath, file);
+      if (fs.statSync(absolutePath).size > MAX_SOURCE_FILE_BYTES) continue;
+      untagged.push(...findUntaggedElements(fs.readFileSync(absolutePath, 'utf8'), file, testIdAttributes));
+    } catch {
+      // Files removed since the analysis are skipped
+    }
+  }
+  return untagged;
+}
+
 const generateCypressTestFlow = ai.defineFlow(
   {
     name: 'generateCypressTestFlow',
@@ -52,7 +226,42 @@ const generateCypressTestFlow = ai.defineFlow(
     outputSchema: GenerateCypressTestOutputSchema,
   },
   async input => {
-    const {output} = await prompt(input);
-    return output!;
+    let existingConventions: string | undefined;
+    let flowMarkup: string | undefined;
+    let markupFiles: string[] | undefined;
+    if (input.repoPath) {
+      const {files} = walkRepository(input.repoPath);
+      const inventory = inventoryCypressSpecs(input.repoPath, files);
+      existingConventions = renderSpecConventions(input.repoPath, inventory, input.flow) || undefined;
+      if (input.flow) {
+        const flowFiles = findFlowSourceFiles(input.repoPath, input.flow, files);
+        const componentFile = input.componentTarget?.componentFile;
+        const markup = renderFlowMarkup(input.repoPath, componentFile ? [componentFile, ...flowFiles.filter(file => file !== componentFile)] : flowFiles);
+        flowMarkup = markup.text || undefined;
+        markupFiles = markup.files;
+      }
+    }
+    let renderedPages: string | undefined;
+    if (input.appMap && input.testType === 'E2E' && input.appMap.pages.length > 0) {
+      const entryPath = input.flow ? crawledPathOf(input.flow.entryRoute, input.appMap.origin) : undefined;
+      renderedPages = renderAppMap(input.appMap, {focusPaths: entryPath ? [entryPath] : [], maxChars: MAX_RENDERED_PAGES_CHARS});
+    }
+    const selectorPolicy = input.selectorPolicy || DEFAULT_SELECTOR_POLICY;
+    const untaggedElements = input.repoPath && selectorPolicy.reportMissingTestIds ? untaggedElementsOf(input, selectorPolicy.testIdAttributes) : undefined;
+    const specFileName = input.componentTarget?.specRelativePath || 'spec.cy.ts';
+    const isE2E = input.testType === 'E2E';
+    let rejectedAttempt: {testCode: string; issues: string} | undefined;
+    for (let attempt = 1; ; attempt++) {
+      const {output} = await prompt({...input, existingConventions, flowMarkup, renderedPages, selectorRules: renderSelectorPolicy(selectorPolicy), isE2E, appServerBaseUrl: isE2E && !!input.startAppServer, rejectedAttempt});
+      if (!output) {
+        throw new Error(`The model returned no test code in attempt ${attempt}.`);
+      }
+      const {code, issues} = validateSpec(output.testCode, specFileName, selectorPolicy);
+      const passed = !issues.some(issue => issue.severity === 'error');
+      if (passed || attempt >= MAX_GENERATION_ATTEMPTS) {
+        return {testCode: code, model: modelFor('generate'), validation: {passed, attempts: attempt, issues}, markupFiles, untaggedElements};
+      }
+      rejectedAttempt = {testCode: code, issues: formatValidationIssues(issues)};
+    }
   }
 );
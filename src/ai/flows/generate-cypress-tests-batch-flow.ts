@@ -0,0 +1,107 @@
+'use server';
+/**
+ * @fileOverview Generates Cypress tests for several user flows at once, with a concurrency limit.
+ *
+ * - generateCypressTestsBatch - A function that calls generateCypressTest for every selected flow.
+ *   For Component tests the component of each flow is resolved in the cloned repository first. A spec that still
+ *   fails the static validation after its regeneration attempts is reported as an error without code.
+ * - GenerateCypressTestsBatchInput - The input type for the generateCypressTestsBatch function.
+ * - GenerateCypressTestsBatchOutput - The return type for the generateCypressTestsBatch function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+import {AppMapSchema} from '@/ai/schemas/app-map';
+import {generateCypressTest} from '@/ai/flows/generate-cypress-test';
+import {formatValidationIssues} from '@/ai/cypress/spec-validation';
+import {formatUserFlow, sanitizeFlowNameForFilename} from '@/lib/user-flows';
+import {mapWithConcurrency} from '@/lib/concurrency';
+import {resolveComponentTestTarget} from '@/ai/analysis/component-locator';
+
+const GenerateCypressTestsBatchInputSchema = z.object({
+  flows: z.array(UserFlowSchema).min(1).describe('The user flows to generate tests for.'),
+  testType: z.enum(['E2E', 'Component']).describe('The type of test to generate for every flow.'),
+  applicationDetails: z.string().describe('Details about the application including the App URL and repository URL.'),
+  repoPath: z.string().optional().describe('The cloned repository; required to resolve components for Component tests and used to follow its existing specs.'),
+  concurrency: z.number().int().min(1).max(5).optional().describe('Maximum number of generations running at once. Defaults to 3.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('How the specs select elements; see generateCypressTest.'),
+  appMap: AppMapSchema.optional().describe('Pages of the running application from a crawl, for E2E tests.'),
+  startAppServer: z.boolean().optional().describe('Whether E2E runs start the application from the repository; see generateCypressTest.'),
+});
+export type GenerateCypressTestsBatchInput = z.infer<typeof GenerateCypressTestsBatchInputSchema>;
+
+const BatchGenerationResultSchema = z.object({
+  flowId: z.string(),
+  flowName: z.string(),
+  specFileName: z.string().describe('File name the spec should be saved under, e.g. "user-login.cy.ts".'),
+  specRelativePath: z.string().optional().describe('For Component tests: where the spec is saved, relative to the repository root.'),
+  testCode: z.string().optional().describe('The generated test code, if generation succeeded.'),
+  model: z.string().optional().describe('The model that generated the test code.'),
+  error: z.string().optional().describe('Why generation failed for this flow.'),
+});
+export type BatchGenerationResult = z.infer<typeof BatchGenerationResultSchema>;
+
+const GenerateCypressTestsBatchOutputSchema = z.object({
+  results: z.array(BatchGenerationResultSchema).describe('One result per input flow, in input order.'),
+});
+export type GenerateCypressTestsBatchOutput = z.infer<typeof GenerateCypressTestsBatchOutputSchema>;
+
+const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export async function generateCypressTestsBatch(input: GenerateCypressTestsBatchInput): Promise<GenerateCypressTestsBatchOutput> {
+  return generateCypressTestsBatchFlow(input);
+}
+
+const generateCypressTestsBatchFlow = ai.defineFlow(
+  {
+    name: 'generateCypressTestsBatchFlow',
+    inputSchema: GenerateCypressTestsBatchInputSchema,
+    outputSchema: GenerateCypressTestsBatchOutputSchema,
+  },
+  async input => {
+    const results = await mapWithConcurrency(input.flows, input.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async flow => {
+      let specFileName = sanitizeFlowNameForFilename(flow.name);
+      let specRelativePath: string | undefined;
+      try {
+        let componentTarget;
+        if (input.testType === 'Component') {
+          if (!input.repoPath) {
+            return {flowId: flow.id, flowName: flow.name, specFileName, error: 'Component tests need the cloned repository to locate the component.'};
+          }
+          const resolved = resolveComponentTestTarget(input.repoPath, flow);
+          if (!resolved.target) {
+            return {flowId: flow.id, flowName: flow.name, specFileName, error: resolved.error};
+          }
+          componentTarget = resolved.target;
+          specRelativePath = componentTarget.specRelativePath;
+          specFileName = specRelativePath.split('/').pop()!;
+        }
+        const output = await generateCypressTest({
+          flowDescription: formatUserFlow(flow),
+          flow,
+          testType: input.testType,
+          componentTarget,
+          applicationDetails: input.applicationDetails,
+          repoPath: input.repoPath,
+          selectorPolicy: input.selectorPolicy,
+          appMap: input.appMap,
+          startAppServer: input.startAppServer,
+        });
+        if (!output?.testCode) {
+          return {flowId: flow.id, flowName: flow.name, specFileName, specRelativePath, error: 'The model returned no test code.'};
+        }
+        if (!output.validation.passed) {
+          // Left out of the batch so the suite run is not refused as a whole
+          const errors = output.validation.issues.filter(issue => issue.severity === 'error');
+          return {flowId: flow.id, flowName: flow.name, specFileName, specRelativePath, model: output.model, error: `The spec still failed validation after ${output.validation.attempts} attempts:\n${formatValidationIssues(errors)}`};
+        }
+        return {flowId: flow.id, flowName: flow.name, specFileName, specRelativePath, testCode: output.testCode, model: output.model};
+      } catch (error: any) {
+        return {flowId: flow.id, flowName: flow.name, specFileName, specRelativePath, error: error.message || String(error)};
+      }
+    });
+    return {results};
+  }
+);
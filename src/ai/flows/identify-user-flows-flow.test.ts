@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { ai } from '@/ai/genkit';
+import type { RepositoryInventory } from '@/ai/schemas/repository-inventory';
+
+interface StructureResult {
+  structureSummary: string;
+  inventory: RepositoryInventory;
+  log: string;
+}
+
+let readRepositoryStructure: (input: { repoPath: string; tokenBudget?: number }) => Promise<StructureResult>;
+
+const tempDirs: string[] = [];
+
+function fixtureRepo(files: Record<string, string>): string {
+  const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-structure-'));
+  tempDirs.push(repo);
+  for (const [relativePath, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(repo, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(repo, relativePath), content);
+  }
+  return repo;
+}
+
+const nextApp = {
+  'package.json': JSON.stringify({ name: 'shop', dependencies: { next: '15.0.0', react: '19.0.0' }, devDependencies: { cypress: '13.0.0' } }),
+  '.gitignore': 'generated/\n*.log\n',
+  'src/app/page.tsx': `export default function Home() {
+  return <a href="/login">Sign in</a>;
+}
+`,
+  'src/app/login/page.tsx': `export default function Login() {
+  return (
+    <form name="login" action="/api/session">
+      <label htmlFor="email">Email</label>
+      <input id="email" name="email" type="email" required />
+      <input name="password" type="password" data-testid="password-input" />
+      <button type="submit" data-cy="login-submit">Log in</button>
+    </form>
+  );
+}
+`,
+  'src/app/orders/[id]/page.tsx': 'export default function Order() { return <h1>Order</h1>; }\n',
+  'src/app/api/orders/route.ts': 'export async function GET() { return Response.json([]); }\n',
+  'generated/app/page.tsx': 'export default function Generated() { return <button>Hidden</button>; }\n',
+  'debug.log': 'noise',
+  'node_modules/dep/index.js': 'module.exports = {};',
+  'cypress/e2e/home.cy.ts': `describe('Home', () => {
+  it('shows the sign in link', () => {
+    cy.visit('/');
+    cy.contains('Sign in');
+  });
+});
+`,
+  'cypress/support/commands.ts': `Cypress.Commands.add('login', (email, password) => {
+  cy.visit('/login');
+});
+`,
+};
+
+beforeAll(async () => {
+  // Importing the flow registers its tools on the shared Genkit instance
+  await import('@/ai/flows/identify-user-flows-flow');
+  const tool = await ai.registry.lookupAction('/tool/readRepositoryStructureTool');
+  readRepositoryStructure = tool as unknown as typeof readRepositoryStructure;
+});
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('readRepositoryStructureTool', () => {
+  it('inventories the routes, forms, test ids and existing specs of a Next.js app', async () => {
+    const repo = fixtureRepo(nextApp);
+    const { inventory } = await readRepositoryStructure({ repoPath: repo });
+
+    expect(inventory.packageName).toBe('shop');
+    expect(inventory.frameworks).toEqual(expect.arrayContaining(['next-app', 'next', 'react']));
+    expect(inventory.keyDependencies).toEqual(['next', 'react', 'cypress']);
+    expect(inventory.routes.map(route => `${route.kind} ${route.path}`)).toEqual(expect.arrayContaining([
+      'page /', 'page /login', 'page /orders/:id', 'api /api/orders',
+    ]));
+    expect(inventory.forms).toHaveLength(1);
+    expect(inventory.forms[0]).toMatchObject({ file: 'src/app/login/page.tsx', name: 'login', action: '/api/session' });
+    expect(inventory.forms[0].fields).toEqual(expect.arrayContaining([
+      expect.objectContaining({ tag: 'input', name: 'email', type: 'email', label: 'Email', required: true }),
+      expect.objectContaining({ tag: 'input', name: 'password', testId: 'password-input' }),
+    ]));
+    expect(inventory.testIds.map(entry => `${entry.attribute}=${entry.value}`)).toEqual(expect.arrayContaining([
+      'data-testid=password-input', 'data-cy=login-submit',
+    ]));
+    expect(inventory.cypressSpecs).toEqual(['cypress/e2e/home.cy.ts']);
+    expect(inventory.existingTests.specs[0].tests).toEqual(['shows the sign in link']);
+    expect(inventory.existingTests.customCommands.map(command => command.name)).toEqual(['login']);
+  });
+
+  it('skips gitignored files and node_modules', async () => {
+    const repo = fixtureRepo(nextApp);
+    const { inventory } = await readRepositoryStructure({ repoPath: repo });
+    const files = [
+      ...inventory.routes.map(route => route.file),
+      ...inventory.interactiveElements.map(element => element.file),
+    ];
+
+    expect(files.some(file => file.startsWith('generated/') || file.startsWith('node_modules/'))).toBe(false);
+    expect(inventory.topLevelDirectories.map(dir => dir.name)).not.toEqual(expect.arrayContaining(['generated']));
+    expect(inventory.fileCount).toBe(Object.keys(nextApp).length - 3);
+  });
+
+  it('renders the inventory as a summary for the prompt', async () => {
+    const repo = fixtureRepo(nextApp);
+    const { structureSummary, log } = await readRepositoryStructure({ repoPath: repo });
+
+    expect(structureSummary).toContain(`Repository structure analysis for path: ${repo}`);
+    expect(structureSummary).toContain('Package name: shop');
+    expect(structureSummary).toContain('  - /orders/:id -> src/app/orders/[id]/page.tsx');
+    expect(structureSummary).toContain('data-cy="login-submit" on <button> in src/app/login/page.tsx:7');
+    expect(structureSummary).toContain('cypress/e2e/home.cy.ts: "shows the sign in link"');
+    expect(structureSummary).toContain('cy.login(email, password) in cypress/support/commands.ts:1');
+    expect(log).toContain('Structure analysis complete.');
+  });
+
+  it('keeps the summary within the token budget', async () => {
+    const pages = Object.fromEntries(Array.from({ length: 200 }, (_, i) => [
+      `src/app/section-${i}/page.tsx`,
+      `export default function Page() { return <button data-testid="action-${i}">Action ${i}</button>; }\n`,
+    ]));
+    const repo = fixtureRepo({ ...pages, 'package.json': JSON.stringify({ name: 'big', dependencies: { next: '15.0.0' } }) });
+    const { structureSummary, inventory } = await readRepositoryStructure({ repoPath: repo, tokenBudget: 500 });
+
+    expect(inventory.routes).toHaveLength(200);
+    expect(structureSummary.length).toBeLessThan(500 * 4 + 200);
+    expect(structureSummary).toMatch(/\.\.\. \(\d+ more omitted for the token budget\)/);
+  });
+
+  it('finds React Router routes in a plain React app', async () => {
+    const repo = fixtureRepo({
+      'package.json': JSON.stringify({ name: 'dashboard', dependencies: { react: '18.0.0', 'react-router-dom': '6.0.0' } }),
+      'src/App.tsx': `import { Routes, Route } from 'react-router-dom';
+export function App() {
+  return (
+    <Routes>
+      <Route path="/" element={<Home />} />
+      <Route path="/settings" element={<Settings />} />
+    </Routes>
+  );
+}
+`,
+    });
+    const { inventory } = await readRepositoryStructure({ repoPath: repo });
+
+    expect(inventory.frameworks).toEqual(expect.arrayContaining(['react-router', 'react']));
+    expect(inventory.routes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: '/settings', file: 'src/App.tsx', framework: 'react-router', component: 'Settings' }),
+    ]));
+  });
+
+  it('fails with the log when the path is not a directory', async () => {
+    const missing = path.join(os.tmpdir(), `cypress-pilot-missing-${process.pid}-${Date.now()}`);
+    await expect(readRepositoryStructure({ repoPath: missing })).rejects.toThrow(/Failed to read repository structure: [^]*Log: Analyzing structure at/);
+  });
+});
@@ -3,138 +3,248 @@
 /**
  * @fileOverview Identifies potential user flows by cloning and analyzing a GitHub repository.
  *
- * - identifyUserFlows - A function that clones a repo, analyzes its structure, and uses an LLM to identify user flows.
+ * The clone lives in a persisted project workspace: re-analyzing a project fetches updates instead of cloning again,
+ * and the identified flows are saved on the project. Instead of a git remote, the code can come from an allow-listed
+ * local directory or an uploaded archive; both are copied into the workspace and analyzed the same way.
+ * In a monorepo each selected app (by default every web app) is analyzed separately and its flows are tagged with the app;
+ * dependencies are installed once at the workspace root and each app is prepared for Cypress with the root's package manager.
+ * When asked to, the running application at the app URL is crawled as well (see app-crawler.ts); its pages are given to
+ * the model next to the repository inventory and the map is saved on the project for test generation.
+ *
+ * - identifyUserFlows - A function that syncs a project's clone, prepares it for Cypress, analyzes its structure, and uses an LLM to identify user flows.
  * - IdentifyUserFlowsInput - The input type for the identifyUserFlows function.
  * - IdentifyUserFlowsOutput - The return type for the identifyUserFlows function.
  */
 
 import {ai} from '@/ai/genkit';
+import {modelFor, modelRefFor} from '@/ai/model-config';
 import {z} from 'genkit';
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import {RepositoryInventorySchema} from '@/ai/schemas/repository-inventory';
+import {analyzeRepository, renderInventory} from '@/ai/analysis/repository-analyzer';
+import {crawlApp, renderAppMap} from '@/ai/analysis/app-crawler';
+import {AppMapSchema, type AppMap} from '@/ai/schemas/app-map';
+import {detectWorkspace} from '@/ai/analysis/workspace-detector';
+import {RepositoryWorkspaceSchema, type RepositoryWorkspace} from '@/ai/schemas/workspace';
+import {UserFlowSchema, type UserFlow} from '@/ai/schemas/user-flow';
+import {toFlowId} from '@/lib/user-flows';
+import {installWorkspaceDependencies, prepareCypressProject, type PackageManager} from '@/ai/cypress/project-bootstrap';
+import {collectStaleClones, createProject, getProject, updateProject} from '@/ai/projects/project-store';
+import {RepositorySyncError, syncRepository} from '@/ai/projects/repository-sync';
+import {extractUploadedArchive, loadLocalDirectory} from '@/ai/projects/project-source';
+import {ProjectSourceSchema} from '@/ai/schemas/project';
+import {gitAuthForProfile} from '@/ai/projects/credential-store';
+import {isSafeGitRef, isSupportedRepoUrl, normalizeProjectRoot} from '@/lib/repo-url';
+import {redactSecrets} from '@/lib/redact';
+
+const RepoUrlSchema = z.string().refine(isSupportedRepoUrl, 'Enter an HTTPS or SSH git repository URL.');
 
 const IdentifyUserFlowsInputSchema = z.object({
-  repoUrl: z.string().url().describe('The URL of the GitHub repository to analyze.'),
-  appUrl: z.string().url().optional().describe('The URL of the running application, for context.'),
+  source: ProjectSourceSchema.optional().describe('Where the code comes from: a git remote (default), a local directory on the server or an uploaded archive.'),
+  repoUrl: RepoUrlSchema.optional().describe('The HTTPS or SSH URL of the git repository to analyze. Required for git sources.'),
+  localPath: z.string().optional().describe('Absolute path of a directory under CYPRESS_PILOT_LOCAL_ROOTS. Required for local sources.'),
+  uploadId: z.string().optional().describe('Id returned by /api/project-uploads. Required for a new archive project; re-analysis reuses the extracted copy when omitted.'),
+  archiveName: z.string().optional().describe('File name of the uploaded archive, for display.'),
+  appUrl: z.string().url().optional().describe('The URL of the running application, for context and as the Cypress baseUrl.'),
+  skipCypressSetup: z.boolean().optional().describe('Skip installing dependencies and generating the Cypress config, for repositories that are already configured.'),
+  projectId: z.string().optional().describe('An existing project to re-analyze. A new project is created when omitted.'),
+  projectName: z.string().optional().describe('Name for a new project. Defaults to the repository name.'),
+  credentialProfileId: z.string().optional().describe('Credential profile for private repositories. Omit for public repositories.'),
+  ref: z.string().refine(isSafeGitRef, 'Enter a branch, tag or commit SHA.').optional().describe('Branch, tag or commit SHA to analyze. Defaults to the default branch.'),
+  projectRoot: z.string().optional().describe('Subdirectory to use as the project root, e.g. "apps/web". Analysis and Cypress runs use it as their working directory.'),
+  sparseCheckout: z.boolean().optional().describe('Check out only the project root (and files at the repository root). Git sources with a project root only.'),
+  partialClone: z.boolean().optional().describe('Download file contents only for checked out files (git partial clone). Git sources only.'),
+  appPaths: z.array(z.string()).optional().describe('Monorepo apps to analyze, as workspace package paths (e.g. "apps/web"). Defaults to every web app.'),
+  crawlApp: z.boolean().optional().describe('Crawl the running application at appUrl and use its rendered pages in the analysis.'),
+  crawlMaxPages: z.number().int().min(1).max(100).optional().describe('Page budget of the crawl. Defaults to 20.'),
 });
 export type IdentifyUserFlowsInput = z.infer<typeof IdentifyUserFlowsInputSchema>;
 
 const IdentifyUserFlowsOutputSchema = z.object({
-  identifiedFlows: z.array(z.string()).describe('A list of identified potential user flows based on the repository analysis.'),
+  identifiedFlows: z.array(UserFlowSchema).describe('A list of identified potential user flows based on the repository analysis.'),
   analysisLog: z.string().optional().describe('Log of the analysis process, for debugging or info.'),
-  clonedRepoPath: z.string().optional().describe('The local path where the repository was cloned.'),
+  clonedRepoPath: z.string().optional().describe('The local project root: the clone, or the selected subdirectory of it. Cypress runs use it as cwd.'),
+  commit: z.string().optional().describe('Short SHA of the analyzed commit.'),
+  workspace: RepositoryWorkspaceSchema.optional().describe('Monorepo workspace packages, when the repository is a monorepo.'),
+  projectId: z.string().optional().describe('The project the analysis was saved to.'),
+  model: z.string().optional().describe('The model that identified the flows, e.g. "googleai/gemini-2.0-flash".'),
+  appMap: AppMapSchema.optional().describe('Pages of the running application, when it was crawled.'),
 });
 export type IdentifyUserFlowsOutput = z.infer<typeof IdentifyUserFlowsOutputSchema>;
 
-const CloneRepositoryInputSchema = z.object({
-  repoUrl: z.string().url(),
+const SyncRepositoryInputSchema = z.object({
+  repoUrl: RepoUrlSchema,
+  clonePath: z.string(),
+  credentialProfileId: z.string().optional(),
+  ref: z.string().optional(),
+  sparsePaths: z.array(z.string()).optional(),
+  partial: z.boolean().optional(),
 });
-const CloneRepositoryOutputSchema = z.object({
-  tempPath: z.string(),
+const SyncRepositoryOutputSchema = z.object({
+  clonePath: z.string(),
+  commit: z.string(),
   log: z.string(),
 });
 
-const cloneRepositoryTool = ai.defineTool(
+const LoadProjectSourceInputSchema = z.object({
+  source: z.enum(['local', 'archive']),
+  clonePath: z.string(),
+  localPath: z.string().optional(),
+  uploadId: z.string().optional(),
+});
+const LoadProjectSourceOutputSchema = z.object({
+  clonePath: z.string(),
+  log: z.string(),
+});
+
+const loadProjectSourceTool = ai.defineTool(
+  {
+    name: 'loadProjectSourceTool',
+    description: 'Copies an allow-listed local directory, or extracts an uploaded zip or tarball, into the project workspace.',
+    inputSchema: LoadProjectSourceInputSchema,
+    outputSchema: LoadProjectSourceOutputSchema,
+  },
+  async ({source, clonePath, localPath, uploadId}) => {
+    if (source === 'local') {
+      if (!localPath) throw new Error('A local directory is required.');
+      const {log} = loadLocalDirectory(localPath, clonePath);
+      return { clonePath, log };
+    }
+    if (uploadId) {
+      const {log} = await extractUploadedArchive(uploadId, clonePath);
+      return { clonePath, log };
+    }
+    if (!fs.existsSync(clonePath)) {
+      throw new Error('The extracted archive is no longer in the workspace. Upload the archive again.');
+    }
+    return { clonePath, log: `Re-using the archive extracted in ${clonePath}.\n` };
+  }
+);
+
+const syncRepositoryTool = ai.defineTool(
   {
-    name: 'cloneRepositoryTool',
-    description: 'Clones a public GitHub repository to a temporary local directory.',
-    inputSchema: CloneRepositoryInputSchema,
-    outputSchema: CloneRepositoryOutputSchema,
+    name: 'syncRepositoryTool',
+    description: 'Clones a git repository into the project workspace, or fetches updates for an existing clone, within the configured host allow-list and size, file count and time limits. Private repositories authenticate with a credential profile.',
+    inputSchema: SyncRepositoryInputSchema,
+    outputSchema: SyncRepositoryOutputSchema,
   },
-  async ({repoUrl}) => {
-    let tempDir = '';
-    let logOutput = `Attempting to clone ${repoUrl}...\n`;
+  async ({repoUrl, clonePath, credentialProfileId, ref, sparsePaths, partial}) => {
+    // Secrets stay out of the log and error messages; git itself only sees them through its environment
+    const auth = credentialProfileId ? gitAuthForProfile(credentialProfileId, repoUrl) : undefined;
     try {
-      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cypress-pilot-repo-'));
-      logOutput += `Created temporary directory: ${tempDir}\n`;
-      execSync(`git clone --depth 1 ${repoUrl} .`, { cwd: tempDir, stdio: 'pipe' });
-      logOutput += `Successfully cloned ${repoUrl} into ${tempDir}\n`;
-      return { tempPath: tempDir, log: logOutput };
+      const {commit, log} = await syncRepository(repoUrl, clonePath, {auth, ref, sparsePaths, partial});
+      return { clonePath, commit, log: redactSecrets(log, auth?.secrets) };
     } catch (error: any) {
-      logOutput += `Error cloning repository: ${error.message || error.toString()}\n`;
-      if (tempDir && fs.existsSync(tempDir)) {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-        logOutput += `Cleaned up temporary directory: ${tempDir}\n`;
+      if (error instanceof RepositorySyncError) {
+        throw new RepositorySyncError(error.code, `Repository rejected (${error.code}): ${redactSecrets(error.message, auth?.secrets)}`);
       }
-      throw new Error(`Failed to clone repository: ${error.message}. Log: ${logOutput}`);
+      throw new Error(`Failed to clone repository: ${redactSecrets(error.message, auth?.secrets)}`);
+    }
+  }
+);
+
+const PackageManagerSchema = z.enum(['npm', 'yarn', 'pnpm']);
+
+const PrepareCypressProjectInputSchema = z.object({
+  repoPath: z.string(),
+  baseUrl: z.string().url().optional(),
+  skip: z.boolean().optional(),
+  workspacePackageManager: PackageManagerSchema.optional().describe('For a workspace app: the package manager its dependencies were installed with at the workspace root.'),
+});
+const PrepareCypressProjectOutputSchema = z.object({
+  steps: z.array(z.object({
+    name: z.string(),
+    status: z.enum(['done', 'skipped', 'failed']),
+    detail: z.string(),
+  })),
+  log: z.string(),
+});
+
+const prepareCypressProjectTool = ai.defineTool(
+  {
+    name: 'prepareCypressProjectTool',
+    description: 'Installs dependencies in a cloned repository, adds Cypress if missing, and generates cypress.config.ts and support files when absent.',
+    inputSchema: PrepareCypressProjectInputSchema,
+    outputSchema: PrepareCypressProjectOutputSchema,
+  },
+  async ({repoPath, baseUrl, skip, workspacePackageManager}) => {
+    try {
+      return await prepareCypressProject(repoPath, {baseUrl, skip, workspacePackageManager});
+    } catch (error: any) {
+      // A failed setup should not block flow identification; the run will report what is missing.
+      const detail = `Unexpected error: ${error.message || error.toString()}`;
+      return {steps: [{name: 'Prepare Cypress project', status: 'failed' as const, detail}], log: `[cypress setup] Prepare Cypress project: failed. ${detail}\n`};
+    }
+  }
+);
+
+const InstallWorkspaceDependenciesOutputSchema = z.object({
+  packageManager: PackageManagerSchema.optional().describe('The package manager the dependencies were installed with; absent when the install failed.'),
+  log: z.string(),
+});
+
+const installWorkspaceDependenciesTool = ai.defineTool(
+  {
+    name: 'installWorkspaceDependenciesTool',
+    description: 'Installs the dependencies of a monorepo once at its root, with the package manager of the root lockfile.',
+    inputSchema: z.object({repoPath: z.string()}),
+    outputSchema: InstallWorkspaceDependenciesOutputSchema,
+  },
+  async ({repoPath}) => {
+    try {
+      const {packageManager, steps, log} = await installWorkspaceDependencies(repoPath);
+      return {packageManager: steps.some(step => step.status === 'failed') ? undefined : packageManager, log};
+    } catch (error: any) {
+      return {log: `[cypress setup] Install dependencies: failed. Unexpected error: ${error.message || error.toString()}\n`};
     }
   }
 );
 
 const ReadRepositoryStructureInputSchema = z.object({
   repoPath: z.string(),
+  tokenBudget: z.number().int().positive().optional().describe('Approximate token budget for the rendered summary. Defaults to 6000.'),
 });
 const ReadRepositoryStructureOutputSchema = z.object({
   structureSummary: z.string(),
+  inventory: RepositoryInventorySchema,
+  log: z.string(),
+});
+
+const DetectWorkspaceInputSchema = z.object({
+  repoPath: z.string(),
+});
+const DetectWorkspaceOutputSchema = z.object({
+  workspace: RepositoryWorkspaceSchema,
   log: z.string(),
 });
 
+const detectWorkspaceTool = ai.defineTool(
+  {
+    name: 'detectWorkspaceTool',
+    description: 'Detects npm, yarn or pnpm workspaces, Nx, Turborepo and Lerna monorepos and classifies each package as web app, API or library.',
+    inputSchema: DetectWorkspaceInputSchema,
+    outputSchema: DetectWorkspaceOutputSchema,
+  },
+  async ({repoPath}) => detectWorkspace(repoPath)
+);
+
 const readRepositoryStructureTool = ai.defineTool(
   {
     name: 'readRepositoryStructureTool',
-    description: 'Reads the file structure of a cloned repository and generates a summary.',
+    description: 'Walks a cloned repository (respecting .gitignore) and returns an inventory of its routes, forms, buttons, links and test ids.',
     inputSchema: ReadRepositoryStructureInputSchema,
     outputSchema: ReadRepositoryStructureOutputSchema,
   },
-  async ({repoPath}) => {
-    let structure = `Repository structure analysis for path: ${repoPath}\n`;
+  async ({repoPath, tokenBudget}) => {
     let logOutput = `Analyzing structure at ${repoPath}...\n`;
 
     try {
-      // Check for package.json
-      const packageJsonPath = path.join(repoPath, 'package.json');
-      if (fs.existsSync(packageJsonPath)) {
-        structure += "\nFound package.json. Dependencies might indicate framework (e.g., 'next', 'react', 'vue', 'angular').\n";
-        try {
-            const packageJsonContent = fs.readFileSync(packageJsonPath, 'utf-8');
-            const packageJson = JSON.parse(packageJsonContent);
-            structure += `Package name: ${packageJson.name || 'N/A'}\n`;
-            if (packageJson.dependencies) {
-                structure += "Key dependencies: " + Object.keys(packageJson.dependencies).filter(k => ['next', 'react', 'vue', 'angular', '@sveltejs/kit', 'cypress'].includes(k)).join(', ') + "\n";
-            }
-             if (packageJson.devDependencies) {
-                structure += "Key devDependencies: " + Object.keys(packageJson.devDependencies).filter(k => ['cypress'].includes(k)).join(', ') + "\n";
-            }
-        } catch (e: any) {
-            structure += `Could not parse package.json: ${e.message}\n`;
-            logOutput += `Warning: Could not parse package.json: ${e.message}\n`;
-        }
-      } else {
-        structure += "No package.json found at root.\n";
-      }
-
-      const commonDirs = ['src/app', 'app', 'src/pages', 'pages', 'src/components', 'components', 'src/routes', 'routes', 'cypress/e2e', 'cypress/integration'];
-      let filesFound = 0;
-      const maxFilesToList = 30; 
-
-      for (const dir of commonDirs) {
-        const fullDirPath = path.join(repoPath, dir);
-        if (fs.existsSync(fullDirPath)) {
-          structure += `\nDirectory: /${dir}\n`;
-          const items = fs.readdirSync(fullDirPath, { withFileTypes: true });
-          items.slice(0, maxFilesToList - filesFound).forEach(item => {
-            structure += `  - ${item.name}${item.isDirectory() ? '/' : ''}\n`;
-          });
-          filesFound += items.length;
-          if (items.length > (maxFilesToList - filesFound)) {
-            structure += `  ... (and more files/subdirectories)\n`;
-          }
-        }
-      }
-       if (filesFound === 0) {
-        structure += "\nNo common framework or test directories found. Listing root items:\n";
-        const rootItems = fs.readdirSync(repoPath, { withFileTypes: true });
-        rootItems.slice(0, maxFilesToList).forEach(item => {
-            structure += `  - ${item.name}${item.isDirectory() ? '/' : ''}\n`;
-        });
-        if (rootItems.length > maxFilesToList) {
-             structure += `  ... (and more files/subdirectories)\n`;
-        }
-      }
+      const {inventory, log} = analyzeRepository(repoPath);
+      logOutput += log;
+      const structure = `Repository structure analysis for path: ${repoPath}\n${renderInventory(inventory, tokenBudget)}`;
       logOutput += `Structure analysis complete. Summary generated.\n`;
-      return { structureSummary: structure, log: logOutput };
+      return { structureSummary: structure, inventory, log: logOutput };
     } catch (error: any) {
       logOutput += `Error reading repository structure: ${error.message || error.toString()}\n`;
       throw new Error(`Failed to read repository structure: ${error.message}. Log: ${logOutput}`);
@@ -142,86 +252,285 @@ const readRepositoryStructureTool = ai.defineTool(
   }
 );
 
+const CrawlAppInputSchema = z.object({
+  appUrl: z.string().url(),
+  maxPages: z.number().int().positive().optional(),
+});
+const CrawlAppOutputSchema = z.object({
+  appMap: AppMapSchema.optional(),
+  log: z.string(),
+});
+
+const crawlAppTool = ai.defineTool(
+  {
+    name: 'crawlAppTool',
+    description: 'Visits the running application in a headless browser, following same-origin links within a page budget, and records its pages, links, forms and accessible names.',
+    inputSchema: CrawlAppInputSchema,
+    outputSchema: CrawlAppOutputSchema,
+  },
+  async ({appUrl, maxPages}) => {
+    try {
+      const {map, log} = await crawlApp(appUrl, {maxPages});
+      return {appMap: map, log: log.split('\n').filter(Boolean).map(line => `[crawl] ${line}\n`).join('')};
+    } catch (error: any) {
+      // The analysis goes on from the code alone
+      return {log: `[crawl] Crawling ${appUrl} failed: ${error.message || error.toString()}\n`};
+    }
+  }
+);
+
 const IdentifyUserFlowsPromptInputSchema = IdentifyUserFlowsInputSchema.extend({
-    analyzedStructure: z.string().describe('A textual summary of the cloned repository\'s structure and key files.'),
+    analyzedStructure: z.string().describe('A textual inventory of the cloned repository\'s routes, forms, interactive elements and test ids.'),
+    app: z.string().optional().describe('The monorepo app being analyzed.'),
+    crawledApp: z.string().optional().describe('The pages of the running application, as rendered by the crawler.'),
 });
 
 const prompt = ai.definePrompt({
   name: 'identifyUserFlowsPrompt',
+  model: modelRefFor('identify'),
   input: {schema: IdentifyUserFlowsPromptInputSchema},
-  output: {schema: IdentifyUserFlowsOutputSchema.omit({analysisLog: true, clonedRepoPath: true})}, // LLM only returns flows
-  prompt: `You are an expert software analyst. Based on the provided repository structure analysis and optionally the application URL, identify and list potential user flows.
-  Focus on sequences of actions a user might take.
+  output: {schema: IdentifyUserFlowsOutputSchema.omit({analysisLog: true, clonedRepoPath: true, commit: true, workspace: true, model: true, appMap: true})}, // LLM only returns flows
+  prompt: `You are an expert software analyst. Based on the provided repository inventory and optionally the application URL, identify and list potential user flows.
+  Focus on sequences of actions a user might take. Use the routes, forms, buttons and links in the inventory to ground each flow in code that actually exists.
 
-  Repository URL (for context): {{{repoUrl}}}
+  {{#if repoUrl}}Repository URL (for context): {{{repoUrl}}}{{/if}}
   {{#if appUrl}}Application URL (for context): {{{appUrl}}}{{/if}}
+  {{#if app}}The repository is a monorepo and this is the inventory of its {{{app}}} app. Only list flows of this app; paths are relative to the app directory.{{/if}}
 
   Analyzed Repository Structure:
   {{{analyzedStructure}}}
+  {{#if crawledApp}}
+
+  Rendered Application (pages crawled from the application URL):
+  {{{crawledApp}}}
+
+  Prefer entry routes that were crawled, and describe steps with the forms, buttons and links these pages actually render.
+  {{/if}}
 
-  List the identified user flows. For example: "User Login", "Create New Product", "View Dashboard", "Update Profile Settings".
-  Return *only* the list of identified user flows as a JSON array of strings.
+  List the identified user flows, for example "User Login", "Create New Product", "View Dashboard", "Update Profile Settings".
+  For each flow return:
+  - id: a unique kebab-case identifier
+  - name and a short description
+  - steps: the ordered actions the user takes
+  - entryRoute: the route from the inventory where the flow starts
+  - preconditions and testData the test will need (empty arrays if none)
+  - priority: "high" for core business and authentication flows, "medium" or "low" otherwise
+  - suggestedTestType: "E2E" for multi-page journeys, "Component" for flows contained in a single component
+  - sourceFiles: the repository files from the inventory that implement the flow
   Example output:
   {
-    "identifiedFlows": ["User Login", "View Dashboard"]
+    "identifiedFlows": [{
+      "id": "user-login",
+      "name": "User Login",
+      "description": "A registered user signs in with email and password and lands on the dashboard.",
+      "steps": ["Open /login", "Fill in email and password", "Submit the login form", "See the dashboard"],
+      "entryRoute": "/login",
+      "preconditions": ["A registered user account exists"],
+      "testData": ["valid email and password"],
+      "priority": "high",
+      "suggestedTestType": "E2E",
+      "sourceFiles": ["src/app/login/page.tsx"]
+    }]
   }
   `,
 });
 
+// Makes ids unique (also against reservedIds) and drops source file references the model invented
+function normalizeFlows(flows: UserFlow[], repoPath: string, reservedIds: string[] = []): UserFlow[] {
+  const usedIds = new Set<string>(reservedIds);
+  return flows.map(flow => {
+    const baseId = toFlowId(flow.id || flow.name);
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+    return {
+      ...flow,
+      id,
+      steps: flow.steps || [],
+      preconditions: flow.preconditions || [],
+      testData: flow.testData || [],
+      sourceFiles: (flow.sourceFiles || []).filter(file => fs.existsSync(path.join(repoPath, flow.app || '', file))),
+    };
+  });
+}
+
+// Apps requested by the user must be workspace packages; without a request every web app is analyzed.
+// An empty result means the repository is analyzed as a single project.
+function selectApps(workspace: RepositoryWorkspace, requested: string[] | undefined): string[] {
+  const packagePaths = workspace.packages.map(pkg => pkg.path);
+  if (requested && requested.length > 0) {
+    const unknown = requested.filter(app => !packagePaths.includes(app));
+    if (unknown.length > 0) {
+      throw new Error(`Not a workspace package: ${unknown.join(', ')}. Packages: ${packagePaths.join(', ') || 'none'}.`);
+    }
+    return requested;
+  }
+  return workspace.packages.filter(pkg => pkg.kind === 'web-app').map(pkg => pkg.path);
+}
+
+// A workspace app is set up with the package manager its dependencies were installed with at the workspace root;
+// null means that install failed, so there is nothing to add Cypress to
+async function identifyFlowsInApp(input: IdentifyUserFlowsInput, appPath: string, app: string | undefined, crawledApp?: string, workspacePackageManager?: PackageManager | null): Promise<{ flows: UserFlow[]; log: string }> {
+  let log = app ? `--- Analyzing app ${app} ---\n` : '';
+  if (workspacePackageManager === null) {
+    log += '[cypress setup] Prepare Cypress project: skipped. The workspace dependencies could not be installed.\n';
+  } else {
+    const setupResult = await prepareCypressProjectTool({ repoPath: appPath, baseUrl: input.appUrl, skip: input.skipCypressSetup, workspacePackageManager });
+    log += setupResult.log;
+  }
+
+  const structureResult = await readRepositoryStructureTool({ repoPath: appPath });
+  log += structureResult.log;
+
+  log += `Identifying flows with ${modelFor('identify')}.\n`;
+  const {output} = await prompt({ ...input, analyzedStructure: structureResult.structureSummary, app, crawledApp });
+  if (!output) {
+    return { flows: [], log: log + "LLM returned no output.\n" };
+  }
+  let flows = output.identifiedFlows;
+  if (flows && !Array.isArray(flows)) {
+      log += "Warning: LLM returned non-array for identifiedFlows, ignoring it.\n";
+      flows = [];
+  } else if (!flows) {
+      flows = [];
+  }
+  return { flows: flows.map(flow => ({ ...flow, app })), log };
+}
+
 // This function contains the core logic for the flow
 async function internalIdentifyUserFlowsLogic(input: IdentifyUserFlowsInput): Promise<IdentifyUserFlowsOutput> {
-  let tempRepoPath: string | undefined;
   let fullAnalysisLog = "";
 
   try {
-    const cloneResult = await cloneRepositoryTool(input);
-    tempRepoPath = cloneResult.tempPath; // Store for returning
-    fullAnalysisLog += cloneResult.log;
+    const source = input.source ?? 'git';
+    if (source === 'git' && !input.repoUrl) {
+      throw new Error('A repository URL is required.');
+    }
+    if (source === 'local' && !input.localPath) {
+      throw new Error('A local directory is required.');
+    }
+    if (source === 'archive' && !input.uploadId && !input.projectId) {
+      throw new Error('Upload an archive to create the project from.');
+    }
+    const ref = source === 'git' ? input.ref?.trim() || undefined : undefined;
+    const projectRoot = normalizeProjectRoot(input.projectRoot);
+    const sparseCheckout = source === 'git' && !!projectRoot && !!input.sparseCheckout;
+    const partialClone = source === 'git' && !!input.partialClone;
+    let project = input.projectId ? getProject(input.projectId) : undefined;
+    if (input.projectId && !project) {
+      throw new Error(`Project not found: ${input.projectId}`);
+    }
+    if (project) {
+      project = updateProject(project.id, p => {
+        p.source = source;
+        p.repoUrl = input.repoUrl;
+        p.localPath = input.localPath;
+        p.archiveName = input.archiveName ?? p.archiveName;
+        p.appUrl = input.appUrl;
+        p.credentialProfileId = input.credentialProfileId;
+        p.ref = ref;
+        p.projectRoot = projectRoot;
+        p.sparseCheckout = sparseCheckout;
+        p.partialClone = partialClone;
+        // Marked as used before stale clones are collected, so an idle project's own clone is not removed
+        p.lastUsedAt = new Date().toISOString();
+      });
+      fullAnalysisLog += `Re-analyzing project "${project.name}" (${project.id}).\n`;
+    } else {
+      const location = input.repoUrl?.replace(/\.git$/, '') ?? input.localPath ?? input.archiveName?.replace(/(\.tar\.gz|\.tgz|\.tar|\.zip)$/i, '') ?? '';
+      const repoName = location.split(/[\\/]/).filter(Boolean).pop() || 'project';
+      project = createProject({ name: input.projectName || repoName, source, repoUrl: input.repoUrl, localPath: input.localPath, archiveName: input.archiveName, appUrl: input.appUrl, credentialProfileId: input.credentialProfileId, ref, projectRoot, sparseCheckout, partialClone });
+      fullAnalysisLog += `Created project "${project.name}" (${project.id}).\n`;
+    }
 
-    const structureResult = await readRepositoryStructureTool({ repoPath: tempRepoPath });
-    fullAnalysisLog += structureResult.log;
+    const gcResult = collectStaleClones();
+    if (gcResult.removed.length > 0) {
+      fullAnalysisLog += gcResult.log;
+    }
 
-    const promptInput = {
-      ...input,
-      analyzedStructure: structureResult.structureSummary,
-    };
+    let commit: string | undefined;
+    let codePath: string;
+    if (source === 'git') {
+      const syncResult = await syncRepositoryTool({ repoUrl: input.repoUrl!, clonePath: project.clonePath, credentialProfileId: input.credentialProfileId, ref, sparsePaths: sparseCheckout ? [projectRoot!] : [], partial: partialClone });
+      fullAnalysisLog += syncResult.log;
+      commit = syncResult.commit;
+      codePath = syncResult.clonePath;
+    } else {
+      const loadResult = await loadProjectSourceTool({ source, clonePath: project.clonePath, localPath: input.localPath, uploadId: input.uploadId });
+      fullAnalysisLog += loadResult.log;
+      codePath = loadResult.clonePath;
+    }
+    updateProject(project.id, p => {
+      p.lastUsedAt = new Date().toISOString();
+      p.commit = commit;
+    });
 
-    const {output} = await prompt(promptInput);
-    
-    // On success, DO NOT clean up tempRepoPath. It will be returned.
-    // Cleanup will only happen if an error occurs within this flow.
-    
-    if (!output) {
-      // If LLM fails, still cleanup tempRepoPath as it's not useful.
-      if (tempRepoPath && fs.existsSync(tempRepoPath)) {
-        fs.rmSync(tempRepoPath, { recursive: true, force: true });
-        fullAnalysisLog += `Cleaned up temporary directory due to LLM returning no output: ${tempRepoPath}\n`;
-        tempRepoPath = undefined; // Clear the path
-      }
-      return { identifiedFlows: [], analysisLog: fullAnalysisLog + "LLM returned no output.", clonedRepoPath: tempRepoPath };
+    // Setup, analysis and Cypress runs all work inside the project root
+    const repoPath = projectRoot ? path.join(codePath, projectRoot) : codePath;
+    if (!fs.existsSync(repoPath) || !fs.statSync(repoPath).isDirectory()) {
+      throw new Error(`Project root "${projectRoot}" does not exist in the ${commit ? `repository at ${commit}` : 'project'}.`);
+    }
+    if (projectRoot) {
+      fullAnalysisLog += `Using ${projectRoot} as the project root.\n`;
+    }
+
+    const workspaceResult = await detectWorkspaceTool({ repoPath });
+    fullAnalysisLog += workspaceResult.log;
+    const {workspace} = workspaceResult;
+    const apps = selectApps(workspace, input.appPaths);
+    if (workspace.tools.length > 0) {
+      fullAnalysisLog += apps.length > 0 ? `Analyzing apps: ${apps.join(', ')}.\n` : 'No web app found in the workspace; analyzing the repository as a whole.\n';
+    }
+
+    let appMap: AppMap | undefined;
+    if (input.crawlApp && input.appUrl) {
+      const crawlResult = await crawlAppTool({ appUrl: input.appUrl, maxPages: input.crawlMaxPages });
+      fullAnalysisLog += crawlResult.log;
+      appMap = crawlResult.appMap;
+    } else if (input.crawlApp) {
+      fullAnalysisLog += '[crawl] No application URL to crawl.\n';
+    }
+    const crawledApp = appMap && appMap.pages.length > 0 ? renderAppMap(appMap) : undefined;
+
+    // Workspace apps have no lockfile of their own; their dependencies are installed once, at the root
+    let workspacePackageManager: PackageManager | null | undefined;
+    if (apps.length > 0 && !input.skipCypressSetup) {
+      const installResult = await installWorkspaceDependenciesTool({ repoPath });
+      fullAnalysisLog += installResult.log;
+      workspacePackageManager = installResult.packageManager ?? null;
     }
 
-    let flows = output.identifiedFlows;
-    if (flows && !Array.isArray(flows)) {
-        fullAnalysisLog += "Warning: LLM returned non-array for identifiedFlows, attempting to adapt.\n";
-        if (typeof flows === 'string') {
-            flows = (flows as string).split(/,|\n/).map(s => s.trim()).filter(s => s.length > 0);
-        } else {
-            flows = [];
-        }
-    } else if (!flows) {
-        flows = [];
+    let newFlows: UserFlow[] = [];
+    for (const app of apps.length > 0 ? apps : [undefined]) {
+      const appResult = await identifyFlowsInApp(input, app ? path.join(repoPath, app) : repoPath, app, crawledApp, workspacePackageManager);
+      fullAnalysisLog += appResult.log;
+      newFlows.push(...appResult.flows);
     }
-    
-    return { identifiedFlows: flows, analysisLog: fullAnalysisLog, clonedRepoPath: tempRepoPath };
+
+    // Flows of apps that were not re-analyzed this time are kept
+    const packagePaths = workspace.packages.map(pkg => pkg.path);
+    const keptFlows = apps.length > 0
+      ? project.identifiedFlows.filter(flow => flow.app && !apps.includes(flow.app) && packagePaths.includes(flow.app))
+      : [];
+    newFlows = normalizeFlows(newFlows, repoPath, keptFlows.map(flow => flow.id));
+    const flows = [...keptFlows, ...newFlows];
+    updateProject(project.id, p => {
+      p.identifiedFlows = flows;
+      p.workspace = workspace.tools.length > 0 ? workspace : undefined;
+      p.appPaths = input.appPaths && input.appPaths.length > 0 ? input.appPaths : undefined;
+      p.lastAnalyzedAt = new Date().toISOString();
+      p.identifiedFlowsModel = modelFor('identify');
+      // A map from an earlier crawl is kept when this analysis did not crawl
+      p.appMap = appMap ?? p.appMap;
+    });
+
+    // The clone stays in the project workspace; stale clones are removed by collectStaleClones.
+    return { identifiedFlows: flows, analysisLog: fullAnalysisLog, clonedRepoPath: repoPath, projectId: project.id, commit, workspace: workspace.tools.length > 0 ? workspace : undefined, model: modelFor('identify'), appMap };
 
   } catch (error: any) {
     fullAnalysisLog += `Error in identifyUserFlows flow: ${error.message || error.toString()}\n`;
-    // Clean up temp directory if an error occurred anywhere in the try block
-    if (tempRepoPath && fs.existsSync(tempRepoPath)) {
-      fs.rmSync(tempRepoPath, { recursive: true, force: true });
-      fullAnalysisLog += `Cleaned up temporary directory due to error: ${tempRepoPath}\n`;
-    }
     console.error("Identify User Flows Error:", fullAnalysisLog, error);
     throw new Error(`Failed to identify user flows. Details: ${error.message}. Log: ${fullAnalysisLog}`);
   }
@@ -232,7 +541,7 @@ const actualRegisteredFlow = ai.defineFlow(
     name: 'identifyUserFlowsFlow',
     inputSchema: IdentifyUserFlowsInputSchema,
     outputSchema: IdentifyUserFlowsOutputSchema,
-    tools: [cloneRepositoryTool, readRepositoryStructureTool], // Tools are available to the flow execution
+    tools: [syncRepositoryTool, loadProjectSourceTool, detectWorkspaceTool, prepareCypressProjectTool, readRepositoryStructureTool, crawlAppTool], // Tools are available to the flow execution
   },
   internalIdentifyUserFlowsLogic // Pass the function containing the logic
 );
@@ -0,0 +1,126 @@
+'use server';
+/**
+ * @fileOverview Server-side project workspace operations for the UI.
+ *
+ * - listProjects - Lists persisted projects, most recently updated first.
+ * - getProject - Loads a project with its flows, specs and run history.
+ * - deleteProject - Deletes a project and its clone.
+ * - saveProjectSpecs - Stores generated or repaired specs on a project.
+ * - saveProjectSelectorPolicy - Stores the selector policy generated specs of a project follow.
+ * - collectStaleClones - Removes clones that no project uses or that have not been used within the TTL.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {ProjectSchema, ProjectSpecSchema, ProjectSummarySchema, type Project, type ProjectSummary} from '@/ai/schemas/project';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+import * as projectStore from '@/ai/projects/project-store';
+
+const ProjectIdInputSchema = z.object({
+  projectId: z.string().describe('The project id.'),
+});
+export type ProjectIdInput = z.infer<typeof ProjectIdInputSchema>;
+
+const SaveProjectSpecsInputSchema = z.object({
+  projectId: z.string().describe('The project id.'),
+  specs: z.array(ProjectSpecSchema.omit({updatedAt: true})).describe('Specs to add or replace (one per flow and test type).'),
+});
+export type SaveProjectSpecsInput = z.infer<typeof SaveProjectSpecsInputSchema>;
+
+const SaveProjectSelectorPolicyInputSchema = z.object({
+  projectId: z.string().describe('The project id.'),
+  selectorPolicy: SelectorPolicySchema,
+});
+export type SaveProjectSelectorPolicyInput = z.infer<typeof SaveProjectSelectorPolicyInputSchema>;
+
+const CollectStaleClonesInputSchema = z.object({
+  maxAgeDays: z.number().positive().optional().describe('Remove clones unused for longer than this. Defaults to CYPRESS_PILOT_CLONE_TTL_DAYS or 14.'),
+});
+
+const CollectStaleClonesOutputSchema = z.object({
+  removed: z.array(z.string()),
+  log: z.string(),
+});
+export type CollectStaleClonesOutput = z.infer<typeof CollectStaleClonesOutputSchema>;
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  return listProjectsFlow();
+}
+
+export async function getProject(input: ProjectIdInput): Promise<Project | null> {
+  return (await getProjectFlow(input)).project ?? null;
+}
+
+export async function deleteProject(input: ProjectIdInput): Promise<void> {
+  await deleteProjectFlow(input);
+}
+
+export async function saveProjectSpecs(input: SaveProjectSpecsInput): Promise<void> {
+  await saveProjectSpecsFlow(input);
+}
+
+export async function saveProjectSelectorPolicy(input: SaveProjectSelectorPolicyInput): Promise<void> {
+  await saveProjectSelectorPolicyFlow(input);
+}
+
+export async function collectStaleClones(input: {maxAgeDays?: number} = {}): Promise<CollectStaleClonesOutput> {
+  return collectStaleClonesFlow(input);
+}
+
+const listProjectsFlow = ai.defineFlow(
+  {
+    name: 'listProjectsFlow',
+    outputSchema: z.array(ProjectSummarySchema),
+  },
+  async () => projectStore.listProjects()
+);
+
+const getProjectFlow = ai.defineFlow(
+  {
+    name: 'getProjectFlow',
+    inputSchema: ProjectIdInputSchema,
+    outputSchema: z.object({project: ProjectSchema.optional()}),
+  },
+  async ({projectId}) => ({project: projectStore.getProject(projectId)})
+);
+
+const deleteProjectFlow = ai.defineFlow(
+  {
+    name: 'deleteProjectFlow',
+    inputSchema: ProjectIdInputSchema,
+  },
+  async ({projectId}) => {
+    projectStore.deleteProject(projectId);
+  }
+);
+
+const saveProjectSpecsFlow = ai.defineFlow(
+  {
+    name: 'saveProjectSpecsFlow',
+    inputSchema: SaveProjectSpecsInputSchema,
+  },
+  async ({projectId, specs}) => {
+    projectStore.upsertProjectSpecs(projectId, specs);
+  }
+);
+
+const saveProjectSelectorPolicyFlow = ai.defineFlow(
+  {
+    name: 'saveProjectSelectorPolicyFlow',
+    inputSchema: SaveProjectSelectorPolicyInputSchema,
+  },
+  async ({projectId, selectorPolicy}) => {
+    projectStore.updateProject(projectId, project => {
+      project.selectorPolicy = selectorPolicy;
+    });
+  }
+);
+
+const collectStaleClonesFlow = ai.defineFlow(
+  {
+    name: 'collectStaleClonesFlow',
+    inputSchema: CollectStaleClonesInputSchema,
+    outputSchema: CollectStaleClonesOutputSchema,
+  },
+  async ({maxAgeDays}) => projectStore.collectStaleClones({maxAgeDays})
+);
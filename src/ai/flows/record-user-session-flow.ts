@@ -0,0 +1,47 @@
+'use server';
+/**
+ * @fileOverview Records a user session in a browser window opened at the App URL on the machine running the server.
+ *
+ * - recordUserSession - Opens the window and streams every recorded event while the user works through the flow
+ *   (see /api/session-recording). The flow finishes with the whole recording when the window is closed.
+ * - RecordUserSessionInput - Input type for the flow.
+ * - RecordUserSessionOutput - Output type for the flow.
+ * - SessionRecordingChunk - A streamed event or log line.
+ */
+
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import { RecordedEventSchema, SessionRecordingSchema } from '@/ai/schemas/session-recording';
+import { recordSession } from '@/ai/analysis/session-recorder';
+
+const RecordUserSessionInputSchema = z.object({
+  appUrl: z.string().url().describe('The URL the browser window opens at.'),
+  maxDurationMinutes: z.number().int().min(1).max(120).optional().describe('The recording stops after this long even if the window stays open. Defaults to 30.'),
+});
+export type RecordUserSessionInput = z.infer<typeof RecordUserSessionInputSchema>;
+
+const RecordUserSessionOutputSchema = z.object({
+  recording: SessionRecordingSchema,
+  log: z.string(),
+});
+export type RecordUserSessionOutput = z.infer<typeof RecordUserSessionOutputSchema>;
+
+const SessionRecordingChunkSchema = z.object({
+  event: RecordedEventSchema.optional().describe('An event as soon as it is recorded.'),
+  text: z.string().optional().describe('A progress note from the recorder.'),
+});
+export type SessionRecordingChunk = z.infer<typeof SessionRecordingChunkSchema>;
+
+export const recordUserSession = ai.defineFlow(
+  {
+    name: 'recordUserSessionFlow',
+    inputSchema: RecordUserSessionInputSchema,
+    outputSchema: RecordUserSessionOutputSchema,
+    streamSchema: SessionRecordingChunkSchema,
+  },
+  async ({ appUrl, maxDurationMinutes }, { sendChunk }) => recordSession(appUrl, {
+    maxDurationMs: maxDurationMinutes ? maxDurationMinutes * 60_000 : undefined,
+    onEvent: event => sendChunk({ event }),
+    onLog: text => sendChunk({ text }),
+  })
+);
@@ -0,0 +1,253 @@
+'use server';
+/**
+ * @fileOverview Repairs a failing Cypress spec by feeding the failed run back to the model and re-running it.
+ *
+ * Each attempt sends the current spec, the failing tests' errors and the most relevant source files of the
+ * cloned repository to the model, saves and runs the corrected spec, and stops as soon as the run passes or
+ * the configured number of attempts is used up. Every attempt's diff and run result is returned. A corrected spec
+ * that fails the static validation, including the selector policy, is not run: the attempt is marked validation_failed,
+ * its problems are sent back to the model as the next failure report, and the spec to repair stays the last one that
+ * could be run.
+ *
+ * - repairCypressTest - A function that runs the self-healing loop for a failed spec.
+ * - RepairCypressTestInput - The input type for the repairCypressTest function.
+ * - RepairCypressTestOutput - The return type for the repairCypressTest function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {modelFor, modelRefFor} from '@/ai/model-config';
+import {z} from 'genkit';
+import {CypressRunResultsSchema, type CypressRunResults} from '@/ai/schemas/cypress-run-results';
+import {extractSearchTerms, findRelevantSourceFiles} from '@/ai/analysis/relevant-source-files';
+import {executeCypressRunHeadless, type ExecuteCypressRunHeadlessOutput} from '@/ai/flows/execute-cypress-run-headless-flow';
+import {createUnifiedDiff} from '@/lib/diff';
+import {formatValidationIssues, validateSpec} from '@/ai/cypress/spec-validation';
+import {renderSelectorPolicy} from '@/ai/cypress/selector-policy';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+import {DEFAULT_SELECTOR_POLICY} from '@/lib/constants';
+
+const FailedRunSchema = z.object({
+  message: z.string().describe('Outcome message of the failed run.'),
+  runSummary: z.string().optional().describe('Human-readable summary of the failed run.'),
+  results: CypressRunResultsSchema.optional().describe('Structured results of the failed run, if Cypress reported any.'),
+});
+
+const RepairCypressTestInputSchema = z.object({
+  testCode: z.string().describe('The Cypress spec that failed.'),
+  flowDescription: z.string().describe('The user flow the spec is meant to cover.'),
+  testType: z.enum(['E2E', 'Component']).describe('The type of the spec: E2E or Component.'),
+  applicationDetails: z.string().describe('Details about the application including the App URL and repository URL.'),
+  repoPath: z.string().describe('The absolute local path to the cloned repository (Cypress project root).'),
+  specFileName: z.string().describe('The file name the spec is saved under, e.g., "user-login.cy.ts".'),
+  specRelativePath: z.string().optional().describe('Where the spec is saved, relative to the repository root (Component specs). Defaults to cypress/e2e/<specFileName>.'),
+  startAppServer: z.boolean().optional().describe('Start the application from the repository for each re-run (E2E only).'),
+  projectId: z.string().optional().describe('Project whose run history the re-runs are recorded in.'),
+  failedRun: FailedRunSchema.describe('The result of the run that failed.'),
+  maxAttempts: z.number().int().min(1).max(5).optional().describe('Maximum number of repair attempts. Defaults to 3.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('How the corrected spec selects elements. Defaults to data-cy/data-testid, then role or label, then text.'),
+});
+export type RepairCypressTestInput = z.infer<typeof RepairCypressTestInputSchema>;
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 3;
+
+const RepairAttemptSchema = z.object({
+  attempt: z.number().describe('1-based attempt number.'),
+  testCode: z.string().describe('The spec proposed by the model in this attempt.'),
+  explanation: z.string().describe('The model\'s explanation of what it changed.'),
+  model: z.string().describe('The model that proposed the spec.'),
+  diff: z.string().describe('Unified diff from the previous spec to this attempt\'s spec.'),
+  sourceFiles: z.array(z.string()).describe('Repository files given to the model as context.'),
+  run: z.object({
+    status: z.enum(['completed_successfully', 'completed_with_failures', 'error_running', 'error_saving_file', 'validation_failed']),
+    message: z.string(),
+    runSummary: z.string().optional(),
+    results: CypressRunResultsSchema.optional(),
+  }).describe('Result of running this attempt\'s spec; validation_failed when the spec was rejected before it was run.'),
+});
+export type RepairAttempt = z.infer<typeof RepairAttemptSchema>;
+
+const RepairCypressTestOutputSchema = z.object({
+  status: z.enum(['repaired', 'still_failing', 'error']).describe('Whether an attempt passed, all attempts failed, or the loop had to stop.'),
+  message: z.string().describe('A message detailing the outcome.'),
+  finalTestCode: z.string().describe('The spec from the last attempt that passed validation, or the original spec if there was none.'),
+  attempts: z.array(RepairAttemptSchema),
+});
+export type RepairCypressTestOutput = z.infer<typeof RepairCypressTestOutputSchema>;
+
+export async function repairCypressTest(input: RepairCypressTestInput): Promise<RepairCypressTestOutput> {
+  return repairCypressTestFlow(input);
+}
+
+const RepairPromptInputSchema = z.object({
+  testCode: z.string(),
+  flowDescription: z.string(),
+  testType: z.enum(['E2E', 'Component']),
+  applicationDetails: z.string(),
+  specFileName: z.string(),
+  failureReport: z.string(),
+  sourceFiles: z.array(z.object({path: z.string(), content: z.string()})),
+  selectorRules: z.string(),
+});
+
+const RepairPromptOutputSchema = z.object({
+  testCode: z.string().describe('The complete corrected Cypress spec.'),
+  explanation: z.string().describe('A short explanation of what was changed and why.'),
+});
+
+const prompt = ai.definePrompt({
+  name: 'repairCypressTestPrompt',
+  model: modelRefFor('repair'),
+  input: {schema: RepairPromptInputSchema},
+  output: {schema: RepairPromptOutputSchema},
+  prompt: `You are an expert Cypress test engineer. The Cypress spec below failed when it was run against the application. Fix it.
+
+  User Flow Description: {{{flowDescription}}}
+  Test Type: {{{testType}}}
+  Application Details (App URL, Repo URL): {{{applicationDetails}}}
+
+  Current spec ({{{specFileName}}}):
+  \`\`\`
+  {{{testCode}}}
+  \`\`\`
+
+  Failures reported by the last run:
+  {{{failureReport}}}
+
+  {{#if sourceFiles}}
+  Relevant source files from the repository:
+  {{#each sourceFiles}}
+  --- {{{this.path}}} ---
+  {{{this.content}}}
+  {{/each}}
+  {{/if}}
+
+  Rules:
+  - Keep covering the same user flow; do not delete tests or assertions just to make the run pass.
+  - Only target elements that exist in the source files above.
+  - Do not use .only, fixed-time waits such as cy.wait(1000) or { force: true } to get past a failure.
+  - Return the complete corrected spec in testCode, without markdown fences, and a short explanation of the changes.
+
+  {{{selectorRules}}}
+  `,
+});
+
+function buildFailureReport(run: {message: string; runSummary?: string; results?: CypressRunResults}): string {
+  if (!run.results) {
+    return `${run.message}\n${run.runSummary || ''}`.trim();
+  }
+  let report = '';
+  for (const spec of run.results.specs) {
+    if (spec.error) {
+      report += `Spec error in ${spec.spec}:\n${spec.error}\n\n`;
+    }
+    for (const test of spec.tests.filter(t => t.state === 'failed')) {
+      const stackHead = (test.errorStack || '').split('\n').filter(line => /^\s+at /.test(line)).slice(0, 3).join('\n');
+      report += `Test "${test.titlePath.join(' > ')}" failed:\n${test.errorMessage || 'Unknown error'}\n${stackHead}\n\n`;
+    }
+  }
+  return report.trim() || `${run.message}\n${run.runSummary || ''}`.trim();
+}
+
+async function repairCypressTestLogic(input: RepairCypressTestInput): Promise<RepairCypressTestOutput> {
+  const maxAttempts = input.maxAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const attempts: RepairAttempt[] = [];
+  let currentCode = input.testCode;
+  let failureReport = buildFailureReport(input.failedRun);
+  const selectorPolicy = input.selectorPolicy || DEFAULT_SELECTOR_POLICY;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const searchTerms = extractSearchTerms(currentCode, failureReport);
+    const sourceFiles = findRelevantSourceFiles(input.repoPath, searchTerms);
+
+    const {output} = await prompt({
+      testCode: currentCode,
+      flowDescription: input.flowDescription,
+      testType: input.testType,
+      applicationDetails: input.applicationDetails,
+      specFileName: input.specFileName,
+      failureReport,
+      sourceFiles: sourceFiles.map(({path, content}) => ({path, content})),
+      selectorRules: renderSelectorPolicy(selectorPolicy),
+    });
+    if (!output) {
+      return {
+        status: 'error',
+        message: `The model returned no corrected spec in attempt ${attempt}.`,
+        finalTestCode: currentCode,
+        attempts,
+      };
+    }
+
+    const {code: testCode, issues} = validateSpec(output.testCode, input.specRelativePath || input.specFileName, selectorPolicy);
+    const validationErrors = issues.filter(issue => issue.severity === 'error');
+    if (validationErrors.length > 0) {
+      const rejection = `The corrected spec was rejected by static validation before it was run:\n${formatValidationIssues(validationErrors)}`;
+      failureReport = `${rejection}\n\nRejected spec:\n${testCode}`;
+      attempts.push({
+        attempt,
+        testCode,
+        explanation: output.explanation,
+        model: modelFor('repair'),
+        diff: createUnifiedDiff(currentCode, testCode, input.specFileName),
+        sourceFiles: sourceFiles.map(file => file.path),
+        run: {status: 'validation_failed', message: rejection},
+      });
+      continue;
+    }
+
+    const run: ExecuteCypressRunHeadlessOutput = await executeCypressRunHeadless({
+      testCode,
+      repoPath: input.repoPath,
+      specFileName: input.specFileName,
+      specRelativePath: input.specRelativePath,
+      testType: input.testType,
+      startAppServer: input.startAppServer,
+      projectId: input.projectId,
+    });
+    attempts.push({
+      attempt,
+      testCode,
+      explanation: output.explanation,
+      model: modelFor('repair'),
+      diff: createUnifiedDiff(currentCode, testCode, input.specFileName),
+      sourceFiles: sourceFiles.map(file => file.path),
+      run: {status: run.status, message: run.message, runSummary: run.runSummary, results: run.results},
+    });
+    currentCode = testCode;
+
+    if (run.status === 'completed_successfully') {
+      return {
+        status: 'repaired',
+        message: `The spec passed after ${attempt} repair attempt(s).`,
+        finalTestCode: currentCode,
+        attempts,
+      };
+    }
+    if (run.status === 'error_running' || run.status === 'error_saving_file') {
+      // Environment problems (missing Xvfb, Cypress not installed, ...) cannot be fixed by changing the spec.
+      return {
+        status: 'error',
+        message: `Stopped after attempt ${attempt}: the spec could not be run. ${run.message}`,
+        finalTestCode: currentCode,
+        attempts,
+      };
+    }
+    failureReport = buildFailureReport(run);
+  }
+
+  return {
+    status: 'still_failing',
+    message: `The spec is still failing after ${maxAttempts} repair attempt(s).`,
+    finalTestCode: currentCode,
+    attempts,
+  };
+}
+
+const repairCypressTestFlow = ai.defineFlow(
+  {
+    name: 'repairCypressTestFlow',
+    inputSchema: RepairCypressTestInputSchema,
+    outputSchema: RepairCypressTestOutputSchema,
+  },
+  repairCypressTestLogic
+);
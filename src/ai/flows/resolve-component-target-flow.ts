@@ -0,0 +1,39 @@
+'use server';
+/**
+ * @fileOverview Locates the component a Component test for a user flow should mount.
+ *
+ * - resolveComponentTarget - A function that resolves the component file, export, props, providers and spec path.
+ * - ResolveComponentTargetInput - The input type for the resolveComponentTarget function.
+ * - ResolveComponentTargetOutput - The return type for the resolveComponentTarget function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {ComponentTestTargetSchema} from '@/ai/schemas/component-test-target';
+import {resolveComponentTestTarget} from '@/ai/analysis/component-locator';
+
+const ResolveComponentTargetInputSchema = z.object({
+  repoPath: z.string().describe('The absolute local path to the cloned repository.'),
+  flow: UserFlowSchema.describe('The user flow to test at the component level.'),
+});
+export type ResolveComponentTargetInput = z.infer<typeof ResolveComponentTargetInputSchema>;
+
+const ResolveComponentTargetOutputSchema = z.object({
+  target: ComponentTestTargetSchema.optional().describe('The resolved component, if one was found.'),
+  error: z.string().optional().describe('Why no component could be resolved.'),
+});
+export type ResolveComponentTargetOutput = z.infer<typeof ResolveComponentTargetOutputSchema>;
+
+export async function resolveComponentTarget(input: ResolveComponentTargetInput): Promise<ResolveComponentTargetOutput> {
+  return resolveComponentTargetFlow(input);
+}
+
+const resolveComponentTargetFlow = ai.defineFlow(
+  {
+    name: 'resolveComponentTargetFlow',
+    inputSchema: ResolveComponentTargetInputSchema,
+    outputSchema: ResolveComponentTargetOutputSchema,
+  },
+  async ({repoPath, flow}) => resolveComponentTestTarget(repoPath, flow)
+);
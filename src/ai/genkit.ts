@@ -1,7 +1,7 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {modelPlugins, modelRefFor} from '@/ai/model-config';
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: modelPlugins(),
+  model: modelRefFor('generate'),
 });
@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Chooses the model of each task and the Genkit plugins those models need.
+ *
+ * Models are configured as "<provider>/<model>" ids:
+ * - CYPRESS_PILOT_MODEL - Default model for every task. Defaults to googleai/gemini-2.0-flash.
+ * - CYPRESS_PILOT_IDENTIFY_MODEL, CYPRESS_PILOT_GENERATE_MODEL, CYPRESS_PILOT_REPAIR_MODEL - Per-task overrides,
+ *   e.g. a cheap model for flow identification and a stronger one for generation and repair.
+ *
+ * Only the providers of configured models are loaded; each reads its usual environment variables:
+ * - googleai - Gemini through Google AI (GOOGLE_API_KEY or GEMINI_API_KEY).
+ * - openai - OpenAI or any OpenAI-compatible endpoint (OPENAI_API_KEY, OPENAI_BASE_URL). Models the plugin
+ *   does not know, e.g. "openai/deepseek-chat" on a compatible endpoint, are registered as generic chat models.
+ * - anthropic - Claude (ANTHROPIC_API_KEY), e.g. "anthropic/claude-3-7-sonnet".
+ * - ollama - A local Ollama server (OLLAMA_HOST, default http://127.0.0.1:11434) through its OpenAI-compatible
+ *   API, e.g. "ollama/llama3.1". It shares the openai plugin, so openai and ollama models cannot be mixed.
+ *
+ * In record and replay mode (CYPRESS_PILOT_MODEL_MODE, see model-replay.ts) prompts use the stand-in models of
+ * modelReplayPlugin instead; replay mode loads no provider at all.
+ *
+ * - modelFor - The configured model id of a task, as recorded on the artifacts it produces.
+ * - modelRefFor - The registered Genkit model name for a task, for prompts.
+ * - modelPlugins - The Genkit plugins for the providers of the configured models.
+ */
+
+import type {GenkitPlugin} from 'genkit/plugin';
+import {GenerationCommonConfigSchema} from 'genkit';
+import {googleAI} from '@genkit-ai/googleai';
+import {anthropic} from 'genkitx-anthropic';
+import {
+  openAI, gpt35Turbo, gpt4, gpt41, gpt41Mini, gpt41Nano, gpt45, gpt4Turbo, gpt4Vision, gpt4o, gpt4oMini, o1, o1Mini, o1Preview, o3, o3Mini, o4Mini,
+} from 'genkitx-openai';
+import {modelMode, modelReplayPlugin, replayModelName} from '@/ai/model-replay';
+
+export type ModelTask = 'identify' | 'generate' | 'repair';
+
+const DEFAULT_MODEL = 'googleai/gemini-2.0-flash';
+const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+const PROVIDERS = ['googleai', 'openai', 'anthropic', 'ollama'] as const;
+type Provider = (typeof PROVIDERS)[number];
+
+const TASK_VARIABLES: Record<ModelTask, string> = {
+  identify: 'CYPRESS_PILOT_IDENTIFY_MODEL',
+  generate: 'CYPRESS_PILOT_GENERATE_MODEL',
+  repair: 'CYPRESS_PILOT_REPAIR_MODEL',
+};
+
+const BUILT_IN_OPENAI_MODELS = new Set([gpt35Turbo, gpt4, gpt41, gpt41Mini, gpt41Nano, gpt45, gpt4Turbo, gpt4Vision, gpt4o, gpt4oMini, o1, o1Mini, o1Preview, o3, o3Mini, o4Mini]
+  .map(ref => ref.name));
+
+// The variable the task's model comes from, so configuration errors point at the right one
+function modelVariable(task: ModelTask): string {
+  if (process.env[TASK_VARIABLES[task]]?.trim()) return TASK_VARIABLES[task];
+  return process.env.CYPRESS_PILOT_MODEL?.trim() ? 'CYPRESS_PILOT_MODEL' : 'the default model';
+}
+
+function parseModelId(modelId: string, variable: string): { provider: Provider; name: string } {
+  const [provider, ...rest] = modelId.split('/');
+  const name = rest.join('/');
+  if (!PROVIDERS.includes(provider as Provider) || !name) {
+    throw new Error(`${variable} must be "<provider>/<model>" with provider ${PROVIDERS.join(', ')}; got "${modelId}".`);
+  }
+  return {provider: provider as Provider, name};
+}
+
+function configuredModel(task: ModelTask): string {
+  return process.env[TASK_VARIABLES[task]]?.trim() || process.env.CYPRESS_PILOT_MODEL?.trim() || DEFAULT_MODEL;
+}
+
+// Ollama models are served by the openai plugin, which registers everything under "openai/"
+function providerModelRef(task: ModelTask): string {
+  const {provider, name} = parseModelId(configuredModel(task), modelVariable(task));
+  return provider === 'ollama' ? `openai/${name}` : `${provider}/${name}`;
+}
+
+export function modelFor(task: ModelTask): string {
+  return modelMode() === 'replay' ? `${configuredModel(task)} (replayed)` : configuredModel(task);
+}
+
+export function modelRefFor(task: ModelTask): string {
+  return modelMode() === 'live' ? providerModelRef(task) : replayModelName(task);
+}
+
+export function modelPlugins(): GenkitPlugin[] {
+  const tasks = Object.keys(TASK_VARIABLES) as ModelTask[];
+  const mode = modelMode();
+  if (mode === 'replay') {
+    return [modelReplayPlugin(tasks, mode, task => ({id: configuredModel(task), ref: providerModelRef(task)}))];
+  }
+
+  const models = tasks.map(task => parseModelId(configuredModel(task), modelVariable(task)));
+  const providers = new Set(models.map(model => model.provider));
+  if (providers.has('openai') && providers.has('ollama')) {
+    throw new Error('openai and ollama models cannot be configured together: both use the OpenAI-compatible plugin.');
+  }
+
+  const plugins: GenkitPlugin[] = [];
+  if (providers.has('googleai')) plugins.push(googleAI());
+  if (providers.has('anthropic')) plugins.push(anthropic());
+  if (providers.has('openai') || providers.has('ollama')) {
+    const customModels = [...new Set(models.filter(model => model.provider === 'openai' || model.provider === 'ollama').map(model => model.name))]
+      .filter(name => !BUILT_IN_OPENAI_MODELS.has(`openai/${name}`))
+      .map(name => ({
+        name,
+        info: {label: name, supports: {multiturn: true, tools: true, systemRole: true, media: false, output: ['text', 'json']}},
+        configSchema: GenerationCommonConfigSchema,
+      }));
+    plugins.push(providers.has('ollama')
+      ? openAI({baseURL: `${(process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST).replace(/\/+$/, '')}/v1`, apiKey: 'ollama', models: customModels})
+      : openAI({models: customModels}));
+  }
+  if (mode === 'record') {
+    plugins.push(modelReplayPlugin(tasks, mode, task => ({id: configuredModel(task), ref: providerModelRef(task)})));
+  }
+  return plugins;
+}
@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { GenerateRequest } from 'genkit/model';
+import { requestFixtureKey } from '@/ai/model-replay';
+import { identifyUserFlows } from '@/ai/flows/identify-user-flows-flow';
+import { generateCypressTest } from '@/ai/flows/generate-cypress-test';
+import { repairCypressTest } from '@/ai/flows/repair-cypress-test-flow';
+import { formatUserFlow } from '@/lib/user-flows';
+import { updateProject } from '@/ai/projects/project-store';
+
+// The repaired spec is "run" without Cypress; everything else goes through the real flows and the fixtures
+const { executeCypressRunHeadless } = vi.hoisted(() => ({ executeCypressRunHeadless: vi.fn() }));
+vi.mock('@/ai/flows/execute-cypress-run-headless-flow', () => ({ executeCypressRunHeadless }));
+
+// The fixtures in fixtures/model were recorded for this repository; changing it changes the prompts
+const shopApp = {
+  'package.json': JSON.stringify({ name: 'shop', dependencies: { next: '15.0.0', react: '19.0.0' }, devDependencies: { cypress: '13.0.0' } }),
+  'src/app/page.tsx': `export default function Home() {
+  return <a href="/login">Sign in</a>;
+}
+`,
+  'src/app/login/page.tsx': `export default function Login() {
+  return (
+    <form name="login" action="/api/session">
+      <label htmlFor="email">Email</label>
+      <input id="email" name="email" type="email" data-cy="email" required />
+      <label htmlFor="password">Password</label>
+      <input id="password" name="password" type="password" data-cy="password" />
+      <button type="submit" data-cy="login-submit">Log in</button>
+    </form>
+  );
+}
+`,
+  'src/app/dashboard/page.tsx': 'export default function Dashboard() { return <h1>Dashboard</h1>; }\n',
+};
+
+const APP_DETAILS = 'App URL: http://localhost:3000, Repo URL: local shop';
+
+let sourceRoot: string;
+let workspace: string;
+
+beforeAll(() => {
+  sourceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'model-replay-source-'));
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'model-replay-workspace-'));
+  for (const [relativePath, content] of Object.entries(shopApp)) {
+    fs.mkdirSync(path.dirname(path.join(sourceRoot, 'shop', relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(sourceRoot, 'shop', relativePath), content);
+  }
+  process.env.CYPRESS_PILOT_WORKSPACE_DIR = workspace;
+  process.env.CYPRESS_PILOT_LOCAL_ROOTS = sourceRoot;
+});
+
+afterAll(() => {
+  delete process.env.CYPRESS_PILOT_WORKSPACE_DIR;
+  delete process.env.CYPRESS_PILOT_LOCAL_ROOTS;
+  fs.rmSync(sourceRoot, { recursive: true, force: true });
+  fs.rmSync(workspace, { recursive: true, force: true });
+});
+
+function request(text: string): GenerateRequest {
+  return { messages: [{ role: 'user', content: [{ text }] }], output: { format: 'json' } };
+}
+
+describe('requestFixtureKey', () => {
+  it('is the same for the same request wherever the workspace and clone are', () => {
+    const text = (root: string, id: string) => `Files of ${root}/clones/${id}/src/app/page.tsx and ${root}/uploads/a.zip`;
+    const key = requestFixtureKey(request(text(workspace, 'abc123')));
+
+    expect(requestFixtureKey(request(text(workspace, 'abc123')))).toBe(key);
+    expect(requestFixtureKey(request(text(workspace, 'f00d42')))).toBe(key);
+    process.env.CYPRESS_PILOT_WORKSPACE_DIR = '/srv/pilot';
+    try {
+      expect(requestFixtureKey(request(text('/srv/pilot', 'other')))).toBe(key);
+    } finally {
+      process.env.CYPRESS_PILOT_WORKSPACE_DIR = workspace;
+    }
+    expect(key).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('changes with the prompt and the output schema', () => {
+    const key = requestFixtureKey(request('Identify the flows'));
+    expect(requestFixtureKey(request('Identify the flows.'))).not.toBe(key);
+    expect(requestFixtureKey({ ...request('Identify the flows'), output: { format: 'text' } })).not.toBe(key);
+  });
+});
+
+describe('replay mode', () => {
+  it('identifies, generates and repairs a spec from the recorded responses', async () => {
+    const identified = await identifyUserFlows({ source: 'local', localPath: path.join(sourceRoot, 'shop'), skipCypressSetup: true });
+    expect(identified.model).toBe('googleai/gemini-2.0-flash (replayed)');
+    expect(identified.identifiedFlows.map(flow => flow.id)).toEqual(['user-login']);
+    const flow = identified.identifiedFlows[0];
+
+    const generated = await generateCypressTest({
+      flowDescription: formatUserFlow(flow),
+      flow,
+      testType: 'E2E',
+      applicationDetails: APP_DETAILS,
+      repoPath: identified.clonedRepoPath,
+    });
+    expect(generated.validation).toMatchObject({ passed: true, attempts: 1 });
+    expect(generated.testCode).toContain("cy.get('[data-cy=\"login-submit\"]').click()");
+
+    executeCypressRunHeadless.mockResolvedValue({ status: 'completed_successfully', message: 'All tests passed.', runSummary: '1 passing' });
+    const repaired = await repairCypressTest({
+      testCode: generated.testCode,
+      flowDescription: formatUserFlow(flow),
+      testType: 'E2E',
+      applicationDetails: APP_DETAILS,
+      repoPath: identified.clonedRepoPath!,
+      specFileName: 'user-login.cy.ts',
+      failedRun: { message: 'Tests failed.', runSummary: 'Timed out retrying after 4000ms: Expected to find content: \'Welcome\' but never did.' },
+      maxAttempts: 1,
+    });
+    expect(repaired.status).toBe('repaired');
+    expect(repaired.finalTestCode).toContain("cy.contains('h1', 'Dashboard')");
+    expect(executeCypressRunHeadless).toHaveBeenCalledWith(expect.objectContaining({ testCode: repaired.finalTestCode, specFileName: 'user-login.cy.ts' }));
+  });
+
+  it('keeps the last runnable spec when the corrected spec is rejected by validation', async () => {
+    const testCode = "describe('Home', () => {\n  it('links to the login page', () => {\n    cy.visit('/');\n    cy.contains('a', 'Log in').click();\n  });\n});\n";
+    executeCypressRunHeadless.mockClear();
+
+    const repaired = await repairCypressTest({
+      testCode,
+      flowDescription: 'Open the login page from the home page',
+      testType: 'E2E',
+      applicationDetails: APP_DETAILS,
+      repoPath: path.join(sourceRoot, 'shop'),
+      specFileName: 'home.cy.ts',
+      failedRun: { message: 'Tests failed.', runSummary: 'Timed out retrying after 4000ms: Expected to find content: \'Log in\' within the selector: \'a\' but never did.' },
+      maxAttempts: 1,
+    });
+
+    expect(repaired.status).toBe('still_failing');
+    expect(repaired.finalTestCode).toBe(testCode);
+    expect(repaired.attempts.map(attempt => attempt.run.status)).toEqual(['validation_failed']);
+    expect(executeCypressRunHeadless).not.toHaveBeenCalled();
+  });
+
+  it('re-analyzes a project unused for longer than the clone TTL without removing its clone', async () => {
+    const localPath = path.join(sourceRoot, 'shop');
+    const { projectId, clonedRepoPath } = await identifyUserFlows({ source: 'local', localPath, skipCypressSetup: true });
+    updateProject(projectId!, project => {
+      project.lastUsedAt = '2020-01-01T00:00:00.000Z';
+    });
+
+    const reanalyzed = await identifyUserFlows({ source: 'local', localPath, skipCypressSetup: true, projectId });
+
+    expect(reanalyzed.analysisLog).not.toContain(`Removed ${clonedRepoPath}`);
+    expect(reanalyzed.identifiedFlows.map(flow => flow.id)).toEqual(['user-login']);
+  });
+
+  it('fails with the fixture it expected when a prompt was not recorded', async () => {
+    await expect(generateCypressTest({
+      flowDescription: 'A flow nobody recorded',
+      testType: 'E2E',
+      applicationDetails: APP_DETAILS,
+    })).rejects.toThrow(/No recorded generate response for this prompt: .*fixtures[\\/]model[\\/]generate-[0-9a-f]{16}\.json does not exist\. Record it with CYPRESS_PILOT_MODEL_MODE=record\./);
+  });
+});
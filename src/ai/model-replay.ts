@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Record/replay stand-in for the configured models, so flows run offline in development and CI.
+ *
+ * CYPRESS_PILOT_MODEL_MODE selects how prompts reach a model:
+ * - live (default) - Prompts go straight to the configured models.
+ * - record - Prompts go to the configured models and every request/response pair is saved as a fixture.
+ * - replay - Responses come from the fixtures; no provider plugin or API key is needed. A prompt without a
+ *   fixture fails with the fixture file it expected.
+ *
+ * Fixtures are JSON files in CYPRESS_PILOT_MODEL_FIXTURES (default ./fixtures/model) named <task>-<key>.json.
+ * The key hashes the request's messages, tools and output schema after workspace paths are replaced with
+ * placeholders, so a recording made on one machine replays on another whatever the clone location.
+ * The committed fixtures replay the identify, generate and repair prompts of the pipeline in model-replay.test.ts.
+ *
+ * - modelMode - The configured mode.
+ * - replayModelName - The stand-in model of a task, registered by modelReplayPlugin.
+ * - requestFixtureKey - The fixture key of a model request.
+ * - modelReplayPlugin - The Genkit plugin that defines the stand-in models.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { GenerateRequest, GenerateResponseData } from 'genkit/model';
+import { genkitPlugin, type GenkitPlugin } from 'genkit/plugin';
+import type { ModelTask } from '@/ai/model-config';
+import { workspaceRoot } from '@/ai/projects/project-store';
+
+export type ModelMode = 'live' | 'record' | 'replay';
+
+const MODES: ModelMode[] = ['live', 'record', 'replay'];
+
+interface ModelFixture {
+  task: ModelTask;
+  model: string;
+  key: string;
+  recordedAt: string;
+  request: unknown;
+  response: GenerateResponseData;
+}
+
+export function modelMode(): ModelMode {
+  const mode = (process.env.CYPRESS_PILOT_MODEL_MODE?.trim() || 'live') as ModelMode;
+  if (!MODES.includes(mode)) {
+    throw new Error(`CYPRESS_PILOT_MODEL_MODE must be one of ${MODES.join(', ')}; got "${mode}".`);
+  }
+  return mode;
+}
+
+export const replayModelName = (task: ModelTask) => `replay/${task}`;
+
+const fixturesDir = () => path.resolve(process.env.CYPRESS_PILOT_MODEL_FIXTURES || path.join('fixtures', 'model'));
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Only what decides the answer is kept; clone directories are named after random project ids
+function normalizedRequest(request: GenerateRequest): unknown {
+  const workspace = escapeRegExp(workspaceRoot());
+  const text = JSON.stringify({
+    messages: request.messages,
+    tools: request.tools?.map(tool => ({ name: tool.name, inputSchema: tool.inputSchema })),
+    output: request.output,
+  })
+    .replace(new RegExp(`${workspace}[\\\\/]+clones[\\\\/]+[^\\\\/"\\s]+`, 'g'), '<clone>')
+    .replace(new RegExp(workspace, 'g'), '<workspace>');
+  return JSON.parse(text);
+}
+
+export function requestFixtureKey(request: GenerateRequest): string {
+  return createHash('sha256').update(JSON.stringify(normalizedRequest(request))).digest('hex').slice(0, 16);
+}
+
+export function modelReplayPlugin(tasks: ModelTask[], mode: Exclude<ModelMode, 'live'>, recordedModel: (task: ModelTask) => { id: string; ref: string }): GenkitPlugin {
+  return genkitPlugin('replay', async ai => {
+    for (const task of tasks) {
+      ai.defineModel({
+        name: replayModelName(task),
+        label: `${mode === 'record' ? 'Recording' : 'Replaying'} ${task} model`,
+        supports: { multiturn: true, tools: true, systemRole: true, media: true, output: ['text', 'json'] },
+      }, async request => {
+        const key = requestFixtureKey(request);
+        const fixtureFile = path.join(fixturesDir(), `${task}-${key}.json`);
+
+        if (mode === 'replay') {
+          if (!fs.existsSync(fixtureFile)) {
+            throw new Error(`No recorded ${task} response for this prompt: ${fixtureFile} does not exist. Record it with CYPRESS_PILOT_MODEL_MODE=record.`);
+          }
+          const fixture: ModelFixture = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+          return fixture.response;
+        }
+
+        const { id, ref } = recordedModel(task);
+        const model = await ai.registry.lookupAction(`/model/${ref}`);
+        if (!model) {
+          throw new Error(`Model ${id} is not registered; check the provider configuration.`);
+        }
+        const response: GenerateResponseData = await model(request);
+        // The raw provider response in "custom" is not needed to replay and can be large; some plugins still
+        // answer with "candidates" instead of "message", so everything else is kept
+        const recorded = { ...response };
+        delete recorded.custom;
+        const fixture: ModelFixture = {
+          task,
+          model: id,
+          key,
+          recordedAt: new Date().toISOString(),
+          request: normalizedRequest(request),
+          response: recorded,
+        };
+        fs.mkdirSync(fixturesDir(), { recursive: true });
+        fs.writeFileSync(fixtureFile, JSON.stringify(fixture, null, 2) + '\n');
+        return response;
+      });
+    }
+  });
+}
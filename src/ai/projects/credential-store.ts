@@ -0,0 +1,145 @@
+/**
+ * @fileOverview Stores credential profiles in the workspace and turns them into git authentication.
+ *
+ * Profiles live in `<workspace>/credentials/<id>.json`, secrets in `<id>.secret`, both readable by the
+ * server user only. Tokens are handed to git through GIT_ASKPASS and keys through GIT_SSH_COMMAND, so
+ * neither ends up in the remote URL, in `.git/config` or on a command line.
+ *
+ * - listCredentialProfiles / saveCredentialProfile / deleteCredentialProfile - Profile CRUD (secrets are never returned).
+ * - gitAuthForProfile - The environment git needs to authenticate with a profile, and the secrets to redact.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { CredentialProfileSchema, type CredentialProfile, type SaveCredentialProfileInput } from '@/ai/schemas/credential-profile';
+import { workspaceRoot } from '@/ai/projects/project-store';
+import { isSshRepoUrl, repoUrlHost } from '@/lib/repo-url';
+import { toFlowId } from '@/lib/user-flows';
+
+export interface GitAuth {
+  env: Record<string, string>;
+  secrets: string[];
+}
+
+const ASKPASS_SCRIPT = `#!/bin/sh
+case "$1" in
+  Username*) printf '%s\\n' "$CYPRESS_PILOT_GIT_USERNAME" ;;
+  *) printf '%s\\n' "$CYPRESS_PILOT_GIT_PASSWORD" ;;
+esac
+`;
+
+const credentialsDir = () => path.join(workspaceRoot(), 'credentials');
+const profileFile = (id: string) => path.join(credentialsDir(), `${id}.json`);
+const secretFile = (id: string) => path.join(credentialsDir(), `${id}.secret`);
+
+function assertProfileId(id: string) {
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid credential profile id: ${id}`);
+  }
+}
+
+function writePrivateFile(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(file, content, { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
+}
+
+export function listCredentialProfiles(): CredentialProfile[] {
+  if (!fs.existsSync(credentialsDir())) return [];
+  return fs.readdirSync(credentialsDir())
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      try {
+        const parsed = CredentialProfileSchema.safeParse(JSON.parse(fs.readFileSync(path.join(credentialsDir(), file), 'utf8')));
+        return parsed.success ? parsed.data : undefined;
+      } catch {
+        return undefined;
+      }
+    })
+    .filter((profile): profile is CredentialProfile => !!profile)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getCredentialProfile(id: string): CredentialProfile | undefined {
+  assertProfileId(id);
+  return listCredentialProfiles().find(profile => profile.id === id);
+}
+
+export function saveCredentialProfile({ secret, ...fields }: SaveCredentialProfileInput): CredentialProfile {
+  if (fields.kind !== 'ssh-agent' && !secret?.trim()) {
+    throw new Error(fields.kind === 'token' ? 'An access token is required.' : 'A private key is required for a deploy key profile.');
+  }
+  const profile: CredentialProfile = {
+    ...fields,
+    id: `${toFlowId(fields.name)}-${randomBytes(3).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+  };
+  writePrivateFile(profileFile(profile.id), JSON.stringify(profile, null, 2));
+  if (secret) {
+    // ssh refuses keys without a trailing newline
+    writePrivateFile(secretFile(profile.id), fields.kind === 'deploy-key' ? `${secret.trim()}\n` : secret.trim());
+  }
+  return profile;
+}
+
+export function deleteCredentialProfile(id: string): void {
+  assertProfileId(id);
+  fs.rmSync(profileFile(id), { force: true });
+  fs.rmSync(secretFile(id), { force: true });
+}
+
+function defaultTokenUsername(host: string | undefined): string {
+  if (host?.includes('gitlab')) return 'oauth2';
+  if (host?.includes('bitbucket')) return 'x-token-auth';
+  return 'x-access-token';
+}
+
+function askpassScript(): string {
+  const file = path.join(credentialsDir(), 'askpass.sh');
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(credentialsDir(), { recursive: true, mode: 0o700 });
+    fs.writeFileSync(file, ASKPASS_SCRIPT, { mode: 0o700 });
+  }
+  return file;
+}
+
+export function gitAuthForProfile(profileId: string, repoUrl: string): GitAuth {
+  const profile = getCredentialProfile(profileId);
+  if (!profile) {
+    throw new Error(`Credential profile not found: ${profileId}`);
+  }
+  const usesSsh = isSshRepoUrl(repoUrl);
+
+  if (profile.kind === 'token') {
+    if (usesSsh) {
+      throw new Error(`Profile "${profile.name}" holds an access token, which only works with HTTPS repository URLs.`);
+    }
+    const token = fs.readFileSync(secretFile(profile.id), 'utf8');
+    return {
+      env: {
+        GIT_ASKPASS: askpassScript(),
+        CYPRESS_PILOT_GIT_USERNAME: profile.username || defaultTokenUsername(repoUrlHost(repoUrl)),
+        CYPRESS_PILOT_GIT_PASSWORD: token,
+      },
+      secrets: [token],
+    };
+  }
+
+  if (!usesSsh) {
+    throw new Error(`Profile "${profile.name}" uses SSH; use an SSH repository URL such as git@${repoUrlHost(repoUrl) || 'github.com'}:org/repo.git.`);
+  }
+  const sshOptions = '-o StrictHostKeyChecking=accept-new -o BatchMode=yes';
+  if (profile.kind === 'deploy-key') {
+    const keyFile = secretFile(profile.id);
+    return {
+      env: { GIT_SSH_COMMAND: `ssh -i "${keyFile}" -o IdentitiesOnly=yes ${sshOptions}` },
+      secrets: [fs.readFileSync(keyFile, 'utf8').trim()],
+    };
+  }
+  const authSock = profile.sshAuthSock || process.env.SSH_AUTH_SOCK;
+  if (!authSock) {
+    throw new Error(`Profile "${profile.name}" uses the SSH agent, but no agent socket is configured and SSH_AUTH_SOCK is not set on the server.`);
+  }
+  return { env: { SSH_AUTH_SOCK: authSock, GIT_SSH_COMMAND: `ssh ${sshOptions}` }, secrets: [] };
+}
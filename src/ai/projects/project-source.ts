@@ -0,0 +1,203 @@
+/**
+ * @fileOverview Loads a project's code from somewhere other than a git remote.
+ *
+ * Both sources are copied into the project's clone directory, so setup, analysis and runs never modify the
+ * original files and garbage collection only ever deletes copies.
+ *
+ * - allowedLocalRoots - Directories local projects may be loaded from (CYPRESS_PILOT_LOCAL_ROOTS).
+ * - loadLocalDirectory - Copies an allow-listed local directory into the clone directory.
+ * - saveUploadedArchive - Stores an uploaded zip or tarball in the workspace until it is extracted.
+ * - extractUploadedArchive - Unpacks an uploaded archive into the clone directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import AdmZip from 'adm-zip';
+import * as tar from 'tar';
+import { uploadsDir } from '@/ai/projects/project-store';
+
+const ARCHIVE_EXTENSIONS = ['.tar.gz', '.tgz', '.tar', '.zip'];
+const MAX_ARCHIVE_ENTRIES = 50_000;
+const MAX_EXTRACTED_BYTES = 1024 * 1024 * 1024;
+// Installed dependencies survive a reload; everything else is replaced by the new copy
+const KEPT_ON_RELOAD = new Set(['node_modules']);
+const SKIPPED_ON_COPY = new Set(['node_modules', '.git']);
+
+export function allowedLocalRoots(): string[] {
+  return (process.env.CYPRESS_PILOT_LOCAL_ROOTS || '')
+    .split(path.delimiter)
+    .map(root => root.trim())
+    .filter(Boolean)
+    .map(root => {
+      try {
+        return fs.realpathSync(root);
+      } catch {
+        return undefined;
+      }
+    })
+    .filter((root): root is string => !!root);
+}
+
+const isInside = (dir: string, root: string) => dir === root || dir.startsWith(`${root}${path.sep}`);
+
+function clearDirectory(dir: string) {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const entry of fs.readdirSync(dir)) {
+    if (!KEPT_ON_RELOAD.has(entry)) {
+      fs.rmSync(path.join(dir, entry), { recursive: true, force: true });
+    }
+  }
+}
+
+export function loadLocalDirectory(localPath: string, clonePath: string): { localPath: string; log: string } {
+  const roots = allowedLocalRoots();
+  if (roots.length === 0) {
+    throw new Error('Local directories are disabled. Set CYPRESS_PILOT_LOCAL_ROOTS to the directories projects may be loaded from.');
+  }
+  if (!path.isAbsolute(localPath)) {
+    throw new Error(`Local path must be absolute: ${localPath}`);
+  }
+  let resolved: string;
+  try {
+    resolved = fs.realpathSync(localPath);
+  } catch {
+    throw new Error(`Local directory not found: ${localPath}`);
+  }
+  if (!roots.some(root => isInside(resolved, root))) {
+    throw new Error(`${localPath} is outside the allowed local roots (${roots.join(', ')}).`);
+  }
+  if (!fs.statSync(resolved).isDirectory()) {
+    throw new Error(`${localPath} is not a directory.`);
+  }
+
+  clearDirectory(clonePath);
+  let skippedLinks = 0;
+  fs.cpSync(resolved, clonePath, {
+    recursive: true,
+    filter: source => {
+      if (SKIPPED_ON_COPY.has(path.basename(source))) return false;
+      // Links could point outside the allowed roots
+      if (fs.lstatSync(source).isSymbolicLink()) {
+        skippedLinks++;
+        return false;
+      }
+      return true;
+    },
+  });
+  let log = `Copied ${resolved} into ${clonePath} (node_modules and .git are not copied).\n`;
+  if (skippedLinks > 0) {
+    log += `Skipped ${skippedLinks} symbolic link(s).\n`;
+  }
+  return { localPath: resolved, log };
+}
+
+function archiveExtension(fileName: string): string | undefined {
+  return ARCHIVE_EXTENSIONS.find(ext => fileName.toLowerCase().endsWith(ext));
+}
+
+export function saveUploadedArchive(fileName: string, data: Buffer): { uploadId: string; archiveName: string } {
+  const ext = archiveExtension(fileName);
+  if (!ext) {
+    throw new Error(`Unsupported archive type: ${fileName}. Upload a .zip, .tar, .tar.gz or .tgz file.`);
+  }
+  fs.mkdirSync(uploadsDir(), { recursive: true });
+  const uploadId = `${randomBytes(8).toString('hex')}${ext}`;
+  fs.writeFileSync(path.join(uploadsDir(), uploadId), data);
+  return { uploadId, archiveName: path.basename(fileName) };
+}
+
+function extractZip(archivePath: string, destination: string): number {
+  const entries = new AdmZip(archivePath).getEntries();
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`The archive has more than ${MAX_ARCHIVE_ENTRIES} entries.`);
+  }
+  if (entries.reduce((total, entry) => total + entry.header.size, 0) > MAX_EXTRACTED_BYTES) {
+    throw new Error(`The archive expands to more than ${MAX_EXTRACTED_BYTES / 1024 / 1024} MB.`);
+  }
+  let skippedLinks = 0;
+  for (const entry of entries) {
+    // Entry names are untrusted: an absolute path or ".." must not escape the destination (zip slip)
+    const target = path.resolve(destination, entry.entryName);
+    if (!isInside(target, destination)) {
+      throw new Error(`The archive contains an entry outside its root: ${entry.entryName}`);
+    }
+    if (((entry.attr >>> 16) & 0o170000) === 0o120000) {
+      skippedLinks++;
+      continue;
+    }
+    if (entry.isDirectory) {
+      fs.mkdirSync(target, { recursive: true });
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, entry.getData());
+    }
+  }
+  return skippedLinks;
+}
+
+async function extractTar(archivePath: string, destination: string): Promise<number> {
+  let entryCount = 0;
+  let totalBytes = 0;
+  let skippedLinks = 0;
+  let problem: string | undefined;
+  // tar refuses absolute and ".." paths itself (unless preservePaths is set); links and oversized archives are filtered here
+  await tar.x({
+    file: archivePath,
+    cwd: destination,
+    strict: true,
+    filter: (entryPath, entry) => {
+      const type = 'type' in entry ? entry.type : undefined;
+      if (type === 'SymbolicLink' || type === 'Link') {
+        skippedLinks++;
+        return false;
+      }
+      entryCount++;
+      totalBytes += entry.size ?? 0;
+      if (entryCount > MAX_ARCHIVE_ENTRIES) problem = `The archive has more than ${MAX_ARCHIVE_ENTRIES} entries.`;
+      else if (totalBytes > MAX_EXTRACTED_BYTES) problem = `The archive expands to more than ${MAX_EXTRACTED_BYTES / 1024 / 1024} MB.`;
+      return !problem;
+    },
+  });
+  if (problem) {
+    throw new Error(problem);
+  }
+  return skippedLinks;
+}
+
+// Archives downloaded from GitHub and friends wrap everything in a single "<repo>-<ref>/" directory
+function archiveRoot(dir: string): string {
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  return entries.length === 1 && entries[0].isDirectory() ? path.join(dir, entries[0].name) : dir;
+}
+
+export async function extractUploadedArchive(uploadId: string, clonePath: string): Promise<{ log: string }> {
+  if (!/^[0-9a-f]{16}(\.tar\.gz|\.tgz|\.tar|\.zip)$/.test(uploadId)) {
+    throw new Error(`Invalid upload id: ${uploadId}`);
+  }
+  const archivePath = path.join(uploadsDir(), uploadId);
+  if (!fs.existsSync(archivePath)) {
+    throw new Error('The uploaded archive was not found. Upload it again.');
+  }
+
+  const stagingDir = `${clonePath}.extract-${process.pid}`;
+  fs.rmSync(stagingDir, { recursive: true, force: true });
+  fs.mkdirSync(stagingDir, { recursive: true });
+  try {
+    const skippedLinks = uploadId.endsWith('.zip') ? extractZip(archivePath, stagingDir) : await extractTar(archivePath, stagingDir);
+    const root = archiveRoot(stagingDir);
+    clearDirectory(clonePath);
+    for (const entry of fs.readdirSync(root)) {
+      if (SKIPPED_ON_COPY.has(entry)) continue;
+      fs.renameSync(path.join(root, entry), path.join(clonePath, entry));
+    }
+    fs.rmSync(archivePath, { force: true });
+    let log = `Extracted the uploaded archive into ${clonePath}${root !== stagingDir ? ` (from its ${path.basename(root)}/ directory)` : ''}.\n`;
+    if (skippedLinks > 0) {
+      log += `Skipped ${skippedLinks} link(s).\n`;
+    }
+    return { log };
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
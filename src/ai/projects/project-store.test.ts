@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collectStaleClones, createProject } from '@/ai/projects/project-store';
+
+let workspace: string;
+
+beforeEach(() => {
+  workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'project-store-'));
+  process.env.CYPRESS_PILOT_WORKSPACE_DIR = workspace;
+});
+
+afterEach(() => {
+  delete process.env.CYPRESS_PILOT_WORKSPACE_DIR;
+  fs.rmSync(workspace, { recursive: true, force: true });
+});
+
+describe('collectStaleClones', () => {
+  it('removes orphaned clones but keeps the clone of an unreadable project file', () => {
+    const project = createProject({ name: 'Shop', source: 'git', repoUrl: 'https://github.com/myorg/shop' });
+    fs.mkdirSync(project.clonePath, { recursive: true });
+    fs.mkdirSync(path.join(workspace, 'clones', 'corrupt'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'projects', 'corrupt.json'), '{"id": "corrupt", "na');
+    fs.mkdirSync(path.join(workspace, 'clones', 'orphan'), { recursive: true });
+
+    const { removed, log } = collectStaleClones();
+
+    expect(removed).toEqual([path.join(workspace, 'clones', 'orphan')]);
+    expect(fs.existsSync(path.join(workspace, 'clones', 'corrupt'))).toBe(true);
+    expect(fs.existsSync(project.clonePath)).toBe(true);
+    expect(log).toContain('corrupt.json: not a readable project file');
+  });
+});
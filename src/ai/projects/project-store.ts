@@ -0,0 +1,205 @@
+/**
+ * @fileOverview Persists projects as JSON files in a workspace directory on the server.
+ *
+ * Layout: `<workspace>/projects/<id>.json` for the metadata, `<workspace>/clones/<id>/` for the clone (or copy of a
+ * local directory or uploaded archive) and `<workspace>/uploads/` for archives waiting to be extracted.
+ * The workspace defaults to ~/.cypress-pilot and can be moved with CYPRESS_PILOT_WORKSPACE_DIR.
+ *
+ * - listProjects / getProject / createProject / updateProject / deleteProject - CRUD over project files.
+ * - upsertProjectSpecs / recordProjectRun - Append generated specs and run history to a project.
+ * - collectStaleClones - Removes orphaned clones, clones of projects unused for longer than the TTL and abandoned uploads.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { ProjectSchema, type Project, type ProjectRun, type ProjectSpec, type ProjectSummary } from '@/ai/schemas/project';
+import { toFlowId } from '@/lib/user-flows';
+
+const MAX_RUN_HISTORY = 50;
+const DEFAULT_CLONE_TTL_DAYS = 14;
+const UPLOAD_TTL_DAYS = 1;
+const LEGACY_TEMP_CLONE_PREFIX = 'cypress-pilot-repo-';
+
+export function workspaceRoot(): string {
+  return process.env.CYPRESS_PILOT_WORKSPACE_DIR || path.join(os.homedir(), '.cypress-pilot');
+}
+
+const projectsDir = () => path.join(workspaceRoot(), 'projects');
+const clonesDir = () => path.join(workspaceRoot(), 'clones');
+export const uploadsDir = () => path.join(workspaceRoot(), 'uploads');
+const projectFile = (id: string) => path.join(projectsDir(), `${id}.json`);
+
+function assertProjectId(id: string) {
+  if (!/^[a-z0-9-]+$/.test(id)) {
+    throw new Error(`Invalid project id: ${id}`);
+  }
+}
+
+function readProjectFile(file: string): Project | undefined {
+  try {
+    const parsed = ProjectSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Writes through a temporary file so a crash never leaves a half-written project behind.
+function writeProject(project: Project): Project {
+  fs.mkdirSync(projectsDir(), { recursive: true });
+  const file = projectFile(project.id);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(project, null, 2));
+  fs.renameSync(tempFile, file);
+  return project;
+}
+
+export function listProjects(): ProjectSummary[] {
+  if (!fs.existsSync(projectsDir())) return [];
+  return fs.readdirSync(projectsDir())
+    .filter(file => file.endsWith('.json'))
+    .map(file => readProjectFile(path.join(projectsDir(), file)))
+    .filter((project): project is Project => !!project)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(project => ({
+      id: project.id,
+      name: project.name,
+      source: project.source,
+      repoUrl: project.repoUrl,
+      localPath: project.localPath,
+      archiveName: project.archiveName,
+      updatedAt: project.updatedAt,
+      lastAnalyzedAt: project.lastAnalyzedAt,
+      flowCount: project.identifiedFlows.length,
+      specCount: project.specs.length,
+      lastRunStatus: project.runs[0]?.status,
+      hasClone: fs.existsSync(project.clonePath),
+    }));
+}
+
+export function getProject(id: string): Project | undefined {
+  assertProjectId(id);
+  return readProjectFile(projectFile(id));
+}
+
+type NewProject = Pick<Project, 'name' | 'source' | 'repoUrl' | 'localPath' | 'archiveName' | 'appUrl' | 'credentialProfileId' | 'ref' | 'projectRoot' | 'sparseCheckout' | 'partialClone'>;
+
+export function createProject(fields: NewProject): Project {
+  const { name } = fields;
+  const id = `${toFlowId(name)}-${randomBytes(3).toString('hex')}`;
+  const now = new Date().toISOString();
+  return writeProject({
+    id,
+    ...fields,
+    clonePath: path.join(clonesDir(), id),
+    createdAt: now,
+    updatedAt: now,
+    lastUsedAt: now,
+    identifiedFlows: [],
+    specs: [],
+    runs: [],
+  });
+}
+
+export function updateProject(id: string, update: (project: Project) => void): Project {
+  const project = getProject(id);
+  if (!project) {
+    throw new Error(`Project not found: ${id}`);
+  }
+  update(project);
+  project.updatedAt = new Date().toISOString();
+  return writeProject(project);
+}
+
+export function deleteProject(id: string): void {
+  const project = getProject(id);
+  if (project) {
+    fs.rmSync(project.clonePath, { recursive: true, force: true });
+  }
+  fs.rmSync(projectFile(id), { force: true });
+}
+
+export function upsertProjectSpecs(id: string, specs: Omit<ProjectSpec, 'updatedAt'>[]): Project {
+  const updatedAt = new Date().toISOString();
+  return updateProject(id, project => {
+    for (const spec of specs) {
+      project.specs = project.specs.filter(existing => existing.flowId !== spec.flowId || existing.testType !== spec.testType);
+      project.specs.push({ ...spec, updatedAt });
+    }
+  });
+}
+
+export function recordProjectRun(id: string, run: Omit<ProjectRun, 'id'>): Project {
+  return updateProject(id, project => {
+    project.runs = [{ ...run, id: randomBytes(4).toString('hex') }, ...project.runs].slice(0, MAX_RUN_HISTORY);
+    project.lastUsedAt = run.finishedAt;
+  });
+}
+
+function ageInDays(isoOrMs: string | number): number {
+  return (Date.now() - new Date(isoOrMs).getTime()) / 86_400_000;
+}
+
+export function collectStaleClones({ maxAgeDays = Number(process.env.CYPRESS_PILOT_CLONE_TTL_DAYS) || DEFAULT_CLONE_TTL_DAYS }: { maxAgeDays?: number } = {}): { removed: string[]; log: string } {
+  const removed: string[] = [];
+  let log = `Collecting clones unused for more than ${maxAgeDays} days...\n`;
+  const remove = (dir: string, reason: string) => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    removed.push(dir);
+    log += `Removed ${dir} (${reason}).\n`;
+  };
+
+  const projectsById = new Map<string, Project>();
+  // A corrupt or half-written project file may still belong to a clone the user needs, so its clone is kept
+  const unreadableIds = new Set<string>();
+  if (fs.existsSync(projectsDir())) {
+    for (const file of fs.readdirSync(projectsDir()).filter(name => name.endsWith('.json'))) {
+      const project = readProjectFile(path.join(projectsDir(), file));
+      if (project) {
+        projectsById.set(project.id, project);
+      } else {
+        unreadableIds.add(path.basename(file, '.json'));
+        log += `Skipped ${path.join(projectsDir(), file)}: not a readable project file.\n`;
+      }
+    }
+  }
+
+  if (fs.existsSync(clonesDir())) {
+    for (const entry of fs.readdirSync(clonesDir(), { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+      const project = projectsById.get(entry.name);
+      const dir = path.join(clonesDir(), entry.name);
+      if (unreadableIds.has(entry.name)) {
+        log += `Kept ${dir}: its project file could not be read.\n`;
+      } else if (!project) {
+        remove(dir, 'no project refers to it');
+      } else if (ageInDays(project.lastUsedAt) > maxAgeDays) {
+        // The project keeps its flows, specs and history; the next analysis clones the repository again
+        remove(dir, `project "${project.name}" unused since ${project.lastUsedAt}`);
+      }
+    }
+  }
+
+  // Clones made before projects were persisted lived in the system temp directory and were never removed
+  for (const entry of fs.readdirSync(os.tmpdir(), { withFileTypes: true })) {
+    if (!entry.isDirectory() || !entry.name.startsWith(LEGACY_TEMP_CLONE_PREFIX)) continue;
+    const dir = path.join(os.tmpdir(), entry.name);
+    if (ageInDays(fs.statSync(dir).mtimeMs) > maxAgeDays) {
+      remove(dir, 'temporary clone from an earlier version');
+    }
+  }
+
+  if (fs.existsSync(uploadsDir())) {
+    for (const entry of fs.readdirSync(uploadsDir())) {
+      const file = path.join(uploadsDir(), entry);
+      if (ageInDays(fs.statSync(file).mtimeMs) > UPLOAD_TTL_DAYS) {
+        remove(file, 'uploaded archive that was never analyzed');
+      }
+    }
+  }
+
+  log += `Removed ${removed.length} stale clone(s).\n`;
+  return { removed, log };
+}
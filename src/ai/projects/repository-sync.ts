@@ -0,0 +1,231 @@
+/**
+ * @fileOverview Keeps a project's clone up to date with git.
+ *
+ * git always runs without a shell, limited to the https and ssh transports, and only for remotes on allow-listed
+ * hosts. Limits are configurable through the environment:
+ * CYPRESS_PILOT_GIT_HOSTS (comma-separated, "*" allows any host; defaults to github.com, gitlab.com and bitbucket.org),
+ * CYPRESS_PILOT_GIT_TIMEOUT_SECONDS, CYPRESS_PILOT_MAX_REPO_MB (downloaded objects) and CYPRESS_PILOT_MAX_REPO_FILES.
+ *
+ * - RepositorySyncError - Raised for a rejected URL or an exceeded limit; `code` says which.
+ * - runGit - Runs a git command and returns its stdout, throwing with (redacted) stderr on failure.
+ * - checkRepositoryUrl - Throws unless the URL uses an allowed scheme and host.
+ * - syncRepository - Checks out a branch, tag or commit: a fresh shallow clone on first use, a fetch into the existing
+ *   clone afterwards. Optionally a partial clone (file contents fetched on demand) and a sparse checkout of some directories.
+ * - testRepositoryConnection - Checks that a repository is reachable with the given credentials (`git ls-remote`).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { runCommand } from '@/lib/run-command';
+import { redactSecrets } from '@/lib/redact';
+import { isSafeGitRef, isSshRepoUrl, repoUrlHost } from '@/lib/repo-url';
+import type { GitAuth } from '@/ai/projects/credential-store';
+
+const DEFAULT_ALLOWED_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+const DEFAULT_GIT_TIMEOUT_SECONDS = 300;
+const DEFAULT_MAX_REPO_MB = 500;
+const DEFAULT_MAX_REPO_FILES = 50_000;
+const CONNECTION_TEST_TIMEOUT_MS = 30_000;
+const SIZE_CHECK_INTERVAL_MS = 2000;
+
+export type RepositorySyncErrorCode = 'url_not_allowed' | 'timeout' | 'too_large' | 'too_many_files';
+
+export class RepositorySyncError extends Error {
+  constructor(readonly code: RepositorySyncErrorCode, message: string) {
+    super(message);
+    this.name = 'RepositorySyncError';
+  }
+}
+
+const envNumber = (name: string, fallback: number) => Number(process.env[name]) > 0 ? Number(process.env[name]) : fallback;
+
+export function repositoryLimits() {
+  return {
+    timeoutMs: envNumber('CYPRESS_PILOT_GIT_TIMEOUT_SECONDS', DEFAULT_GIT_TIMEOUT_SECONDS) * 1000,
+    maxBytes: envNumber('CYPRESS_PILOT_MAX_REPO_MB', DEFAULT_MAX_REPO_MB) * 1024 * 1024,
+    maxFiles: envNumber('CYPRESS_PILOT_MAX_REPO_FILES', DEFAULT_MAX_REPO_FILES),
+  };
+}
+
+export function allowedGitHosts(): string[] {
+  const configured = process.env.CYPRESS_PILOT_GIT_HOSTS?.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+  return configured && configured.length > 0 ? configured : DEFAULT_ALLOWED_HOSTS;
+}
+
+export function checkRepositoryUrl(repoUrl: string): void {
+  if (!repoUrl.startsWith('https://') && !isSshRepoUrl(repoUrl)) {
+    throw new RepositorySyncError('url_not_allowed', `Only https:// and SSH remotes can be cloned: ${redactSecrets(repoUrl)}`);
+  }
+  const host = repoUrlHost(repoUrl);
+  const allowedHosts = allowedGitHosts();
+  if (!host || !(allowedHosts.includes('*') || allowedHosts.includes(host))) {
+    throw new RepositorySyncError('url_not_allowed', `${host || 'The repository host'} is not in the allowed git hosts (${allowedHosts.join(', ')}). Add it to CYPRESS_PILOT_GIT_HOSTS.`);
+  }
+}
+
+export interface RunGitOptions {
+  timeoutMs?: number;
+  auth?: GitAuth;
+  signal?: AbortSignal;
+}
+
+export async function runGit(args: string[], cwd: string, { timeoutMs = repositoryLimits().timeoutMs, auth, signal }: RunGitOptions = {}): Promise<string> {
+  // GIT_ALLOW_PROTOCOL also covers transports git picks itself, e.g. for submodules or promisor fetches
+  const env = { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_ALLOW_PROTOCOL: 'https:ssh', ...auth?.env };
+  const result = await runCommand('git', args, { cwd, timeoutMs, env, signal });
+  if (result.aborted && signal?.reason instanceof Error) {
+    throw signal.reason;
+  }
+  if (result.timedOut) {
+    throw new RepositorySyncError('timeout', `git ${args[0]} timed out after ${Math.round(timeoutMs / 1000)} seconds. Raise CYPRESS_PILOT_GIT_TIMEOUT_SECONDS for large repositories.`);
+  }
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} failed (exit code ${result.code}): ${redactSecrets(result.stderr.trim() || result.stdout.trim(), auth?.secrets)}`);
+  }
+  return result.stdout.trim();
+}
+
+async function gitConfig(clonePath: string, key: string): Promise<string | undefined> {
+  try {
+    return await runGit(['config', '--get', key], clonePath);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function testRepositoryConnection(repoUrl: string, auth?: GitAuth): Promise<{ defaultBranch?: string; refCount: number }> {
+  checkRepositoryUrl(repoUrl);
+  const output = await runGit(['ls-remote', '--symref', '--', repoUrl, 'HEAD', 'refs/heads/*'], process.cwd(), { timeoutMs: CONNECTION_TEST_TIMEOUT_MS, auth });
+  const defaultBranch = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD$/m)?.[1];
+  return { defaultBranch, refCount: output.split('\n').filter(line => /^[0-9a-f]{40,64}\trefs\/heads\//.test(line)).length };
+}
+
+export interface SyncRepositoryOptions {
+  auth?: GitAuth;
+  ref?: string;
+  // Only check out these directories (plus files at the repository root)
+  sparsePaths?: string[];
+  // Fetch commits and trees only; file contents are downloaded when checked out
+  partial?: boolean;
+}
+
+function directorySize(dir: string): number {
+  let total = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    total += entry.isDirectory() ? directorySize(entryPath) : entry.isFile() ? fs.statSync(entryPath).size : 0;
+  }
+  return total;
+}
+
+// Runs git while watching how much it downloads, stopping it once the repository exceeds the size limit
+async function runGitWithSizeLimit(args: string[], clonePath: string, auth: GitAuth | undefined, maxBytes: number): Promise<string> {
+  const objectsDir = path.join(clonePath, '.git', 'objects');
+  const tooLarge = () => {
+    try {
+      return directorySize(objectsDir) > maxBytes
+        ? new RepositorySyncError('too_large', `The repository is larger than ${Math.round(maxBytes / 1024 / 1024)} MB. Use a sparse or partial clone, or raise CYPRESS_PILOT_MAX_REPO_MB.`)
+        : undefined;
+    } catch {
+      // git is still creating the objects directory
+      return undefined;
+    }
+  };
+  const controller = new AbortController();
+  const timer = setInterval(() => {
+    const error = tooLarge();
+    if (error) controller.abort(error);
+  }, SIZE_CHECK_INTERVAL_MS);
+  let output: string;
+  try {
+    output = await runGit(args, clonePath, { auth, signal: controller.signal });
+  } finally {
+    clearInterval(timer);
+  }
+  // Small repositories can finish between two checks
+  const error = tooLarge();
+  if (error) throw error;
+  return output;
+}
+
+// Fetches a branch, tag or commit into FETCH_HEAD and returns what to check out. Servers only serve
+// advertised refs to shallow fetches, so a commit that is not a branch or tag head needs the full history.
+async function fetchRef(clonePath: string, ref: string | undefined, auth: GitAuth | undefined, maxBytes: number): Promise<string> {
+  try {
+    await runGitWithSizeLimit(['fetch', '--depth', '1', 'origin', ref || 'HEAD'], clonePath, auth, maxBytes);
+    return 'FETCH_HEAD';
+  } catch (error) {
+    if (error instanceof RepositorySyncError || !ref || !/^[0-9a-f]{7,64}$/i.test(ref)) throw error;
+    const isShallow = fs.existsSync(path.join(clonePath, '.git', 'shallow'));
+    await runGitWithSizeLimit(['fetch', ...(isShallow ? ['--unshallow'] : []), 'origin'], clonePath, auth, maxBytes);
+    return ref;
+  }
+}
+
+async function countCheckedOutFiles(clonePath: string, target: string, sparsePaths: string[]): Promise<number> {
+  const files = (await runGit(['ls-tree', '-r', '--name-only', target], clonePath)).split('\n').filter(Boolean);
+  if (sparsePaths.length === 0) return files.length;
+  return files.filter(file => !file.includes('/') || sparsePaths.some(dir => file.startsWith(`${dir}/`))).length;
+}
+
+export async function syncRepository(repoUrl: string, clonePath: string, { auth, ref, sparsePaths = [], partial = false }: SyncRepositoryOptions = {}): Promise<{ mode: 'cloned' | 'fetched'; commit: string; log: string }> {
+  checkRepositoryUrl(repoUrl);
+  if (ref && !isSafeGitRef(ref)) {
+    throw new Error(`Invalid branch, tag or commit: ${ref}`);
+  }
+  const { maxBytes, maxFiles } = repositoryLimits();
+  const refLabel = ref || 'the default branch';
+  let mode: 'cloned' | 'fetched' = 'fetched';
+  let log = '';
+
+  const hasClone = fs.existsSync(path.join(clonePath, '.git'));
+  const remoteUrl = hasClone ? await gitConfig(clonePath, 'remote.origin.url') : undefined;
+  const isPartial = hasClone && (await gitConfig(clonePath, 'remote.origin.promisor')) === 'true';
+  if (remoteUrl === repoUrl && isPartial === partial) {
+    log += `Fetching ${refLabel} into the existing clone in ${clonePath}...\n`;
+  } else {
+    if (remoteUrl === repoUrl) {
+      log += `Switching the existing clone ${partial ? 'to' : 'from'} a partial clone; cloning again.\n`;
+    } else if (remoteUrl !== undefined || fs.existsSync(clonePath)) {
+      log += `Existing clone points at ${remoteUrl || 'an unknown remote'}; cloning ${repoUrl} again.\n`;
+    }
+    fs.rmSync(clonePath, { recursive: true, force: true });
+    fs.mkdirSync(clonePath, { recursive: true });
+    mode = 'cloned';
+    log += `Cloning ${repoUrl} (${refLabel}${partial ? ', partial' : ''}) into ${clonePath}...\n`;
+  }
+
+  try {
+    if (mode === 'cloned') {
+      await runGit(['init', '--quiet'], clonePath);
+      await runGit(['remote', 'add', 'origin', repoUrl], clonePath);
+      if (partial) {
+        await runGit(['config', 'remote.origin.promisor', 'true'], clonePath);
+        await runGit(['config', 'remote.origin.partialclonefilter', 'blob:none'], clonePath);
+      }
+    }
+    if (sparsePaths.length > 0) {
+      await runGit(['sparse-checkout', 'set', '--cone', '--', ...sparsePaths], clonePath);
+      log += `Sparse checkout of ${sparsePaths.join(', ')} (and files at the repository root).\n`;
+    } else if ((await gitConfig(clonePath, 'core.sparseCheckout')) === 'true') {
+      await runGit(['sparse-checkout', 'disable'], clonePath);
+    }
+
+    const target = await fetchRef(clonePath, ref, auth, maxBytes);
+    const fileCount = await countCheckedOutFiles(clonePath, target, sparsePaths);
+    if (fileCount > maxFiles) {
+      throw new RepositorySyncError('too_many_files', `The checkout would contain ${fileCount} files, more than the limit of ${maxFiles}. Use a sparse checkout of the project root, or raise CYPRESS_PILOT_MAX_REPO_FILES.`);
+    }
+    // Only tracked files are replaced; installed dependencies and generated Cypress files are kept.
+    // A partial clone downloads file contents here, so the size limit applies to the checkout too.
+    await runGitWithSizeLimit(['checkout', '--quiet', '--force', '--detach', target], clonePath, auth, maxBytes);
+  } catch (error) {
+    if (mode === 'cloned') {
+      fs.rmSync(clonePath, { recursive: true, force: true });
+    }
+    throw error;
+  }
+  const commit = await runGit(['rev-parse', '--short', 'HEAD'], clonePath);
+  log += `${mode === 'cloned' ? 'Cloned' : 'Updated clone to'} ${refLabel} at ${commit}.\n`;
+  return { mode, commit, log };
+}
@@ -0,0 +1,44 @@
+/**
+ * @fileOverview Pages of the running application as seen by the crawler.
+ *
+ * - CrawledElementSchema - An interactive element with its role, accessible name and test id.
+ * - CrawledPageSchema - A visited page: title, headings, same-origin links, forms and interactive elements.
+ * - AppMapSchema - The crawled pages of an application and the URLs that were skipped.
+ * - CrawledElement, CrawledPage, AppMap - The inferred types.
+ */
+
+import {z} from 'genkit';
+
+export const CrawledElementSchema = z.object({
+  role: z.string().describe('ARIA role, explicit or implied by the tag, e.g. "button", "link", "textbox".'),
+  name: z.string().describe('Accessible name: aria-label, associated label, placeholder or text.'),
+  tag: z.string(),
+  testId: z.string().optional().describe('Test id as an attribute selector, e.g. [data-cy="submit"].'),
+  href: z.string().optional().describe('Link target, as a path for same-origin links.'),
+});
+export type CrawledElement = z.infer<typeof CrawledElementSchema>;
+
+export const CrawledPageSchema = z.object({
+  path: z.string().describe('Path and query of the page, e.g. "/login".'),
+  status: z.number().optional().describe('HTTP status of the page response.'),
+  title: z.string().optional(),
+  headings: z.array(z.string()).describe('h1 and h2 texts.'),
+  links: z.array(z.string()).describe('Same-origin paths the page links to.'),
+  forms: z.array(z.object({
+    name: z.string().optional().describe('Form name, id or label.'),
+    action: z.string().optional(),
+    fields: z.array(z.string()).describe('Accessible names of the form\'s fields and buttons.'),
+  })),
+  elements: z.array(CrawledElementSchema).describe('Visible interactive elements and elements with test ids.'),
+});
+export type CrawledPage = z.infer<typeof CrawledPageSchema>;
+
+export const AppMapSchema = z.object({
+  origin: z.string().describe('Only pages of this origin are visited.'),
+  renderer: z.enum(['browser', 'static']).describe('"browser" when pages were rendered in headless Chrome, "static" when only their HTML was fetched.'),
+  crawledAt: z.string().describe('ISO timestamp.'),
+  pages: z.array(CrawledPageSchema).describe('Visited pages in crawl order.'),
+  skipped: z.array(z.object({url: z.string(), reason: z.string()})).describe('Pages that could not be visited or were left out on purpose.'),
+  truncated: z.boolean().describe('True when the page budget ran out before every link was visited.'),
+});
+export type AppMap = z.infer<typeof AppMapSchema>;
@@ -0,0 +1,21 @@
+/**
+ * @fileOverview The component a Component test mounts and where its spec is placed.
+ *
+ * - ComponentTestTargetSchema - Resolved component file, export, spec location and mounting hints.
+ * - ComponentTestTarget - The inferred type of the target.
+ */
+
+import {z} from 'genkit';
+
+export const ComponentTestTargetSchema = z.object({
+  componentFile: z.string().describe('Component file, relative to the repository root.'),
+  exportName: z.string().describe('Name of the exported component.'),
+  isDefaultExport: z.boolean().describe('Whether the component is the module\'s default export.'),
+  specRelativePath: z.string().describe('Where the spec is saved, relative to the repository root; matches the component specPattern.'),
+  importPath: z.string().describe('Import specifier for the component, relative to the spec file.'),
+  componentSource: z.string().describe('Source of the component file (truncated).'),
+  propsDefinition: z.string().optional().describe('The component\'s props interface or type, when found.'),
+  providerHints: z.array(z.string()).describe('Providers or stubs the component needs to mount (router, query client, store, ...).'),
+  warnings: z.array(z.string()).describe('Problems found with the project\'s component testing setup.'),
+});
+export type ComponentTestTarget = z.infer<typeof ComponentTestTargetSchema>;
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Credential profiles used to clone private repositories.
+ *
+ * Secrets (tokens and private keys) are only ever sent to the server when a profile is saved; the profile
+ * returned to the client never contains them.
+ *
+ * - CredentialProfileSchema - A stored profile without its secret.
+ * - SaveCredentialProfileInputSchema - A new profile, including the token or private key.
+ * - CredentialProfile, SaveCredentialProfileInput - The inferred types.
+ */
+
+import {z} from 'genkit';
+
+export const CredentialKindSchema = z.enum(['token', 'deploy-key', 'ssh-agent']).describe(
+  '"token": personal access token over HTTPS; "deploy-key": SSH private key; "ssh-agent": keys from the server\'s SSH agent.'
+);
+
+export const CredentialProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: CredentialKindSchema,
+  host: z.string().optional().describe('Git host the profile is meant for, e.g. "github.com". Informational; used to suggest a profile.'),
+  username: z.string().optional().describe('HTTPS username for tokens. Defaults to the convention of the host (x-access-token, oauth2, x-token-auth).'),
+  sshAuthSock: z.string().optional().describe('SSH agent socket for "ssh-agent" profiles. Defaults to the server\'s SSH_AUTH_SOCK.'),
+  createdAt: z.string(),
+});
+export type CredentialProfile = z.infer<typeof CredentialProfileSchema>;
+
+export const SaveCredentialProfileInputSchema = CredentialProfileSchema.omit({id: true, createdAt: true}).extend({
+  secret: z.string().optional().describe('The access token, or the private key for deploy keys. Not needed for "ssh-agent".'),
+});
+export type SaveCredentialProfileInput = z.infer<typeof SaveCredentialProfileInputSchema>;
@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Structured results of a Cypress run, normalized from the Cypress Module API.
+ *
+ * - CypressRunResultsSchema - Per-spec, per-test results returned by the headless run flows.
+ * - normalizeCypressRunResults - Maps a raw `cypress.run()` result onto CypressRunResults.
+ * - formatRunSummary - Renders a short human-readable summary from structured results.
+ */
+
+import {z} from 'genkit';
+
+export const CypressTestResultSchema = z.object({
+  titlePath: z.array(z.string()).describe('Full title path of the test, e.g. ["Login", "rejects a bad password"].'),
+  state: z.enum(['passed', 'failed', 'pending', 'skipped']).describe('Final state of the test.'),
+  durationMs: z.number().describe('Duration of the final attempt in milliseconds.'),
+  errorMessage: z.string().optional().describe('Error message of the failing attempt, if any.'),
+  errorStack: z.string().optional().describe('Error stack of the failing attempt, if any.'),
+  retries: z.number().describe('Number of retries Cypress made before the final attempt.'),
+});
+export type CypressTestResult = z.infer<typeof CypressTestResultSchema>;
+
+export const CypressSpecResultSchema = z.object({
+  spec: z.string().describe('Spec path relative to the Cypress project root.'),
+  tests: z.array(CypressTestResultSchema),
+  passes: z.number(),
+  failures: z.number(),
+  pending: z.number(),
+  skipped: z.number(),
+  durationMs: z.number(),
+  error: z.string().optional().describe('Spec-level error, e.g. a compilation failure before any test ran.'),
+});
+export type CypressSpecResult = z.infer<typeof CypressSpecResultSchema>;
+
+export const CypressRunResultsSchema = z.object({
+  totalTests: z.number(),
+  totalPassed: z.number(),
+  totalFailed: z.number(),
+  totalPending: z.number(),
+  totalSkipped: z.number(),
+  totalDurationMs: z.number(),
+  browserName: z.string().optional(),
+  browserVersion: z.string().optional(),
+  cypressVersion: z.string().optional(),
+  specs: z.array(CypressSpecResultSchema),
+});
+export type CypressRunResults = z.infer<typeof CypressRunResultsSchema>;
+
+const TEST_STATES = ['passed', 'failed', 'pending', 'skipped'] as const;
+
+// Cypress reports the error as a single `displayError` string (message followed by stack frames)
+// since v13, and as `attempts[].error` objects before that.
+function splitDisplayError(displayError: string): { message: string; stack: string } {
+  const lines = displayError.split('\n');
+  const firstFrame = lines.findIndex(line => /^\s+at /.test(line));
+  const message = (firstFrame === -1 ? lines : lines.slice(0, firstFrame)).join('\n').trim();
+  return { message, stack: displayError };
+}
+
+function normalizeTest(rawTest: any): CypressTestResult {
+  const attempts: any[] = Array.isArray(rawTest?.attempts) ? rawTest.attempts : [];
+  const lastAttempt = attempts[attempts.length - 1] || {};
+  const state = TEST_STATES.includes(rawTest?.state) ? rawTest.state : 'skipped';
+
+  let errorMessage: string | undefined;
+  let errorStack: string | undefined;
+  if (typeof rawTest?.displayError === 'string' && rawTest.displayError) {
+    const { message, stack } = splitDisplayError(rawTest.displayError);
+    errorMessage = message;
+    errorStack = stack;
+  } else if (lastAttempt.error) {
+    errorMessage = [lastAttempt.error.name, lastAttempt.error.message].filter(Boolean).join(': ');
+    errorStack = lastAttempt.error.stack;
+  }
+
+  return {
+    titlePath: Array.isArray(rawTest?.title) ? rawTest.title.map(String) : [String(rawTest?.title ?? 'Untitled test')],
+    state,
+    durationMs: Number(rawTest?.duration ?? lastAttempt.wallClockDuration ?? lastAttempt.duration ?? 0) || 0,
+    errorMessage,
+    errorStack,
+    retries: Math.max(attempts.length - 1, 0),
+  };
+}
+
+export function normalizeCypressRunResults(raw: any): CypressRunResults {
+  const runs: any[] = Array.isArray(raw?.runs) ? raw.runs : [];
+  const specs: CypressSpecResult[] = runs.map(run => {
+    const stats = run?.stats || {};
+    return {
+      spec: String(run?.spec?.relative ?? run?.spec?.name ?? 'unknown spec'),
+      tests: (Array.isArray(run?.tests) ? run.tests : []).map(normalizeTest),
+      passes: Number(stats.passes ?? 0),
+      failures: Number(stats.failures ?? 0),
+      pending: Number(stats.pending ?? 0),
+      skipped: Number(stats.skipped ?? 0),
+      durationMs: Number(stats.duration ?? stats.wallClockDuration ?? 0),
+      error: typeof run?.error === 'string' && run.error ? run.error : undefined,
+    };
+  });
+
+  return {
+    totalTests: Number(raw?.totalTests ?? 0),
+    totalPassed: Number(raw?.totalPassed ?? 0),
+    totalFailed: Number(raw?.totalFailed ?? 0),
+    totalPending: Number(raw?.totalPending ?? 0),
+    totalSkipped: Number(raw?.totalSkipped ?? 0),
+    totalDurationMs: Number(raw?.totalDuration ?? 0),
+    browserName: raw?.browserName,
+    browserVersion: raw?.browserVersion,
+    cypressVersion: raw?.cypressVersion,
+    specs,
+  };
+}
+
+export function formatRunSummary(results: CypressRunResults): string {
+  if (results.specs.length === 0) {
+    return 'Cypress run completed: No specs found matching the pattern.';
+  }
+  let summary = `Specs: ${results.specs.length} | Tests: ${results.totalTests} | Passing: ${results.totalPassed} | Failing: ${results.totalFailed} | Pending: ${results.totalPending} | Skipped: ${results.totalSkipped} | Duration: ${(results.totalDurationMs / 1000).toFixed(1)}s\n`;
+  for (const spec of results.specs) {
+    const specFailed = spec.failures > 0 || !!spec.error;
+    summary += `${specFailed ? '✖' : '✔'} ${spec.spec} (${spec.passes}/${spec.tests.length} passed)\n`;
+    if (spec.error) {
+      summary += `    ${spec.error.split('\n')[0]}\n`;
+    }
+    for (const test of spec.tests.filter(t => t.state === 'failed')) {
+      summary += `    ✖ ${test.titlePath.join(' > ')}: ${(test.errorMessage || 'failed').split('\n')[0]}\n`;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileOverview Existing Cypress tests of a repository and how well they cover the identified user flows.
+ *
+ * - CypressSpecInventorySchema - Existing specs, custom commands and fixtures found under cypress/.
+ * - CypressSpecInventory - The inferred type of the spec inventory.
+ * - FlowCoverageSchema - Which existing specs cover a user flow.
+ * - FlowCoverage - The inferred type of a flow's coverage.
+ */
+
+import {z} from 'genkit';
+
+export const ExistingSpecSchema = z.object({
+  file: z.string().describe('Spec file, relative to the repository root.'),
+  suites: z.array(z.string()).describe('describe/context titles.'),
+  tests: z.array(z.string()).describe('it/specify titles.'),
+  visits: z.array(z.string()).describe('Paths passed to cy.visit.'),
+  intercepts: z.array(z.string()).describe('cy.intercept matchers, e.g. "POST /api/login".'),
+  fixtures: z.array(z.string()).describe('Fixtures loaded with cy.fixture or intercept { fixture }.'),
+  commandsUsed: z.array(z.string()).describe('Custom commands the spec calls.'),
+});
+export type ExistingSpec = z.infer<typeof ExistingSpecSchema>;
+
+export const CustomCommandSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['add', 'overwrite']),
+  parameters: z.string().describe('Parameter list as written in the source, e.g. "email, password".'),
+  file: z.string(),
+  line: z.number(),
+});
+export type CustomCommand = z.infer<typeof CustomCommandSchema>;
+
+export const CypressSpecInventorySchema = z.object({
+  specs: z.array(ExistingSpecSchema),
+  customCommands: z.array(CustomCommandSchema).describe('Commands registered with Cypress.Commands.add/overwrite in cypress/support.'),
+  fixtures: z.array(z.string()).describe('Files under cypress/fixtures, relative to that directory.'),
+});
+export type CypressSpecInventory = z.infer<typeof CypressSpecInventorySchema>;
+
+export const FlowCoverageSchema = z.object({
+  flowId: z.string(),
+  status: z.enum(['covered', 'partial', 'none']).describe('"covered" when a spec visits the entry route and matches the flow, "partial" when only one of the two holds.'),
+  specs: z.array(z.object({
+    file: z.string(),
+    reasons: z.array(z.string()).describe('Why the spec was matched, e.g. "visits /login".'),
+  })).describe('Matching specs, best match first.'),
+});
+export type FlowCoverage = z.infer<typeof FlowCoverageSchema>;
@@ -0,0 +1,80 @@
+/**
+ * @fileOverview A persisted project: one repository, its clone on the server and everything produced for it.
+ *
+ * - ProjectSourceSchema - Where the code comes from: a git remote, an allow-listed local directory or an uploaded archive.
+ * - ProjectSchema - Source and app URL, clone location, identified flows, generated specs and run history.
+ * - ProjectSummarySchema - The fields shown in the project list.
+ * - Project, ProjectSpec, ProjectRun, ProjectSummary - The inferred types.
+ */
+
+import {z} from 'genkit';
+import {UserFlowSchema} from '@/ai/schemas/user-flow';
+import {CypressRunResultsSchema} from '@/ai/schemas/cypress-run-results';
+import {RepositoryWorkspaceSchema} from '@/ai/schemas/workspace';
+import {SelectorPolicySchema} from '@/ai/schemas/selector-policy';
+import {AppMapSchema} from '@/ai/schemas/app-map';
+
+export const ProjectSpecSchema = z.object({
+  flowId: z.string().describe('The user flow the spec covers.'),
+  specFileName: z.string(),
+  specRelativePath: z.string().optional().describe('Where the spec is saved, relative to the repository root, when not under cypress/e2e.'),
+  testType: z.enum(['E2E', 'Component']),
+  testCode: z.string(),
+  model: z.string().optional().describe('Model that generated or last repaired the spec, e.g. "googleai/gemini-2.0-flash".'),
+  edited: z.boolean().optional().describe('True when the code was changed in the editor after the model produced it.'),
+  updatedAt: z.string().describe('ISO timestamp of the last generation or repair.'),
+});
+export type ProjectSpec = z.infer<typeof ProjectSpecSchema>;
+
+export const ProjectRunSchema = z.object({
+  id: z.string(),
+  startedAt: z.string().describe('ISO timestamp.'),
+  finishedAt: z.string().describe('ISO timestamp.'),
+  specs: z.array(z.string()).describe('Relative paths of the specs in the run.'),
+  status: z.enum(['completed_successfully', 'completed_with_failures', 'error_running', 'error_saving_file']),
+  message: z.string(),
+  runSummary: z.string().optional(),
+  results: CypressRunResultsSchema.optional(),
+});
+export type ProjectRun = z.infer<typeof ProjectRunSchema>;
+
+export const ProjectSourceSchema = z.enum(['git', 'local', 'archive']);
+export type ProjectSource = z.infer<typeof ProjectSourceSchema>;
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  source: ProjectSourceSchema.default('git'),
+  repoUrl: z.string().optional().describe('The git remote, for git projects.'),
+  localPath: z.string().optional().describe('The directory the code is copied from, for local projects.'),
+  archiveName: z.string().optional().describe('File name of the last uploaded archive, for archive projects.'),
+  appUrl: z.string().optional(),
+  credentialProfileId: z.string().optional().describe('Credential profile used to clone and fetch a private repository.'),
+  ref: z.string().optional().describe('Branch, tag or commit that is checked out. Defaults to the default branch.'),
+  projectRoot: z.string().optional().describe('Subdirectory of the repository used as the project root (analysis and Cypress cwd), e.g. "apps/web".'),
+  sparseCheckout: z.boolean().optional().describe('Only the project root (and root-level files) is checked out.'),
+  partialClone: z.boolean().optional().describe('File contents are downloaded only for checked out files.'),
+  clonePath: z.string().describe('Where the repository is cloned (or the local directory or archive copied) on the server.'),
+  commit: z.string().optional().describe('Short SHA of the checked out commit at the last sync.'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  lastAnalyzedAt: z.string().optional(),
+  workspace: RepositoryWorkspaceSchema.optional().describe('Monorepo packages found by the last analysis.'),
+  appPaths: z.array(z.string()).optional().describe('Monorepo apps chosen for analysis; every web app when omitted.'),
+  lastUsedAt: z.string().describe('Last time the clone was fetched or used for a run; drives garbage collection.'),
+  identifiedFlows: z.array(UserFlowSchema),
+  identifiedFlowsModel: z.string().optional().describe('Model used by the last analysis.'),
+  appMap: AppMapSchema.optional().describe('Pages of the running application from the last crawl.'),
+  selectorPolicy: SelectorPolicySchema.optional().describe('How generated specs select elements; the default policy when omitted.'),
+  specs: z.array(ProjectSpecSchema),
+  runs: z.array(ProjectRunSchema).describe('Run history, newest first.'),
+});
+export type Project = z.infer<typeof ProjectSchema>;
+
+export const ProjectSummarySchema = ProjectSchema.pick({id: true, name: true, source: true, repoUrl: true, localPath: true, archiveName: true, updatedAt: true, lastAnalyzedAt: true}).extend({
+  flowCount: z.number(),
+  specCount: z.number(),
+  lastRunStatus: ProjectRunSchema.shape.status.optional(),
+  hasClone: z.boolean(),
+});
+export type ProjectSummary = z.infer<typeof ProjectSummarySchema>;
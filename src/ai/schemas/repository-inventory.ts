@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Structured inventory of a cloned repository, produced by the repository analyzer.
+ *
+ * - RepositoryInventorySchema - Routes, forms, interactive elements and test ids found in the source.
+ * - RepositoryInventory - The inferred type of the inventory.
+ */
+
+import {z} from 'genkit';
+import {CypressSpecInventorySchema} from '@/ai/schemas/cypress-spec-inventory';
+
+export const RouteEntrySchema = z.object({
+  path: z.string().describe('Route path, with dynamic segments written as ":param" or "*param".'),
+  file: z.string().describe('File that defines or implements the route, relative to the repository root.'),
+  framework: z.enum(['next-app', 'next-pages', 'react-router', 'vue-router', 'angular', 'sveltekit', 'nuxt']),
+  kind: z.enum(['page', 'api']),
+  component: z.string().optional().describe('Component rendered for the route, when declared in a route config.'),
+});
+export type RouteEntry = z.infer<typeof RouteEntrySchema>;
+
+export const FormFieldSchema = z.object({
+  tag: z.string().describe('Element or component name, e.g. "input", "select", "TextField".'),
+  type: z.string().optional(),
+  name: z.string().optional(),
+  id: z.string().optional(),
+  label: z.string().optional().describe('Associated <label> text, aria-label or placeholder.'),
+  testId: z.string().optional(),
+  required: z.boolean().optional(),
+});
+export type FormField = z.infer<typeof FormFieldSchema>;
+
+export const FormEntrySchema = z.object({
+  file: z.string(),
+  line: z.number(),
+  name: z.string().optional().describe('Form name, id or test id; "(no <form> element)" groups standalone fields.'),
+  action: z.string().optional(),
+  fields: z.array(FormFieldSchema),
+});
+export type FormEntry = z.infer<typeof FormEntrySchema>;
+
+export const InteractiveElementSchema = z.object({
+  kind: z.enum(['button', 'link']),
+  file: z.string(),
+  line: z.number(),
+  text: z.string().optional().describe('Visible text or accessible label.'),
+  href: z.string().optional(),
+  testId: z.string().optional(),
+});
+export type InteractiveElement = z.infer<typeof InteractiveElementSchema>;
+
+export const TestIdEntrySchema = z.object({
+  attribute: z.string().describe('Attribute name, e.g. "data-testid" or "data-cy".'),
+  value: z.string(),
+  tag: z.string(),
+  file: z.string(),
+  line: z.number(),
+});
+export type TestIdEntry = z.infer<typeof TestIdEntrySchema>;
+
+export const RepositoryInventorySchema = z.object({
+  packageName: z.string().optional(),
+  frameworks: z.array(z.string()).describe('Frameworks detected from dependencies and file layout.'),
+  keyDependencies: z.array(z.string()),
+  fileCount: z.number().describe('Number of files walked (after .gitignore filtering).'),
+  truncated: z.boolean().describe('True when the walk stopped at the file limit.'),
+  topLevelDirectories: z.array(z.object({name: z.string(), fileCount: z.number()})),
+  routes: z.array(RouteEntrySchema),
+  forms: z.array(FormEntrySchema),
+  interactiveElements: z.array(InteractiveElementSchema),
+  testIds: z.array(TestIdEntrySchema),
+  cypressSpecs: z.array(z.string()).describe('Existing Cypress spec files, relative to the repository root.'),
+  existingTests: CypressSpecInventorySchema.describe('Titles, visits and intercepts of the existing specs, plus custom commands and fixtures.'),
+});
+export type RepositoryInventory = z.infer<typeof RepositoryInventorySchema>;
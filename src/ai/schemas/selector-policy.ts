@@ -0,0 +1,29 @@
+/**
+ * @fileOverview How generated specs select elements, and the source elements that have no test id to select them by.
+ *
+ * - SelectorPolicySchema - Preferred test id attributes, allowed fallbacks and how other CSS selectors are reported.
+ * - SelectorPolicy - The inferred type of the policy.
+ * - UntaggedElementSchema - A field, button or link in the source without one of the policy's test id attributes.
+ * - UntaggedElement - The inferred type of an untagged element.
+ */
+
+import {z} from 'genkit';
+
+export const SelectorPolicySchema = z.object({
+  testIdAttributes: z.array(z.string()).min(1).describe('Test id attributes to select by, most preferred first, e.g. ["data-cy", "data-testid"].'),
+  allowRoleAndLabel: z.boolean().describe('Elements without a test id may be selected by ARIA role or label.'),
+  allowText: z.boolean().describe('Elements without a test id may be selected by their visible text with cy.contains.'),
+  cssSelectors: z.enum(['error', 'warning']).describe('How selectors made only of classes, ids, tags or other attributes are reported. Positional selectors are always errors.'),
+  reportMissingTestIds: z.boolean().describe('List the fields, buttons and links of the flow\'s source files that have no test id.'),
+});
+export type SelectorPolicy = z.infer<typeof SelectorPolicySchema>;
+
+export const UntaggedElementSchema = z.object({
+  file: z.string().describe('Source file, relative to the repository root.'),
+  line: z.number(),
+  tag: z.string().describe('Element or component name, e.g. "button" or "TextField".'),
+  kind: z.enum(['field', 'button', 'link']),
+  text: z.string().optional().describe('Visible text, label, name or placeholder that identifies the element.'),
+  suggestedTestId: z.string().describe('A test id value derived from the text, e.g. "sign-in".'),
+});
+export type UntaggedElement = z.infer<typeof UntaggedElementSchema>;
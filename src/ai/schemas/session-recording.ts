@@ -0,0 +1,48 @@
+/**
+ * @fileOverview A user session recorded in a controlled browser, to be converted into a spec.
+ *
+ * - RecordedTargetSchema - The element an action was performed on, with everything a selector can be built from.
+ * - RecordedEventSchema - A navigation, click, typing, selection, check, form submission or network call.
+ * - SessionRecordingSchema - The recorded events of a session, in order.
+ * - RecordedTarget, RecordedEvent, SessionRecording - The inferred types.
+ */
+
+import {z} from 'genkit';
+
+export const RecordedTargetSchema = z.object({
+  tag: z.string(),
+  role: z.string().describe('ARIA role, explicit or implied by the tag, e.g. "button", "textbox".'),
+  name: z.string().describe('Accessible name: aria-label, associated label, placeholder or text.'),
+  testId: z.string().optional().describe('Test id as an attribute selector, e.g. [data-cy="submit"].'),
+  id: z.string().optional(),
+  fieldName: z.string().optional().describe('The name attribute of a form field.'),
+  type: z.string().optional().describe('The type attribute of an input.'),
+  href: z.string().optional().describe('Link target, as a path for same-origin links.'),
+  cssPath: z.string().describe('A CSS path to the element, used only when nothing better identifies it.'),
+});
+export type RecordedTarget = z.infer<typeof RecordedTargetSchema>;
+
+export const RecordedEventSchema = z.object({
+  type: z.enum(['navigate', 'click', 'type', 'select', 'check', 'submit', 'request']),
+  at: z.number().describe('Milliseconds since the recording started.'),
+  path: z.string().describe('Path and query of the page the event happened on; for "navigate", the page navigated to.'),
+  target: RecordedTargetSchema.optional().describe('The element acted on, for clicks, typing, selections, checks and submissions.'),
+  value: z.string().optional().describe('Text typed or option selected. Empty for sensitive fields.'),
+  checked: z.boolean().optional().describe('For "check": whether the checkbox or radio button ended up checked.'),
+  sensitive: z.boolean().optional().describe('True for password fields; their value is not recorded.'),
+  request: z.object({
+    method: z.string(),
+    url: z.string().describe('Path and query for same-origin calls, the full URL otherwise.'),
+    status: z.number().optional(),
+    resourceType: z.enum(['fetch', 'xhr']),
+  }).optional().describe('For "request": the API call the page made.'),
+});
+export type RecordedEvent = z.infer<typeof RecordedEventSchema>;
+
+export const SessionRecordingSchema = z.object({
+  appUrl: z.string().describe('The URL the browser was opened at.'),
+  startedAt: z.string().describe('ISO timestamp.'),
+  stoppedAt: z.string().describe('ISO timestamp.'),
+  events: z.array(RecordedEventSchema),
+});
+export type SessionRecording = z.infer<typeof SessionRecordingSchema>;
@@ -0,0 +1,37 @@
+/**
+ * @fileOverview Type-check results, completions and validation problems of a spec, produced by the spec language service
+ * and the spec validation.
+ *
+ * - SpecDiagnosticSchema - A TypeScript diagnostic or validation problem as a character range of the spec.
+ * - SpecCompletionSchema - A completion entry at a position of the spec.
+ * - SpecValidationIssueSchema - A problem found by the static validation of a generated spec.
+ */
+
+import {z} from 'genkit';
+
+export const SpecDiagnosticSchema = z.object({
+  from: z.number().describe('Start offset in the spec text.'),
+  to: z.number().describe('End offset in the spec text; equal to from for diagnostics without a range.'),
+  severity: z.enum(['error', 'warning', 'info']),
+  message: z.string(),
+  code: z.number().optional().describe('TypeScript diagnostic code, e.g. 2339.'),
+  rule: z.string().optional().describe('Validation rule that reported the problem, for diagnostics that are not TypeScript errors.'),
+});
+export type SpecDiagnostic = z.infer<typeof SpecDiagnosticSchema>;
+
+export const SpecCompletionSchema = z.object({
+  label: z.string(),
+  kind: z.string().describe('TypeScript element kind, e.g. "method", "property", "var".'),
+  sortText: z.string(),
+});
+export type SpecCompletion = z.infer<typeof SpecCompletionSchema>;
+
+export const SpecValidationIssueSchema = z.object({
+  rule: z.enum(['syntax', 'missing-describe', 'missing-it', 'only', 'hard-wait', 'force-everywhere', 'forced-action', 'positional-selector', 'css-selector', 'test-id-attribute', 'text-selector']),
+  severity: z.enum(['error', 'warning']).describe('Errors fail the validation; warnings are only reported.'),
+  message: z.string(),
+  line: z.number().describe('1-based line in the cleaned spec.'),
+  from: z.number().describe('Start offset in the cleaned spec.'),
+  to: z.number().describe('End offset in the cleaned spec.'),
+});
+export type SpecValidationIssue = z.infer<typeof SpecValidationIssueSchema>;
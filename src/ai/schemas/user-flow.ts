@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Structured user flow identified from a repository and passed through to test generation.
+ *
+ * - UserFlowSchema - A user flow with ordered steps, entry route, test data and implementing files.
+ * - UserFlow - The inferred type of a user flow.
+ */
+
+import {z} from 'genkit';
+
+export const UserFlowSchema = z.object({
+  id: z.string().describe('Stable kebab-case identifier, e.g. "user-login".'),
+  name: z.string().describe('Short human-readable name, e.g. "User Login".'),
+  description: z.string().describe('One or two sentences describing what the user achieves.'),
+  steps: z.array(z.string()).describe('Ordered steps the user takes, e.g. ["Open /login", "Fill in email and password", "Submit the form"].'),
+  entryRoute: z.string().describe('Route or URL where the flow starts, e.g. "/login".'),
+  preconditions: z.array(z.string()).describe('State that must hold before the flow starts, e.g. "An existing user account".'),
+  testData: z.array(z.string()).describe('Data the test needs, e.g. "valid email and password".'),
+  priority: z.enum(['high', 'medium', 'low']).describe('How important the flow is to cover with tests.'),
+  suggestedTestType: z.enum(['E2E', 'Component']).describe('The test type that fits the flow best.'),
+  sourceFiles: z.array(z.string()).describe('Repository files that implement the flow, relative to the repository root (or to the app directory for monorepo apps).'),
+  app: z.string().optional().describe('Monorepo app the flow belongs to, e.g. "apps/web". Generation and runs use the app directory as the project root.'),
+});
+export type UserFlow = z.infer<typeof UserFlowSchema>;
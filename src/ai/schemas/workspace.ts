@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Monorepo layout detected in a repository: the workspace tool and the packages it manages.
+ *
+ * - WorkspacePackageSchema - One package or app with its path and classification.
+ * - RepositoryWorkspaceSchema - The workspace tools found and all packages.
+ * - WorkspacePackage, RepositoryWorkspace - The inferred types.
+ */
+
+import {z} from 'genkit';
+
+export const WorkspaceToolSchema = z.enum(['npm', 'yarn', 'pnpm', 'nx', 'turborepo', 'lerna']);
+export type WorkspaceTool = z.infer<typeof WorkspaceToolSchema>;
+
+export const WorkspacePackageSchema = z.object({
+  name: z.string().describe('Package or Nx project name.'),
+  path: z.string().describe('Directory of the package, relative to the analyzed root, e.g. "apps/web".'),
+  kind: z.enum(['web-app', 'api', 'library', 'unknown']),
+  frameworks: z.array(z.string()).describe('Frameworks detected from the package dependencies.'),
+});
+export type WorkspacePackage = z.infer<typeof WorkspacePackageSchema>;
+
+export const RepositoryWorkspaceSchema = z.object({
+  tools: z.array(WorkspaceToolSchema).describe('Workspace tools configured at the root; empty for a single-package repository.'),
+  packages: z.array(WorkspacePackageSchema),
+});
+export type RepositoryWorkspace = z.infer<typeof RepositoryWorkspaceSchema>;
@@ -0,0 +1,9 @@
+/**
+ * Streams a headless Cypress run to the browser. The page calls this route through
+ * `streamFlow` from `@genkit-ai/next/client` to receive stdout/stderr chunks while the run is in progress.
+ */
+
+import { appRoute } from '@genkit-ai/next';
+import { executeCypressRunHeadless } from '@/ai/flows/execute-cypress-run-headless-flow';
+
+export const POST = appRoute(executeCypressRunHeadless);
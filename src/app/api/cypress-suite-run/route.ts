@@ -0,0 +1,9 @@
+/**
+ * Streams a headless Cypress run over a batch of generated specs. The page calls this route through
+ * `streamFlow` from `@genkit-ai/next/client`, like /api/cypress-run for a single spec.
+ */
+
+import { appRoute } from '@genkit-ai/next';
+import { executeCypressSuiteHeadless } from '@/ai/flows/execute-cypress-run-headless-flow';
+
+export const POST = appRoute(executeCypressSuiteHeadless);
@@ -0,0 +1,33 @@
+/**
+ * Receives a zip or tarball of a project as multipart form data (field "file") and stores it in the workspace.
+ * The returned uploadId is passed to identifyUserFlows, which extracts the archive into the project's workspace.
+ * Server actions cap request bodies, so the archive goes through this route instead.
+ */
+
+import { NextResponse } from 'next/server';
+import { saveUploadedArchive } from '@/ai/projects/project-source';
+
+const DEFAULT_MAX_UPLOAD_MB = 200;
+
+export async function POST(request: Request) {
+  const maxBytes = (Number(process.env.CYPRESS_PILOT_MAX_UPLOAD_MB) || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > maxBytes) {
+    return NextResponse.json({ error: `The archive is larger than ${maxBytes / 1024 / 1024} MB.` }, { status: 413 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Send the archive in the "file" field.' }, { status: 400 });
+    }
+    if (file.size > maxBytes) {
+      return NextResponse.json({ error: `The archive is larger than ${maxBytes / 1024 / 1024} MB.` }, { status: 413 });
+    }
+    const upload = saveUploadedArchive(file.name, Buffer.from(await file.arrayBuffer()));
+    return NextResponse.json(upload);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'Upload failed.' }, { status: 400 });
+  }
+}
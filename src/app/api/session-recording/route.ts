@@ -0,0 +1,9 @@
+/**
+ * Streams a session recording to the browser. The page calls this route through `streamFlow` from
+ * `@genkit-ai/next/client` to list the recorded events while the user works in the recorder window.
+ */
+
+import { appRoute } from '@genkit-ai/next';
+import { recordUserSession } from '@/ai/flows/record-user-session-flow';
+
+export const POST = appRoute(recordUserSession);
@@ -0,0 +1,394 @@
+// @vitest-environment jsdom
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import type { ExecuteCypressRunHeadlessOutput } from '@/ai/flows/execute-cypress-run-headless-flow';
+import CypressPilotPage from '@/app/page';
+
+const mocks = vi.hoisted(() => ({
+  toast: vi.fn(),
+  streamFlow: vi.fn(),
+  identifyUserFlows: vi.fn(),
+  generateCypressTest: vi.fn(),
+  convertRecordingToCypressTest: vi.fn(),
+  listProjects: vi.fn(),
+  getProject: vi.fn(),
+}));
+
+// The page calls its server actions directly; each flow module is replaced so no server code is loaded
+vi.mock('@genkit-ai/next/client', () => ({ streamFlow: mocks.streamFlow }));
+vi.mock('@/hooks/use-toast', () => ({ useToast: () => ({ toast: mocks.toast }) }));
+vi.mock('@/ai/flows/identify-user-flows-flow', () => ({ identifyUserFlows: mocks.identifyUserFlows }));
+vi.mock('@/ai/flows/generate-cypress-test', () => ({ generateCypressTest: mocks.generateCypressTest }));
+vi.mock('@/ai/flows/convert-recording-flow', () => ({ convertRecordingToCypressTest: mocks.convertRecordingToCypressTest }));
+vi.mock('@/ai/flows/generate-cypress-tests-batch-flow', () => ({ generateCypressTestsBatch: vi.fn() }));
+vi.mock('@/ai/flows/repair-cypress-test-flow', () => ({ repairCypressTest: vi.fn() }));
+vi.mock('@/ai/flows/resolve-component-target-flow', () => ({ resolveComponentTarget: vi.fn() }));
+vi.mock('@/ai/flows/analyze-test-coverage-flow', () => ({
+  analyzeTestCoverage: vi.fn(async () => ({ inventory: { specs: [], customCommands: [], fixtures: [] }, coverage: [] })),
+}));
+vi.mock('@/ai/flows/project-workspace-flow', () => ({
+  listProjects: mocks.listProjects,
+  getProject: mocks.getProject,
+  deleteProject: vi.fn(),
+  saveProjectSpecs: vi.fn(),
+  saveProjectSelectorPolicy: vi.fn(),
+  collectStaleClones: vi.fn(),
+}));
+// CodeMirror needs a layout engine jsdom does not have; the page only passes the code in and out
+vi.mock('@/components/SpecEditor', () => ({
+  SpecEditor: ({ value, onChange, readOnly }: { value: string; onChange: (value: string) => void; readOnly?: boolean }) => (
+    <textarea aria-label="Spec code" value={value} readOnly={readOnly} onChange={(e) => onChange(e.target.value)} />
+  ),
+}));
+// The project picker is a Radix select; a button per project is enough to open one
+vi.mock('@/components/ProjectPicker', () => ({
+  ProjectPicker: ({ projects, onOpen }: { projects: { id: string; name: string }[]; onOpen: (projectId: string | null) => void }) => (
+    <div>{projects.map(project => <button key={project.id} onClick={() => onOpen(project.id)}>Open {project.name}</button>)}</div>
+  ),
+}));
+vi.mock('@/ai/flows/credential-profiles-flow', () => ({
+  listCredentialProfiles: vi.fn(async () => []),
+  saveCredentialProfile: vi.fn(),
+  deleteCredentialProfile: vi.fn(),
+  testRepositoryConnection: vi.fn(),
+}));
+
+const loginFlow: UserFlow = {
+  id: 'user-login',
+  name: 'User Login',
+  description: 'A registered user signs in.',
+  steps: ['Open /login', 'Fill in email and password', 'Submit the form'],
+  entryRoute: '/login',
+  preconditions: ['An existing user account'],
+  testData: ['valid email and password'],
+  priority: 'high',
+  suggestedTestType: 'E2E',
+  sourceFiles: ['src/app/login/page.tsx'],
+};
+
+const testCode = "describe('User Login', () => {\n  it('signs in', () => {\n    cy.visit('/login');\n  });\n});";
+
+function analysisSucceeds(flows: UserFlow[] = [loginFlow]) {
+  mocks.identifyUserFlows.mockResolvedValue({
+    identifiedFlows: flows,
+    clonedRepoPath: '/workspace/clones/abc',
+    analysisLog: 'Cloned and analyzed.\n',
+    model: 'googleai/gemini-2.0-flash',
+  });
+}
+
+function generationSucceeds(validation = { passed: true, attempts: 1, issues: [] }) {
+  mocks.generateCypressTest.mockResolvedValue({ testCode, model: 'googleai/gemini-2.0-flash', validation });
+}
+
+function runFinishes(output: Partial<ExecuteCypressRunHeadlessOutput>) {
+  mocks.streamFlow.mockReturnValue({
+    stream: (async function* () {
+      yield { source: 'stdout', browserName: 'electron', text: 'Running login.cy.ts\n', passed: 1, failed: 0, pending: 0 };
+    })(),
+    output: Promise.resolve({ specPath: '/workspace/clones/abc/cypress/e2e/user-login.cy.ts', detailedLog: 'log', ...output }),
+  });
+}
+
+async function analyze(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(screen.getByRole('button', { name: 'Analyze Repository & Identify Flows' }));
+  await screen.findByText('2. Generate Test');
+}
+
+async function generate(user: ReturnType<typeof userEvent.setup>) {
+  await user.click(screen.getByRole('button', { name: 'Generate Cypress Test' }));
+  await screen.findByText('Generated Test Code:');
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+beforeEach(() => {
+  mocks.listProjects.mockResolvedValue([]);
+  mocks.getProject.mockResolvedValue(null);
+});
+
+describe('CypressPilotPage', () => {
+  it('starts on the configuration step only', async () => {
+    render(<CypressPilotPage />);
+
+    expect(screen.getByText('1. Configure Application')).toBeInTheDocument();
+    expect(screen.getByText('Next Steps')).toBeInTheDocument();
+    expect(screen.queryByText('2. Generate Test')).not.toBeInTheDocument();
+    expect(screen.queryByText('3. Test Output & Execution')).not.toBeInTheDocument();
+  });
+
+  it('asks for a source before analyzing', async () => {
+    const user = userEvent.setup();
+    render(<CypressPilotPage />);
+
+    await user.clear(screen.getByLabelText(/Git Repository URL/));
+
+    expect(screen.getByText('Get Started')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Analyze Repository & Identify Flows' })).toBeDisabled();
+  });
+
+  it('moves to the generate step with the first flow selected once flows are identified', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+
+    expect(mocks.identifyUserFlows).toHaveBeenCalledWith(expect.objectContaining({ source: 'git', repoUrl: 'https://github.com/myorg/myapp' }));
+    expect(screen.getAllByText('User Login (high)').length).toBeGreaterThan(0);
+    expect(screen.getByRole('radio', { name: 'End-to-End (E2E)' })).toBeChecked();
+    expect(screen.getByText(/Repository cloned to: \/workspace\/clones\/abc/)).toBeInTheDocument();
+    expect(screen.queryByText('Next Steps')).not.toBeInTheDocument();
+    expect(mocks.toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Analysis Complete' }));
+  });
+
+  it('stays on the configuration step when no flows are identified', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds([]);
+    render(<CypressPilotPage />);
+
+    await user.click(screen.getByRole('button', { name: 'Analyze Repository & Identify Flows' }));
+
+    await waitFor(() => expect(mocks.toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'No Flows Identified' })));
+    expect(screen.queryByText('2. Generate Test')).not.toBeInTheDocument();
+  });
+
+  it('reports a failed analysis in the log and stays on the configuration step', async () => {
+    const user = userEvent.setup();
+    mocks.identifyUserFlows.mockRejectedValue(new Error('Repository not found'));
+    render(<CypressPilotPage />);
+
+    await user.click(screen.getByRole('button', { name: 'Analyze Repository & Identify Flows' }));
+
+    expect(await screen.findByText(/Error during analysis: Repository not found/)).toBeInTheDocument();
+    expect(screen.queryByText('2. Generate Test')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Analyze Repository & Identify Flows' })).toBeEnabled();
+  });
+
+  it('shows the generated code on the output step', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds();
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+
+    expect(mocks.generateCypressTest).toHaveBeenCalledWith(expect.objectContaining({ flow: loginFlow, testType: 'E2E', repoPath: '/workspace/clones/abc' }));
+    expect(screen.getByText('3. Test Output & Execution')).toBeInTheDocument();
+    expect(screen.getByLabelText('Spec code')).toHaveValue(testCode);
+    expect(screen.getByRole('button', { name: 'Run Test (Headless)' })).toBeEnabled();
+  });
+
+  it('warns when the generated spec still fails validation', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds({ passed: false, attempts: 3, issues: [] });
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+
+    expect(mocks.toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Test Needs Fixes', variant: 'destructive' }));
+    expect(screen.getByLabelText('Spec code')).toHaveValue(testCode);
+  });
+
+  it('runs the generated spec and shows a successful run', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds();
+    runFinishes({ status: 'completed_successfully', message: 'Cypress run completed successfully.', runSummary: '1 passing' });
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+    await user.click(screen.getByRole('button', { name: 'Run Test (Headless)' }));
+
+    expect(await screen.findByText('Cypress Run Successful')).toBeInTheDocument();
+    expect(mocks.streamFlow).toHaveBeenCalledWith({
+      url: '/api/cypress-run',
+      input: expect.objectContaining({ testCode, repoPath: '/workspace/clones/abc', specFileName: 'user-login.cy.ts', testType: 'E2E' }),
+    });
+    expect(screen.getByText('/workspace/clones/abc/cypress/e2e/user-login.cy.ts')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Auto-Fix Failing Test' })).not.toBeInTheDocument();
+  });
+
+  it('runs the code as edited in the editor', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds();
+    runFinishes({ status: 'completed_successfully', message: 'Cypress run completed successfully.' });
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+    await user.clear(screen.getByLabelText('Spec code'));
+    await user.type(screen.getByLabelText('Spec code'), "cy.visit('/account');");
+    expect(screen.getByText(/, edited/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Run Test (Headless)' }));
+
+    await screen.findByText('Cypress Run Successful');
+    expect(mocks.streamFlow).toHaveBeenCalledWith(expect.objectContaining({
+      input: expect.objectContaining({ testCode: "cy.visit('/account');" }),
+    }));
+  });
+
+  it('runs a saved Component spec reopened from its project as a Component spec', async () => {
+    const user = userEvent.setup();
+    const specRelativePath = 'src/components/LoginForm.cy.tsx';
+    mocks.listProjects.mockResolvedValue([{ id: 'p1', name: 'Shop', source: 'git', updatedAt: '2026-10-19T09:00:00.000Z', flowCount: 1, specCount: 1, hasClone: true }]);
+    mocks.getProject.mockResolvedValue({
+      id: 'p1', name: 'Shop', source: 'git', clonePath: '/workspace/clones/abc', createdAt: '', updatedAt: '', lastUsedAt: '',
+      identifiedFlows: [loginFlow], runs: [],
+      specs: [{ flowId: 'user-login', specFileName: 'LoginForm.cy.tsx', specRelativePath, testType: 'Component', testCode, updatedAt: '2026-10-19T09:00:00.000Z' }],
+    });
+    runFinishes({ status: 'completed_successfully', message: 'Cypress run completed successfully.' });
+    render(<CypressPilotPage />);
+
+    await user.click(await screen.findByRole('button', { name: 'Open Shop' }));
+    await user.click(await screen.findByRole('button', { name: 'Run Test (Headless)' }));
+
+    await waitFor(() => expect(mocks.streamFlow).toHaveBeenCalledWith({
+      url: '/api/cypress-run',
+      input: expect.objectContaining({ specFileName: 'LoginForm.cy.tsx', specRelativePath, testType: 'Component' }),
+    }));
+  });
+
+  it('runs a saved E2E spec reopened from its project under its saved file name', async () => {
+    const user = userEvent.setup();
+    mocks.listProjects.mockResolvedValue([{ id: 'p1', name: 'Shop', source: 'git', updatedAt: '2026-10-19T09:00:00.000Z', flowCount: 1, specCount: 1, hasClone: true }]);
+    mocks.getProject.mockResolvedValue({
+      id: 'p1', name: 'Shop', source: 'git', clonePath: '/workspace/clones/abc', createdAt: '', updatedAt: '', lastUsedAt: '',
+      identifiedFlows: [loginFlow], runs: [],
+      specs: [{ flowId: 'user-login', specFileName: 'login.cy.ts', testType: 'E2E', testCode, updatedAt: '2026-10-19T09:00:00.000Z' }],
+    });
+    runFinishes({ status: 'completed_successfully', message: 'Cypress run completed successfully.' });
+    render(<CypressPilotPage />);
+
+    await user.click(await screen.findByRole('button', { name: 'Open Shop' }));
+    await user.click(await screen.findByRole('button', { name: 'Run Test (Headless)' }));
+
+    await waitFor(() => expect(mocks.streamFlow).toHaveBeenCalledWith({
+      url: '/api/cypress-run',
+      input: expect.objectContaining({ specFileName: 'login.cy.ts', testType: 'E2E' }),
+    }));
+  });
+
+  it('offers a repair when the run has failures', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds();
+    runFinishes({ status: 'completed_with_failures', message: '1 of 1 tests failed.' });
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+    await user.click(screen.getByRole('button', { name: 'Run Test (Headless)' }));
+
+    expect(await screen.findByText('Cypress Run Had Failures')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Auto-Fix Failing Test' })).toBeInTheDocument();
+  });
+
+  it('goes back to the generate step when the repository is analyzed again', async () => {
+    const user = userEvent.setup();
+    analysisSucceeds();
+    generationSucceeds();
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await generate(user);
+    await analyze(user);
+
+    expect(screen.queryByText('Generated Test Code:')).not.toBeInTheDocument();
+    expect(screen.queryByText('3. Test Output & Execution')).not.toBeInTheDocument();
+  });
+
+  it('records a session and converts it into a spec for a new flow', async () => {
+    const user = userEvent.setup();
+    const recording = {
+      appUrl: 'https://myapp.example.com',
+      startedAt: '2026-10-19T09:00:00.000Z',
+      stoppedAt: '2026-10-19T09:01:00.000Z',
+      events: [
+        { type: 'navigate', at: 0, path: '/login' },
+        { type: 'click', at: 100, path: '/login', target: { tag: 'button', role: 'button', name: 'Sign in', cssPath: 'form > button' } },
+      ],
+    };
+    mocks.streamFlow.mockReturnValue({
+      stream: (async function* () {
+        for (const event of recording.events) yield { event };
+      })(),
+      output: Promise.resolve({ recording, log: '' }),
+    });
+    const recordedFlow = { ...loginFlow, id: 'sign-in', name: 'Sign In', sourceFiles: [] };
+    mocks.convertRecordingToCypressTest.mockResolvedValue({
+      flow: recordedFlow,
+      specFileName: 'sign-in.cy.ts',
+      testCode,
+      model: 'googleai/gemini-2.0-flash',
+      validation: { passed: true, attempts: 1, issues: [] },
+    });
+    render(<CypressPilotPage />);
+
+    await user.click(screen.getByRole('button', { name: 'Start Recording' }));
+    await user.type(await screen.findByLabelText('Flow name'), 'Sign In');
+    expect(screen.getByText('button "Sign in"')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Convert to Cypress Test' }));
+
+    expect(await screen.findByText('Generated Test Code:')).toBeInTheDocument();
+    expect(mocks.streamFlow).toHaveBeenCalledWith({ url: '/api/session-recording', input: { appUrl: 'https://myapp.example.com' } });
+    expect(mocks.convertRecordingToCypressTest).toHaveBeenCalledWith(expect.objectContaining({ recording, flowName: 'Sign In' }));
+    expect(screen.getByLabelText('Spec code')).toHaveValue(testCode);
+    expect(screen.getByText('2. Generate Test')).toBeInTheDocument();
+  });
+
+  it('converts a recording in the chosen monorepo app', async () => {
+    const user = userEvent.setup();
+    const recording = {
+      appUrl: 'https://myapp.example.com',
+      startedAt: '2026-10-19T09:00:00.000Z',
+      stoppedAt: '2026-10-19T09:01:00.000Z',
+      events: [{ type: 'click', at: 100, path: '/', target: { tag: 'button', role: 'button', name: 'New order', cssPath: 'main > button' } }],
+    };
+    mocks.identifyUserFlows.mockResolvedValue({
+      identifiedFlows: [{ ...loginFlow, app: 'apps/web' }],
+      clonedRepoPath: '/workspace/clones/abc',
+      analysisLog: '',
+      model: 'googleai/gemini-2.0-flash',
+      workspace: {
+        tools: ['pnpm'],
+        packages: [
+          { name: 'web', path: 'apps/web', kind: 'web-app', frameworks: ['next'] },
+          { name: 'admin', path: 'apps/admin', kind: 'web-app', frameworks: ['next'] },
+          { name: 'ui', path: 'packages/ui', kind: 'library', frameworks: ['react'] },
+        ],
+      },
+    });
+    mocks.streamFlow.mockReturnValue({
+      stream: (async function* () {})(),
+      output: Promise.resolve({ recording, log: '' }),
+    });
+    mocks.convertRecordingToCypressTest.mockResolvedValue({
+      flow: { ...loginFlow, id: 'new-order', name: 'New Order', sourceFiles: [], app: 'apps/admin' },
+      specFileName: 'new-order.cy.ts',
+      testCode,
+      model: 'googleai/gemini-2.0-flash',
+      validation: { passed: true, attempts: 1, issues: [] },
+    });
+    render(<CypressPilotPage />);
+
+    await analyze(user);
+    await user.click(screen.getByRole('button', { name: 'Start Recording' }));
+    await user.type(await screen.findByLabelText('Flow name'), 'New Order');
+    expect(screen.queryByRole('radio', { name: /packages\/ui/ })).not.toBeInTheDocument();
+    await user.click(screen.getByRole('radio', { name: /apps\/admin/ }));
+    await user.click(screen.getByRole('button', { name: 'Convert to Cypress Test' }));
+
+    await screen.findByText('Generated Test Code:');
+    expect(mocks.convertRecordingToCypressTest).toHaveBeenCalledWith(expect.objectContaining({ app: 'apps/admin', repoPath: '/workspace/clones/abc/apps/admin' }));
+  });
+});
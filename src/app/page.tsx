@@ -1,86 +1,461 @@
 
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { streamFlow } from '@genkit-ai/next/client';
 import { AppHeader } from '@/components/AppHeader';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import type { TestType } from '@/lib/constants';
+import { DEFAULT_SELECTOR_POLICY, type TestType } from '@/lib/constants';
 import { generateCypressTest, type GenerateCypressTestInput, type GenerateCypressTestOutput } from '@/ai/flows/generate-cypress-test';
 import { identifyUserFlows, type IdentifyUserFlowsInput, type IdentifyUserFlowsOutput } from '@/ai/flows/identify-user-flows-flow';
-// Updated import to use the new flow name and potentially different function name if changed
-import { executeCypressRunHeadless, type ExecuteCypressRunHeadlessInput, type ExecuteCypressRunHeadlessOutput } from '@/ai/flows/execute-cypress-run-headless-flow';
-import { Github, Link as LinkIcon, ListTree, TestTubeDiagonal, Wand2, Play, Loader2, CheckCircle2, XCircle, AlertTriangle, Terminal } from 'lucide-react';
+// The headless run is streamed through /api/cypress-run, so only the flow's types are needed here
+import type { executeCypressRunHeadless, executeCypressSuiteHeadless, ExecuteCypressRunHeadlessInput, ExecuteCypressRunHeadlessOutput } from '@/ai/flows/execute-cypress-run-headless-flow';
+// Recording is streamed through /api/session-recording in the same way
+import type { recordUserSession } from '@/ai/flows/record-user-session-flow';
+import { convertRecordingToCypressTest } from '@/ai/flows/convert-recording-flow';
+import { generateCypressTestsBatch, type BatchGenerationResult } from '@/ai/flows/generate-cypress-tests-batch-flow';
+import { repairCypressTest, type RepairCypressTestOutput } from '@/ai/flows/repair-cypress-test-flow';
+import { resolveComponentTarget } from '@/ai/flows/resolve-component-target-flow';
+import { analyzeTestCoverage } from '@/ai/flows/analyze-test-coverage-flow';
+import type { ComponentTestTarget } from '@/ai/schemas/component-test-target';
+import { listProjects, getProject, deleteProject, saveProjectSpecs, saveProjectSelectorPolicy, collectStaleClones } from '@/ai/flows/project-workspace-flow';
+import type { Project, ProjectSource, ProjectSummary } from '@/ai/schemas/project';
+import type { RepositoryWorkspace } from '@/ai/schemas/workspace';
+import { listCredentialProfiles, saveCredentialProfile, deleteCredentialProfile, testRepositoryConnection } from '@/ai/flows/credential-profiles-flow';
+import type { CredentialProfile, SaveCredentialProfileInput } from '@/ai/schemas/credential-profile';
+import type { CypressRunResults } from '@/ai/schemas/cypress-run-results';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+import type { SelectorPolicy, UntaggedElement } from '@/ai/schemas/selector-policy';
+import type { AppMap } from '@/ai/schemas/app-map';
+import type { RecordedEvent, SessionRecording } from '@/ai/schemas/session-recording';
+import { formatUserFlow, sanitizeFlowNameForFilename } from '@/lib/user-flows';
+import { RepairAttempts } from '@/components/RepairAttempts';
+import { UserFlowDetails } from '@/components/UserFlowDetails';
+import { BatchResultsMatrix } from '@/components/BatchResultsMatrix';
+import { ProjectPicker } from '@/components/ProjectPicker';
+import { RunHistory } from '@/components/RunHistory';
+import { CredentialProfilePicker } from '@/components/CredentialProfilePicker';
+import { ProjectSourcePicker, type ArchiveUpload } from '@/components/ProjectSourcePicker';
+import { WorkspaceAppPicker } from '@/components/WorkspaceAppPicker';
+import { TestCoverage, type CoverageReport } from '@/components/TestCoverage';
+import { SpecEditor } from '@/components/SpecEditor';
+import { SelectorPolicySettings } from '@/components/SelectorPolicySettings';
+import { UntaggedElements } from '@/components/UntaggedElements';
+import { RecordedEvents } from '@/components/RecordedEvents';
+import { Github, Link as LinkIcon, ListTree, TestTubeDiagonal, Wand2, Play, Loader2, CheckCircle2, XCircle, AlertTriangle, Terminal, MinusCircle, Wrench, ListChecks, GitBranch, FolderTree, ShieldCheck, RefreshCw, Video } from 'lucide-react';
 
 interface TestRunStatus {
   status: 'idle' | 'running' | 'completed_successfully' | 'completed_with_failures' | 'error_running' | 'error_saving_file';
   message: string;
   specPath?: string;
   runSummary?: string;
+  results?: CypressRunResults;
   detailedLog?: string;
+  appServerLog?: string;
 }
 
-const sanitizeFlowNameForFilename = (flowName: string): string => {
-  return flowName.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/-+/g, '-') + '.cy.ts';
-};
-
-
 export default function CypressPilotPage() {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [projectName, setProjectName] = useState<string>('');
   const [appUrl, setAppUrl] = useState<string>('https://myapp.example.com');
+  const [source, setSource] = useState<ProjectSource>('git');
   const [repoUrl, setRepoUrl] = useState<string>('https://github.com/myorg/myapp');
+  const [localPath, setLocalPath] = useState<string>('');
+  const [archiveUpload, setArchiveUpload] = useState<ArchiveUpload | null>(null);
+  const [isUploadingArchive, setIsUploadingArchive] = useState<boolean>(false);
+  const [gitRef, setGitRef] = useState<string>('');
+  const [projectRoot, setProjectRoot] = useState<string>('');
+  const [sparseCheckout, setSparseCheckout] = useState<boolean>(false);
+  const [partialClone, setPartialClone] = useState<boolean>(false);
+  const [skipCypressSetup, setSkipCypressSetup] = useState<boolean>(false);
+  const [credentialProfiles, setCredentialProfiles] = useState<CredentialProfile[]>([]);
+  const [credentialProfileId, setCredentialProfileId] = useState<string | null>(null);
+  const [isTestingConnection, setIsTestingConnection] = useState<boolean>(false);
+  const [connectionTestResult, setConnectionTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [startAppServer, setStartAppServer] = useState<boolean>(true);
+  const [crawlApp, setCrawlApp] = useState<boolean>(false);
+  const [appMap, setAppMap] = useState<AppMap | null>(null);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recordedEvents, setRecordedEvents] = useState<RecordedEvent[]>([]);
+  const [sessionRecording, setSessionRecording] = useState<SessionRecording | null>(null);
+  const [recordedFlowName, setRecordedFlowName] = useState<string>('');
+  const [recordedApp, setRecordedApp] = useState<string | undefined>(undefined);
   
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [analysisLog, setAnalysisLog] = useState<string | null>(null);
   const [clonedRepoPath, setClonedRepoPath] = useState<string | null>(null);
-  const [userFlows, setUserFlows] = useState<string[]>([]);
-  const [selectedFlow, setSelectedFlow] = useState<string | null>(null);
+  const [workspace, setWorkspace] = useState<RepositoryWorkspace | null>(null);
+  const [selectedAppPaths, setSelectedAppPaths] = useState<string[]>([]);
+  const [userFlows, setUserFlows] = useState<UserFlow[]>([]);
+  const [selectedFlowId, setSelectedFlowId] = useState<string | null>(null);
   const [selectedTestType, setSelectedTestType] = useState<TestType | null>(null);
   
   const [isGeneratingTest, setIsGeneratingTest] = useState<boolean>(false);
   const [generatedTestCode, setGeneratedTestCode] = useState<string | null>(null);
+  const [generatedTestModel, setGeneratedTestModel] = useState<string | null>(null);
+  const [generatedTestEdited, setGeneratedTestEdited] = useState<boolean>(false);
+  const [componentTarget, setComponentTarget] = useState<ComponentTestTarget | null>(null);
+  // Test type and location of the spec in the editor, whether just generated or loaded from the project
+  const [generatedSpecLocation, setGeneratedSpecLocation] = useState<{ testType: TestType; specFileName?: string; specRelativePath?: string }>({ testType: 'E2E' });
+  const [selectorPolicy, setSelectorPolicy] = useState<SelectorPolicy>(DEFAULT_SELECTOR_POLICY);
+  const [untaggedElements, setUntaggedElements] = useState<UntaggedElement[] | null>(null);
+  const [markupFiles, setMarkupFiles] = useState<string[]>([]);
   
   const [isRunningTest, setIsRunningTest] = useState<boolean>(false);
   const [testRunStatus, setTestRunStatus] = useState<TestRunStatus>({ status: 'idle', message: '' });
+  const [liveRunLog, setLiveRunLog] = useState<string>('');
+  const [liveRunProgress, setLiveRunProgress] = useState<{ browserName: string; passed: number; failed: number; pending: number } | null>(null);
+  const liveRunLogEndRef = useRef<HTMLDivElement>(null);
+
+  const [isRepairing, setIsRepairing] = useState<boolean>(false);
+  const [repairMaxAttempts, setRepairMaxAttempts] = useState<number>(3);
+  const [repairResult, setRepairResult] = useState<RepairCypressTestOutput | null>(null);
+
+  const [batchFlowIds, setBatchFlowIds] = useState<string[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(3);
+  const [isGeneratingBatch, setIsGeneratingBatch] = useState<boolean>(false);
+  const [batchGenerations, setBatchGenerations] = useState<BatchGenerationResult[] | null>(null);
+  const [batchTestType, setBatchTestType] = useState<TestType>('E2E');
+  const [isRunningSuite, setIsRunningSuite] = useState<boolean>(false);
+  const [suiteRunOutput, setSuiteRunOutput] = useState<ExecuteCypressRunHeadlessOutput | null>(null);
+
+  const [coverageReports, setCoverageReports] = useState<CoverageReport[] | null>(null);
+  const [isCheckingCoverage, setIsCheckingCoverage] = useState<boolean>(false);
+
+  useEffect(() => {
+    liveRunLogEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [liveRunLog]);
 
   const { toast } = useToast();
+  const selectedFlow = userFlows.find(flow => flow.id === selectedFlowId) || null;
+  // Flows of a monorepo app are generated and run with the app directory as the project root
+  const appRepoPath = (app: string | undefined) => clonedRepoPath && app ? `${clonedRepoPath}/${app}` : clonedRepoPath;
+  const selectedFlowRepoPath = appRepoPath(selectedFlow?.app);
+  // Where the run saves the selected flow's spec; the editor type-checks the code as that file
+  const selectedSpecFileName = generatedSpecLocation.specRelativePath?.split('/').pop() || generatedSpecLocation.specFileName || sanitizeFlowNameForFilename(selectedFlow?.name || 'spec');
+  const selectedSpecRelativePath = generatedSpecLocation.specRelativePath || `cypress/e2e/${selectedSpecFileName}`;
+  const flowGroups = userFlows.reduce<{ app?: string; flows: UserFlow[] }[]>((groups, flow) => {
+    const group = groups.find(existing => existing.app === flow.app);
+    if (group) group.flows.push(flow);
+    else groups.push({ app: flow.app, flows: [flow] });
+    return groups;
+  }, []);
+  const batchApp = userFlows.find(flow => batchFlowIds.includes(flow.id))?.app;
+  // In a monorepo a recording belongs to one of the web apps, the first one unless another is chosen
+  const recordingApps = workspace?.packages.filter(pkg => pkg.kind === 'web-app') || [];
+  const recordingApp = recordingApps.some(pkg => pkg.path === recordedApp) ? recordedApp : recordingApps[0]?.path;
+
+  const refreshTestCoverage = async () => {
+    if (!clonedRepoPath || userFlows.length === 0) {
+      setCoverageReports(null);
+      return;
+    }
+    setIsCheckingCoverage(true);
+    try {
+      setCoverageReports(await Promise.all(flowGroups.map(async (group) => ({
+        app: group.app,
+        ...await analyzeTestCoverage({ repoPath: appRepoPath(group.app)!, flows: group.flows }),
+      }))));
+    } catch (error: any) {
+      console.error("Error checking test coverage:", error);
+      setCoverageReports(null);
+    }
+    setIsCheckingCoverage(false);
+  };
+
+  useEffect(() => {
+    refreshTestCoverage();
+  }, [clonedRepoPath, userFlows]);
+
+  const refreshProjects = async (projectId?: string | null) => {
+    try {
+      setProjects(await listProjects());
+      if (projectId) {
+        setCurrentProject(await getProject({ projectId }));
+      }
+    } catch (error: any) {
+      console.error("Error loading projects:", error);
+    }
+  };
+
+  const refreshCredentialProfiles = async () => {
+    try {
+      setCredentialProfiles(await listCredentialProfiles());
+    } catch (error: any) {
+      console.error("Error loading credential profiles:", error);
+    }
+  };
+
+  useEffect(() => {
+    refreshProjects();
+    refreshCredentialProfiles();
+  }, []);
+
+  const handleSaveCredentialProfile = async (input: SaveCredentialProfileInput): Promise<boolean> => {
+    try {
+      const profile = await saveCredentialProfile(input);
+      await refreshCredentialProfiles();
+      setCredentialProfileId(profile.id);
+      setConnectionTestResult(null);
+      toast({ title: "Credential Profile Saved", description: `${profile.name} is now selected.` });
+      return true;
+    } catch (error: any) {
+      toast({ title: "Could Not Save Profile", description: error.message || 'Unknown error', variant: "destructive" });
+      return false;
+    }
+  };
+
+  const handleDeleteCredentialProfile = async (profileId: string) => {
+    try {
+      await deleteCredentialProfile({ credentialProfileId: profileId });
+      if (credentialProfileId === profileId) {
+        setCredentialProfileId(null);
+      }
+      await refreshCredentialProfiles();
+    } catch (error: any) {
+      toast({ title: "Could Not Delete Profile", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setIsTestingConnection(true);
+    setConnectionTestResult(null);
+    try {
+      setConnectionTestResult(await testRepositoryConnection({ repoUrl, credentialProfileId: credentialProfileId || undefined }));
+    } catch (error: any) {
+      setConnectionTestResult({ ok: false, message: error.message || 'Unknown error' });
+    }
+    setIsTestingConnection(false);
+  };
+
+  // Shows the spec saved on the project for a flow, if any
+  const loadSavedSpec = (project: Project | null, flowId: string) => {
+    const saved = project?.specs.filter(spec => spec.flowId === flowId).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+    setGeneratedTestCode(saved?.testCode || null);
+    setGeneratedTestModel(saved?.model || null);
+    setGeneratedTestEdited(!!saved?.edited);
+    setComponentTarget(null);
+    setGeneratedSpecLocation({ testType: saved?.testType || 'E2E', specFileName: saved?.specFileName, specRelativePath: saved?.specRelativePath });
+    setMarkupFiles([]);
+    setUntaggedElements(null);
+    setTestRunStatus({ status: 'idle', message: '' });
+    setRepairResult(null);
+    if (saved) {
+      setSelectedTestType(saved.testType);
+    }
+  };
+
+  const handleSelectFlow = (flowId: string) => {
+    setSelectedFlowId(flowId);
+    const flow = userFlows.find(f => f.id === flowId);
+    if (flow) {
+      setSelectedTestType(flow.suggestedTestType);
+    }
+    loadSavedSpec(currentProject, flowId);
+  };
+
+  const handleOpenProject = async (projectId: string | null) => {
+    setBatchFlowIds([]);
+    setBatchGenerations(null);
+    setSuiteRunOutput(null);
+    setAnalysisLog(null);
+    setRecordedEvents([]);
+    setSessionRecording(null);
+    if (!projectId) {
+      setCurrentProject(null);
+      setUserFlows([]);
+      setSelectedFlowId(null);
+      setClonedRepoPath(null);
+      setWorkspace(null);
+      setSelectedAppPaths([]);
+      setSelectorPolicy(DEFAULT_SELECTOR_POLICY);
+      setAppMap(null);
+      loadSavedSpec(null, '');
+      return;
+    }
+    try {
+      const project = await getProject({ projectId });
+      if (!project) {
+        toast({ title: "Project Not Found", description: "The project no longer exists on the server.", variant: "destructive" });
+        await refreshProjects();
+        return;
+      }
+      const summary = projects.find(p => p.id === projectId);
+      setCurrentProject(project);
+      setSource(project.source);
+      setRepoUrl(project.repoUrl || '');
+      setLocalPath(project.localPath || '');
+      setArchiveUpload(project.archiveName ? { archiveName: project.archiveName } : null);
+      setAppUrl(project.appUrl || '');
+      setCredentialProfileId(project.credentialProfileId || null);
+      setGitRef(project.ref || '');
+      setProjectRoot(project.projectRoot || '');
+      setSparseCheckout(!!project.sparseCheckout);
+      setPartialClone(!!project.partialClone);
+      setConnectionTestResult(null);
+      setUserFlows(project.identifiedFlows);
+      setWorkspace(project.workspace || null);
+      setSelectedAppPaths(project.appPaths || []);
+      setSelectorPolicy(project.selectorPolicy || DEFAULT_SELECTOR_POLICY);
+      setAppMap(project.appMap || null);
+      // A collected clone is re-created by analyzing the project again
+      setClonedRepoPath(summary?.hasClone === false ? null : project.projectRoot ? `${project.clonePath}/${project.projectRoot}` : project.clonePath);
+      const firstFlow = project.identifiedFlows[0];
+      setSelectedFlowId(firstFlow?.id || null);
+      if (firstFlow) {
+        setSelectedTestType(firstFlow.suggestedTestType);
+      }
+      loadSavedSpec(project, firstFlow?.id || '');
+    } catch (error: any) {
+      console.error("Error opening project:", error);
+      toast({ title: "Could Not Open Project", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!currentProject) return;
+    try {
+      await deleteProject({ projectId: currentProject.id });
+      toast({ title: "Project Deleted", description: `${currentProject.name} and its clone were removed.` });
+      await handleOpenProject(null);
+      await refreshProjects();
+    } catch (error: any) {
+      toast({ title: "Delete Failed", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+  };
+
+  const handleCollectStaleClones = async () => {
+    try {
+      const output = await collectStaleClones();
+      toast({ title: "Stale Clones Removed", description: `${output.removed.length} clone(s) removed.` });
+      await refreshProjects(currentProject?.id);
+    } catch (error: any) {
+      toast({ title: "Cleanup Failed", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+  };
+
+  const saveSpecsToProject = async (specs: Parameters<typeof saveProjectSpecs>[0]['specs']) => {
+    if (!currentProject || specs.length === 0) return;
+    try {
+      await saveProjectSpecs({ projectId: currentProject.id, specs });
+      await refreshProjects(currentProject.id);
+    } catch (error: any) {
+      console.error("Error saving specs to project:", error);
+    }
+  };
+
+  const handleSelectorPolicyChange = async (policy: SelectorPolicy) => {
+    setSelectorPolicy(policy);
+    if (!currentProject) return;
+    try {
+      await saveProjectSelectorPolicy({ projectId: currentProject.id, selectorPolicy: policy });
+    } catch (error: any) {
+      console.error("Error saving the selector policy:", error);
+    }
+  };
+
+  const hasSource = source === 'git' ? !!repoUrl : source === 'local' ? !!localPath : !!archiveUpload || !!currentProject;
+  const sourceDescription = source === 'git' ? `Git Repo: ${repoUrl}` : source === 'local' ? `Local directory: ${localPath}` : `Uploaded archive: ${archiveUpload?.archiveName || 'N/A'}`;
+
+  const handleUploadArchive = async (file: File) => {
+    setIsUploadingArchive(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/project-uploads', { method: 'POST', body: formData });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || `Upload failed with status ${response.status}.`);
+      }
+      setArchiveUpload({ uploadId: body.uploadId, archiveName: body.archiveName });
+      toast({ title: "Archive Uploaded", description: `${body.archiveName} will be extracted when you analyze the project.` });
+    } catch (error: any) {
+      console.error("Error uploading archive:", error);
+      toast({ title: "Upload Failed", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+    setIsUploadingArchive(false);
+  };
 
   const handleAnalyzeRepo = async () => {
-    if (!repoUrl) {
-      toast({ title: "Missing Repository URL", description: "Please provide the GitHub Repository URL.", variant: "destructive" });
+    if (source === 'git' && !repoUrl) {
+      toast({ title: "Missing Repository URL", description: "Please provide the git repository URL.", variant: "destructive" });
+      return;
+    }
+    if (source === 'local' && !localPath) {
+      toast({ title: "Missing Directory", description: "Please provide the directory to analyze.", variant: "destructive" });
+      return;
+    }
+    if (source === 'archive' && !archiveUpload?.uploadId && !currentProject) {
+      toast({ title: "Missing Archive", description: "Please upload a zip or tarball of the project.", variant: "destructive" });
       return;
     }
     setIsAnalyzing(true);
     setUserFlows([]);
-    setSelectedFlow(null);
+    setSelectedFlowId(null);
     setGeneratedTestCode(null);
+    setComponentTarget(null);
     setClonedRepoPath(null);
     setTestRunStatus({ status: 'idle', message: '' });
+    setRepairResult(null);
+    setBatchFlowIds([]);
+    setBatchGenerations(null);
+    setSuiteRunOutput(null);
     setAnalysisLog("Starting repository analysis...\nThis may take a moment depending on repository size.\n");
     
     try {
       const input: IdentifyUserFlowsInput = {
-        repoUrl,
+        source,
+        repoUrl: source === 'git' ? repoUrl : undefined,
+        localPath: source === 'local' ? localPath : undefined,
+        uploadId: source === 'archive' ? archiveUpload?.uploadId : undefined,
+        archiveName: source === 'archive' ? archiveUpload?.archiveName : undefined,
         appUrl: appUrl || undefined,
+        skipCypressSetup,
+        projectId: currentProject?.id,
+        projectName: projectName || undefined,
+        credentialProfileId: source === 'git' ? credentialProfileId || undefined : undefined,
+        ref: source === 'git' ? gitRef.trim() || undefined : undefined,
+        projectRoot: projectRoot.trim() || undefined,
+        sparseCheckout: source === 'git' && sparseCheckout,
+        partialClone: source === 'git' && partialClone,
+        appPaths: selectedAppPaths.length > 0 ? selectedAppPaths : undefined,
+        crawlApp: crawlApp && !!appUrl,
       };
       const output: IdentifyUserFlowsOutput = await identifyUserFlows(input);
       
       setAnalysisLog(prev => prev + (output.analysisLog || "Analysis process completed.\n"));
+      if (source === 'archive' && archiveUpload) {
+        // The upload is consumed by the extraction
+        setArchiveUpload({ archiveName: archiveUpload.archiveName });
+      }
       setClonedRepoPath(output.clonedRepoPath || null);
+      setWorkspace(output.workspace || null);
+      if (output.appMap) {
+        setAppMap(output.appMap);
+      }
+      setSelectedAppPaths(prev => prev.filter(appPath => output.workspace?.packages.some(pkg => pkg.path === appPath)));
+      if (output.projectId) {
+        await refreshProjects(output.projectId);
+      }
 
       if (output.clonedRepoPath) {
-         setAnalysisLog(prev => prev + `Repository cloned to: ${output.clonedRepoPath}\n`);
+         setAnalysisLog(prev => prev + `${source === 'git' ? 'Repository cloned' : 'Project copied'} to: ${output.clonedRepoPath}${output.commit ? ` (commit ${output.commit})` : ''}\n`);
       }
 
       if (output.identifiedFlows && output.identifiedFlows.length > 0) {
         setUserFlows(output.identifiedFlows);
-        setSelectedFlow(output.identifiedFlows[0] || null);
+        setSelectedFlowId(output.identifiedFlows[0].id);
+        setSelectedTestType(output.identifiedFlows[0].suggestedTestType);
         toast({ title: "Analysis Complete", description: "User flows identified. Please select a flow and test type." });
       } else {
         setUserFlows([]);
@@ -103,16 +478,56 @@ export default function CypressPilotPage() {
     }
     setIsGeneratingTest(true);
     setGeneratedTestCode(null);
+    setComponentTarget(null);
+    setUntaggedElements(null);
+    setMarkupFiles([]);
     setTestRunStatus({ status: 'idle', message: '' });
+    setRepairResult(null);
     try {
+      let target: ComponentTestTarget | undefined;
+      if (selectedTestType === 'Component' && selectedFlowRepoPath) {
+        const resolved = await resolveComponentTarget({ repoPath: selectedFlowRepoPath, flow: selectedFlow });
+        if (!resolved.target) {
+          toast({ title: "Component Not Found", description: resolved.error || 'Could not locate the component for this flow.', variant: "destructive" });
+          setIsGeneratingTest(false);
+          return;
+        }
+        target = resolved.target;
+        setComponentTarget(target);
+      }
       const input: GenerateCypressTestInput = {
-        flowDescription: selectedFlow,
+        flowDescription: formatUserFlow(selectedFlow),
+        flow: selectedFlow,
         testType: selectedTestType,
-        applicationDetails: `App URL: ${appUrl || 'N/A'}, GitHub Repo: ${repoUrl}`, 
+        componentTarget: target,
+        applicationDetails: `App URL: ${appUrl || 'N/A'}, ${sourceDescription}`, 
+        repoPath: selectedFlowRepoPath || undefined,
+        selectorPolicy,
+        appMap: appMap || undefined,
+        startAppServer,
       };
       const output: GenerateCypressTestOutput = await generateCypressTest(input);
+      setGeneratedSpecLocation({ testType: selectedTestType, specRelativePath: target?.specRelativePath });
       setGeneratedTestCode(output.testCode);
-      toast({ title: "Test Generated", description: "Cypress test code has been successfully generated." });
+      setUntaggedElements(output.untaggedElements || null);
+      setMarkupFiles(output.markupFiles || []);
+      setGeneratedTestModel(output.model);
+      setGeneratedTestEdited(false);
+      await saveSpecsToProject([{
+        flowId: selectedFlow.id,
+        specFileName: target ? target.specRelativePath.split('/').pop()! : sanitizeFlowNameForFilename(selectedFlow.name),
+        specRelativePath: target?.specRelativePath,
+        testType: selectedTestType,
+        testCode: output.testCode,
+        model: output.model,
+      }]);
+      if (!output.validation.passed) {
+        toast({ title: "Test Needs Fixes", description: `The generated spec still fails validation after ${output.validation.attempts} attempts. Fix the marked problems before running it.`, variant: "destructive" });
+      } else if (output.validation.attempts > 1) {
+        toast({ title: "Test Generated", description: `Cypress test code was generated after ${output.validation.attempts} attempts; the earlier ones failed validation.` });
+      } else {
+        toast({ title: "Test Generated", description: "Cypress test code has been successfully generated." });
+      }
     } catch (error: any) {
       console.error("Error generating test:", error);
       toast({ title: "Generation Failed", description: `Could not generate the Cypress test: ${error.message || 'Unknown error'}. Please try again.`, variant: "destructive" });
@@ -120,12 +535,89 @@ export default function CypressPilotPage() {
     setIsGeneratingTest(false);
   };
 
+  const handleRecordSession = async () => {
+    if (!appUrl) {
+      toast({ title: "Missing App URL", description: "Enter the App URL to open in the recorder.", variant: "destructive" });
+      return;
+    }
+    setIsRecording(true);
+    setRecordedEvents([]);
+    setSessionRecording(null);
+    try {
+      const response = streamFlow<typeof recordUserSession>({ url: '/api/session-recording', input: { appUrl } });
+      for await (const chunk of response.stream) {
+        if (chunk.event) {
+          setRecordedEvents(prev => [...prev, chunk.event!]);
+        }
+      }
+      const output = await response.output;
+      setSessionRecording(output.recording);
+      const actions = output.recording.events.filter(event => event.type !== 'request' && event.type !== 'navigate').length;
+      toast({ title: "Session Recorded", description: `${actions} actions recorded. Name the flow and convert it to a Cypress test.` });
+    } catch (error: any) {
+      console.error("Error recording session:", error);
+      toast({ title: "Recording Failed", description: error.message || 'Unknown error', variant: "destructive" });
+    }
+    setIsRecording(false);
+  };
+
+  const handleConvertRecording = async () => {
+    if (!sessionRecording || !recordedFlowName.trim()) {
+      toast({ title: "Missing Flow Name", description: "Name the recorded flow before converting it.", variant: "destructive" });
+      return;
+    }
+    setIsGeneratingTest(true);
+    setGeneratedTestCode(null);
+    setComponentTarget(null);
+    setUntaggedElements(null);
+    setMarkupFiles([]);
+    setTestRunStatus({ status: 'idle', message: '' });
+    setRepairResult(null);
+    try {
+      const output = await convertRecordingToCypressTest({
+        recording: sessionRecording,
+        flowName: recordedFlowName.trim(),
+        applicationDetails: `App URL: ${appUrl || 'N/A'}, ${sourceDescription}`,
+        repoPath: appRepoPath(recordingApp) || undefined,
+        app: recordingApp,
+        selectorPolicy,
+        appMap: appMap || undefined,
+        startAppServer,
+        projectId: currentProject?.id,
+      });
+      setUserFlows(prev => [...prev.filter(flow => flow.id !== output.flow.id), output.flow]);
+      setSelectedFlowId(output.flow.id);
+      setSelectedTestType('E2E');
+      setGeneratedSpecLocation({ testType: 'E2E', specFileName: output.specFileName });
+      setGeneratedTestCode(output.testCode);
+      setMarkupFiles(output.markupFiles || []);
+      setGeneratedTestModel(output.model);
+      setGeneratedTestEdited(false);
+      await saveSpecsToProject([{
+        flowId: output.flow.id,
+        specFileName: output.specFileName,
+        testType: 'E2E',
+        testCode: output.testCode,
+        model: output.model,
+      }]);
+      if (!output.validation.passed) {
+        toast({ title: "Test Needs Fixes", description: `The converted spec still fails validation after ${output.validation.attempts} attempts. Fix the marked problems before running it.`, variant: "destructive" });
+      } else {
+        toast({ title: "Recording Converted", description: `"${output.flow.name}" was added to the flows with its Cypress test.` });
+      }
+    } catch (error: any) {
+      console.error("Error converting recording:", error);
+      toast({ title: "Conversion Failed", description: `Could not convert the recording: ${error.message || 'Unknown error'}.`, variant: "destructive" });
+    }
+    setIsGeneratingTest(false);
+  };
+
   const handleRunTestHeadless = async () => {
     if (!generatedTestCode) {
       toast({ title: "No Test Code", description: "Generate a test before running.", variant: "destructive" });
       return;
     }
-    if (!clonedRepoPath) {
+    if (!selectedFlowRepoPath) {
       toast({ title: "Repository Not Analyzed", description: "Please analyze a repository first. The test will run in the context of the cloned repository.", variant: "destructive" });
       return;
     }
@@ -135,24 +627,54 @@ export default function CypressPilotPage() {
     }
 
     setIsRunningTest(true);
-    const specFileName = sanitizeFlowNameForFilename(selectedFlow);
-    setTestRunStatus({ status: 'running', message: `Attempting to run Cypress headlessly for ${specFileName}...`, detailedLog: `Preparing to run Cypress headlessly for ${specFileName} in ${clonedRepoPath}` });
+    const specFileName = selectedSpecFileName;
+    setTestRunStatus({ status: 'running', message: `Attempting to run Cypress headlessly for ${specFileName}...`, detailedLog: `Preparing to run Cypress headlessly for ${specFileName} in ${selectedFlowRepoPath}` });
+    setLiveRunLog('');
+    setLiveRunProgress(null);
+    if (generatedTestEdited) {
+      // The edited code is what runs, so it is also what the project keeps
+      await saveSpecsToProject([{
+        flowId: selectedFlow.id,
+        specFileName,
+        specRelativePath: generatedSpecLocation.specRelativePath,
+        testType: generatedSpecLocation.testType,
+        testCode: generatedTestCode,
+        model: generatedTestModel || undefined,
+        edited: true,
+      }]);
+    }
     
     try {
       const input: ExecuteCypressRunHeadlessInput = {
         testCode: generatedTestCode,
-        repoPath: clonedRepoPath,
+        repoPath: selectedFlowRepoPath,
         specFileName: specFileName,
+        specRelativePath: generatedSpecLocation.specRelativePath,
+        testType: generatedSpecLocation.testType,
+        startAppServer,
+        projectId: currentProject?.id,
       };
-      const output: ExecuteCypressRunHeadlessOutput = await executeCypressRunHeadless(input);
+      const response = streamFlow<typeof executeCypressRunHeadless>({ url: '/api/cypress-run', input });
+      for await (const chunk of response.stream) {
+        setLiveRunLog(prev => prev + chunk.text);
+        if (chunk.source !== 'server') {
+          setLiveRunProgress({ browserName: chunk.browserName, passed: chunk.passed, failed: chunk.failed, pending: chunk.pending });
+        }
+      }
+      const output: ExecuteCypressRunHeadlessOutput = await response.output;
       
       setTestRunStatus({
         status: output.status,
         message: output.message,
         specPath: output.specPath,
         runSummary: output.runSummary,
+        results: output.results,
         detailedLog: output.detailedLog || output.message, 
+        appServerLog: output.appServerLog,
       });
+      if (currentProject) {
+        await refreshProjects(currentProject.id);
+      }
 
       if (output.status === 'completed_successfully') {
         toast({ title: "Cypress Run Successful", description: `Headless test for ${specFileName} passed.` });
@@ -174,6 +696,151 @@ export default function CypressPilotPage() {
     setIsRunningTest(false);
   };
 
+  const toggleBatchFlow = (flowId: string, checked: boolean) => {
+    setBatchFlowIds(prev => checked ? [...prev, flowId] : prev.filter(id => id !== flowId));
+  };
+
+  const handleGenerateBatch = async () => {
+    const flows = userFlows.filter(flow => batchFlowIds.includes(flow.id));
+    if (flows.length === 0) {
+      toast({ title: "No Flows Selected", description: "Select at least one user flow for batch generation.", variant: "destructive" });
+      return;
+    }
+    if (flows.some(flow => flow.app !== batchApp)) {
+      toast({ title: "Several Apps Selected", description: "A batch runs as one suite in one app. Select flows of a single app.", variant: "destructive" });
+      return;
+    }
+    setIsGeneratingBatch(true);
+    setBatchGenerations(null);
+    setSuiteRunOutput(null);
+    const testType = selectedTestType || 'E2E';
+    try {
+      const output = await generateCypressTestsBatch({
+        flows,
+        testType,
+        applicationDetails: `App URL: ${appUrl || 'N/A'}, ${sourceDescription}`,
+        repoPath: appRepoPath(batchApp) || undefined,
+        concurrency: batchConcurrency,
+        selectorPolicy,
+        appMap: appMap || undefined,
+        startAppServer,
+      });
+      setBatchGenerations(output.results);
+      setBatchTestType(testType);
+      await saveSpecsToProject(output.results
+        .filter(result => result.testCode)
+        .map(result => ({ flowId: result.flowId, specFileName: result.specFileName, specRelativePath: result.specRelativePath, testType, testCode: result.testCode!, model: result.model })));
+      const failed = output.results.filter(result => !result.testCode).length;
+      toast({
+        title: "Batch Generated",
+        description: `${output.results.length - failed} of ${output.results.length} specs generated.`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    } catch (error: any) {
+      console.error("Error generating test batch:", error);
+      toast({ title: "Batch Generation Failed", description: `Could not generate the batch: ${error.message || 'Unknown error'}.`, variant: "destructive" });
+    }
+    setIsGeneratingBatch(false);
+  };
+
+  const handleRunSuite = async () => {
+    const specs = (batchGenerations || [])
+      .filter(result => result.testCode)
+      .map(result => ({ specFileName: result.specFileName, specRelativePath: result.specRelativePath, testCode: result.testCode! }));
+    if (specs.length === 0 || !clonedRepoPath) {
+      toast({ title: "Nothing To Run", description: "Generate a batch of specs after analyzing a repository.", variant: "destructive" });
+      return;
+    }
+    setIsRunningSuite(true);
+    setSuiteRunOutput(null);
+    setLiveRunLog('');
+    setLiveRunProgress(null);
+    try {
+      const response = streamFlow<typeof executeCypressSuiteHeadless>({ url: '/api/cypress-suite-run', input: { specs, repoPath: appRepoPath(batchApp)!, testType: batchTestType, startAppServer, projectId: currentProject?.id } });
+      for await (const chunk of response.stream) {
+        setLiveRunLog(prev => prev + chunk.text);
+        if (chunk.source !== 'server') {
+          setLiveRunProgress({ browserName: chunk.browserName, passed: chunk.passed, failed: chunk.failed, pending: chunk.pending });
+        }
+      }
+      const output = await response.output;
+      setSuiteRunOutput(output);
+      if (currentProject) {
+        await refreshProjects(currentProject.id);
+      }
+      if (output.status === 'completed_successfully') {
+        toast({ title: "Suite Passed", description: `All ${specs.length} specs passed.` });
+      } else {
+        toast({ title: "Suite Finished With Problems", description: output.message, variant: "destructive" });
+      }
+    } catch (error: any) {
+      console.error("Error running Cypress suite:", error);
+      toast({ title: "Suite Run Failed", description: `Could not run the suite: ${error.message || 'Unknown error'}.`, variant: "destructive" });
+    }
+    setIsRunningSuite(false);
+  };
+
+  const handleRepairTest = async () => {
+    if (!generatedTestCode || !selectedFlowRepoPath || !selectedFlow) {
+      toast({ title: "Nothing To Repair", description: "Generate and run a test before repairing it.", variant: "destructive" });
+      return;
+    }
+
+    setIsRepairing(true);
+    setRepairResult(null);
+    try {
+      const output = await repairCypressTest({
+        testCode: generatedTestCode,
+        flowDescription: formatUserFlow(selectedFlow),
+        testType: generatedSpecLocation.testType,
+        applicationDetails: `App URL: ${appUrl || 'N/A'}, ${sourceDescription}`,
+        repoPath: selectedFlowRepoPath,
+        specFileName: selectedSpecFileName,
+        specRelativePath: generatedSpecLocation.specRelativePath,
+        startAppServer,
+        projectId: currentProject?.id,
+        failedRun: { message: testRunStatus.message, runSummary: testRunStatus.runSummary, results: testRunStatus.results },
+        maxAttempts: repairMaxAttempts,
+        selectorPolicy,
+      });
+      setRepairResult(output);
+
+      // Attempts rejected by validation were never run; the spec and run shown are those of the last attempt that was
+      const lastAttempt = [...output.attempts].reverse().find(attempt => attempt.run.status !== 'validation_failed');
+      if (lastAttempt && lastAttempt.run.status !== 'validation_failed') {
+        setGeneratedTestCode(output.finalTestCode);
+        setGeneratedTestModel(lastAttempt.model);
+        setGeneratedTestEdited(false);
+        await saveSpecsToProject([{
+          flowId: selectedFlow.id,
+          specFileName: selectedSpecFileName,
+          specRelativePath: generatedSpecLocation.specRelativePath,
+          testType: generatedSpecLocation.testType,
+          testCode: output.finalTestCode,
+          model: lastAttempt.model,
+        }]);
+        setTestRunStatus({
+          status: lastAttempt.run.status,
+          message: lastAttempt.run.message,
+          specPath: testRunStatus.specPath,
+          runSummary: lastAttempt.run.runSummary,
+          results: lastAttempt.run.results,
+          detailedLog: lastAttempt.run.message,
+        });
+      }
+
+      if (output.status === 'repaired') {
+        toast({ title: "Test Repaired", description: output.message });
+      } else {
+        toast({ title: "Repair Incomplete", description: output.message, variant: "destructive" });
+      }
+    } catch (error: any) {
+      console.error("Error repairing test:", error);
+      toast({ title: "Repair Failed", description: `Could not repair the Cypress test: ${error.message || 'Unknown error'}.`, variant: "destructive" });
+    }
+    setIsRepairing(false);
+  };
+
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground font-sans">
       <AppHeader />
@@ -184,21 +851,97 @@ export default function CypressPilotPage() {
             <Card className="shadow-lg">
               <CardHeader>
                 <CardTitle className="text-2xl">1. Configure Application</CardTitle>
-                <CardDescription>Provide your application and repository details. The repository will be cloned locally.</CardDescription>
+                <CardDescription>Open a saved project or provide your application and repository details. The repository is cloned into the project workspace on the server.</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                <ProjectPicker
+                  projects={projects}
+                  currentProjectId={currentProject?.id || null}
+                  projectName={projectName}
+                  disabled={isAnalyzing}
+                  onProjectNameChange={setProjectName}
+                  onOpen={handleOpenProject}
+                  onDelete={handleDeleteProject}
+                  onCollectStaleClones={handleCollectStaleClones}
+                />
                 <div className="space-y-2">
-                  <Label htmlFor="appUrl" className="flex items-center"><LinkIcon className="mr-2 h-4 w-4 text-muted-foreground" />App URL (Optional, for context)</Label>
+                  <Label htmlFor="appUrl" className="flex items-center"><LinkIcon className="mr-2 h-4 w-4 text-muted-foreground" />App URL (Optional, used as the Cypress baseUrl)</Label>
                   <Input id="appUrl" placeholder="https://myapp.example.com" value={appUrl} onChange={(e) => setAppUrl(e.target.value)} />
+                  <div className="flex items-center space-x-2">
+                    <Checkbox id="crawlApp" checked={crawlApp} disabled={!appUrl || isAnalyzing} onCheckedChange={(checked) => setCrawlApp(checked === true)} />
+                    <Label htmlFor="crawlApp" className="font-normal">Crawl the running app during analysis (same-origin pages, headless Chrome when available)</Label>
+                  </div>
+                  {appMap && (
+                    <p className="text-xs text-muted-foreground">
+                      {appMap.pages.length} page(s) of <code className="font-mono">{appMap.origin}</code> crawled {new Date(appMap.crawledAt).toLocaleString()}{appMap.renderer === 'static' && ' from static HTML'}; used when identifying flows and generating E2E tests.
+                    </p>
+                  )}
                 </div>
+                <ProjectSourcePicker
+                  source={source}
+                  localPath={localPath}
+                  archiveUpload={archiveUpload}
+                  isUploading={isUploadingArchive}
+                  disabled={isAnalyzing}
+                  onSourceChange={setSource}
+                  onLocalPathChange={setLocalPath}
+                  onArchiveSelected={handleUploadArchive}
+                />
+                {source === 'git' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="repoUrl" className="flex items-center"><Github className="mr-2 h-4 w-4 text-muted-foreground" />Git Repository URL (HTTPS or SSH)</Label>
+                      <Input id="repoUrl" placeholder="https://github.com/myorg/myapp or git@github.com:myorg/myapp.git" value={repoUrl} onChange={(e) => { setRepoUrl(e.target.value); setConnectionTestResult(null); }} />
+                      <p className="text-xs text-muted-foreground">The repository is cloned once per project; analyzing the project again fetches the latest changes.</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="gitRef" className="flex items-center"><GitBranch className="mr-2 h-4 w-4 text-muted-foreground" />Branch, tag or commit (Optional)</Label>
+                      <Input id="gitRef" placeholder="Default branch" value={gitRef} onChange={(e) => setGitRef(e.target.value)} />
+                    </div>
+                    <CredentialProfilePicker
+                      profiles={credentialProfiles}
+                      selectedProfileId={credentialProfileId}
+                      disabled={isAnalyzing}
+                      isTesting={isTestingConnection}
+                      testResult={connectionTestResult}
+                      onSelect={(profileId) => { setCredentialProfileId(profileId); setConnectionTestResult(null); }}
+                      onSave={handleSaveCredentialProfile}
+                      onDelete={handleDeleteCredentialProfile}
+                      onTestConnection={handleTestConnection}
+                    />
+                  </>
+                )}
                 <div className="space-y-2">
-                  <Label htmlFor="repoUrl" className="flex items-center"><Github className="mr-2 h-4 w-4 text-muted-foreground" />GitHub Repo URL (Public)</Label>
-                  <Input id="repoUrl" placeholder="https://github.com/myorg/myapp" value={repoUrl} onChange={(e) => setRepoUrl(e.target.value)} />
-                   <p className="text-xs text-muted-foreground">The application will clone this public repository to a temporary local directory.</p>
+                  <Label htmlFor="projectRoot" className="flex items-center"><FolderTree className="mr-2 h-4 w-4 text-muted-foreground" />Project root (Optional)</Label>
+                  <Input id="projectRoot" placeholder="e.g. apps/web" value={projectRoot} onChange={(e) => setProjectRoot(e.target.value)} />
+                  <p className="text-xs text-muted-foreground">For monorepos, the project root is the app's subdirectory; analysis, Cypress setup and test runs work from there.</p>
+                </div>
+                {source === 'git' && (
+                  <>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="sparseCheckout" checked={sparseCheckout && !!projectRoot.trim()} disabled={!projectRoot.trim()} onCheckedChange={(checked) => setSparseCheckout(checked === true)} />
+                      <Label htmlFor="sparseCheckout" className="font-normal">Sparse checkout (only the project root and files at the repository root)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox id="partialClone" checked={partialClone} onCheckedChange={(checked) => setPartialClone(checked === true)} />
+                      <Label htmlFor="partialClone" className="font-normal">Partial clone (download file contents only for checked out files)</Label>
+                    </div>
+                  </>
+                )}
+                {workspace && workspace.packages.length > 0 && (
+                  <WorkspaceAppPicker workspace={workspace} selectedAppPaths={selectedAppPaths} disabled={isAnalyzing} onChange={setSelectedAppPaths} />
+                )}
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="startAppServer" checked={startAppServer} onCheckedChange={(checked) => setStartAppServer(checked === true)} />
+                  <Label htmlFor="startAppServer" className="font-normal">Start the app from the repository for E2E runs (its local URL replaces the App URL as baseUrl)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="skipCypressSetup" checked={skipCypressSetup} onCheckedChange={(checked) => setSkipCypressSetup(checked === true)} />
+                  <Label htmlFor="skipCypressSetup" className="font-normal">Skip Cypress setup (repository already has Cypress installed and configured)</Label>
                 </div>
               </CardContent>
               <CardFooter>
-                <Button onClick={handleAnalyzeRepo} disabled={isAnalyzing || !repoUrl} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Button onClick={handleAnalyzeRepo} disabled={isAnalyzing || isUploadingArchive || !hasSource} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
                   {isAnalyzing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListTree className="mr-2 h-4 w-4" />}
                   {isAnalyzing ? 'Analyzing Repository...' : 'Analyze Repository & Identify Flows'}
                 </Button>
@@ -218,6 +961,60 @@ export default function CypressPilotPage() {
               </Card>
             )}
 
+            {currentProject && currentProject.runs.length > 0 && (
+              <Card className="shadow-md">
+                <CardHeader>
+                  <CardTitle className="text-lg">Run History: {currentProject.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RunHistory runs={currentProject.runs} />
+                </CardContent>
+              </Card>
+            )}
+
+            {appUrl && (
+              <Card className="shadow-md">
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center"><Video className="mr-2 h-5 w-5 text-muted-foreground" />Record a Flow</CardTitle>
+                  <CardDescription>Open the App URL in a browser window on the server's machine, go through the flow, then close the window. The clicks, typing, navigations and API calls are converted into a spec.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Button onClick={handleRecordSession} variant="outline" disabled={isRecording || isGeneratingTest} className="w-full">
+                    {isRecording ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Video className="mr-2 h-4 w-4" />}
+                    {isRecording ? 'Recording... close the browser window to finish' : 'Start Recording'}
+                  </Button>
+                  {(isRecording || sessionRecording) && <RecordedEvents events={sessionRecording?.events || recordedEvents} />}
+                  {sessionRecording && (
+                    <div className="space-y-2">
+                      <Label htmlFor="recordedFlowName">Flow name</Label>
+                      <Input id="recordedFlowName" placeholder="e.g. Checkout" value={recordedFlowName} onChange={(e) => setRecordedFlowName(e.target.value)} />
+                    </div>
+                  )}
+                  {sessionRecording && recordingApps.length > 1 && (
+                    <div className="space-y-2">
+                      <Label>App the flow was recorded in</Label>
+                      <RadioGroup value={recordingApp || ""} onValueChange={setRecordedApp} className="space-y-1">
+                        {recordingApps.map((pkg) => (
+                          <div key={pkg.path} className="flex items-center space-x-2">
+                            <RadioGroupItem value={pkg.path} id={`recorded-app-${pkg.path}`} />
+                            <Label htmlFor={`recorded-app-${pkg.path}`} className="font-normal">{pkg.name} <code className="text-xs text-muted-foreground">{pkg.path}</code></Label>
+                          </div>
+                        ))}
+                      </RadioGroup>
+                    </div>
+                  )}
+                </CardContent>
+                {sessionRecording && (
+                  <CardFooter>
+                    <Button onClick={handleConvertRecording} disabled={isGeneratingTest || !recordedFlowName.trim()} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+                      {isGeneratingTest ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+                      {isGeneratingTest ? 'Generating Code...' : 'Convert to Cypress Test'}
+                    </Button>
+                  </CardFooter>
+                )}
+              </Card>
+            )}
+
             {userFlows.length > 0 && (
               <Card className="shadow-lg">
                 <CardHeader>
@@ -227,16 +1024,23 @@ export default function CypressPilotPage() {
                 <CardContent className="space-y-6">
                   <div className="space-y-2">
                     <Label htmlFor="userFlow" className="flex items-center"><ListTree className="mr-2 h-4 w-4 text-muted-foreground" />Select User Flow</Label>
-                    <Select value={selectedFlow || ""} onValueChange={setSelectedFlow}>
+                    <Select value={selectedFlowId || ""} onValueChange={handleSelectFlow}>
                       <SelectTrigger id="userFlow" className="w-full">
                         <SelectValue placeholder="Choose a user flow" />
                       </SelectTrigger>
                       <SelectContent>
-                        {userFlows.map((flow, index) => (
-                          <SelectItem key={`${flow}-${index}`} value={flow}>{flow}</SelectItem>
+                        {flowGroups.map((group) => (
+                          <SelectGroup key={group.app || '.'}>
+                            {group.app && <SelectLabel>{group.app}</SelectLabel>}
+                            {group.flows.map((flow) => (
+                              <SelectItem key={flow.id} value={flow.id}>{flow.name} ({flow.priority})</SelectItem>
+                            ))}
+                          </SelectGroup>
                         ))}
                       </SelectContent>
                     </Select>
+                    {selectedFlow && <UserFlowDetails flow={selectedFlow} />}
+                    {currentProject?.identifiedFlowsModel && <p className="text-xs text-muted-foreground">Flows identified by <code className="font-mono">{currentProject.identifiedFlowsModel}</code></p>}
                   </div>
                   <div className="space-y-3">
                     <Label className="flex items-center"><TestTubeDiagonal className="mr-2 h-4 w-4 text-muted-foreground" />Select Test Type</Label>
@@ -251,6 +1055,7 @@ export default function CypressPilotPage() {
                       </div>
                     </RadioGroup>
                   </div>
+                  <SelectorPolicySettings policy={selectorPolicy} disabled={isGeneratingTest || isGeneratingBatch} onChange={handleSelectorPolicyChange} />
                 </CardContent>
                 <CardFooter>
                   <Button onClick={handleGenerateTest} disabled={isGeneratingTest || !selectedFlow || !selectedTestType} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
@@ -260,6 +1065,61 @@ export default function CypressPilotPage() {
                 </CardFooter>
               </Card>
             )}
+
+            {coverageReports && (
+              <Card className="shadow-md">
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-lg flex items-center"><ShieldCheck className="mr-2 h-5 w-5 text-muted-foreground" />Existing Test Coverage</CardTitle>
+                    <CardDescription>Flows the repository's Cypress specs already test. Generated specs reuse its custom commands and fixtures.</CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={refreshTestCoverage} disabled={isCheckingCoverage}>
+                    {isCheckingCoverage ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <TestCoverage reports={coverageReports} flows={userFlows} />
+                </CardContent>
+              </Card>
+            )}
+
+            {userFlows.length > 1 && (
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle className="text-2xl">Batch Generation</CardTitle>
+                  <CardDescription>Generate specs for several flows at once and run them together as one suite. Uses the test type selected above.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox id="batch-all" checked={batchFlowIds.length === userFlows.length} onCheckedChange={(checked) => setBatchFlowIds(checked === true ? userFlows.map(flow => flow.id) : [])} />
+                    <Label htmlFor="batch-all" className="font-medium">Select all flows</Label>
+                  </div>
+                  <div className="space-y-3">
+                    {flowGroups.map((group) => (
+                      <div key={group.app || '.'} className="space-y-2">
+                        {group.app && <p className="text-xs font-medium text-muted-foreground">{group.app}</p>}
+                        {group.flows.map((flow) => (
+                          <div key={flow.id} className="flex items-center space-x-2">
+                            <Checkbox id={`batch-${flow.id}`} checked={batchFlowIds.includes(flow.id)} onCheckedChange={(checked) => toggleBatchFlow(flow.id, checked === true)} />
+                            <Label htmlFor={`batch-${flow.id}`} className="font-normal">{flow.name} <span className="text-xs text-muted-foreground">({flow.priority})</span></Label>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="batchConcurrency" className="text-xs">Parallel generations</Label>
+                    <Input id="batchConcurrency" type="number" min={1} max={5} className="h-9 w-24" value={batchConcurrency} onChange={(e) => setBatchConcurrency(Math.min(5, Math.max(1, Number(e.target.value) || 1)))} />
+                  </div>
+                </CardContent>
+                <CardFooter>
+                  <Button onClick={handleGenerateBatch} disabled={isGeneratingBatch || batchFlowIds.length === 0} className="w-full bg-accent hover:bg-accent/90 text-accent-foreground">
+                    {isGeneratingBatch ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListChecks className="mr-2 h-4 w-4" />}
+                    {isGeneratingBatch ? 'Generating Batch...' : `Generate Selected (${batchFlowIds.length})`}
+                  </Button>
+                </CardFooter>
+              </Card>
+            )}
             {isAnalyzing && userFlows.length === 0 && !analysisLog?.includes("cloned to:") && ( 
                  <div className="flex flex-col items-center justify-center h-40 border border-dashed rounded-md p-4">
                     <Loader2 className="h-10 w-10 animate-spin text-primary mb-3" />
@@ -270,12 +1130,48 @@ export default function CypressPilotPage() {
 
           {/* Right Pane: Test Code & Launch Control */}
           <div className="space-y-6 md:space-y-8">
-            {(generatedTestCode || isGeneratingTest || isRunningTest || testRunStatus.status !== 'idle') && (
+            {batchGenerations && (
+              <Card className="shadow-lg">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-2xl">Batch Results</CardTitle>
+                  <Button onClick={handleRunSuite} size="sm" variant="outline" disabled={!clonedRepoPath || isRunningSuite || isRunningTest}>
+                    {isRunningSuite ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Terminal className="mr-2 h-4 w-4" />}
+                    {isRunningSuite ? 'Running Suite...' : 'Run Batch as Suite'}
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {isRunningSuite && liveRunProgress && (
+                    <p className="text-xs">
+                      {liveRunProgress.browserName}: <span className="text-green-700 dark:text-green-300">{liveRunProgress.passed} passing</span>, <span className="text-red-700 dark:text-red-300">{liveRunProgress.failed} failing</span>, <span className="text-muted-foreground">{liveRunProgress.pending} pending</span>
+                    </p>
+                  )}
+                  {isRunningSuite && liveRunLog && (
+                    <ScrollArea className="h-48 w-full rounded-md border bg-muted/30 p-3">
+                      <pre className="text-xs font-mono whitespace-pre-wrap break-all">{liveRunLog}</pre>
+                      <div ref={liveRunLogEndRef} />
+                    </ScrollArea>
+                  )}
+                  {suiteRunOutput && (
+                    <div className="text-sm">
+                      <p>{suiteRunOutput.message}</p>
+                      {suiteRunOutput.runSummary && <pre className="mt-2 text-xs font-mono bg-muted/50 p-2 rounded whitespace-pre-wrap break-all">{suiteRunOutput.runSummary}</pre>}
+                      {suiteRunOutput.appServerLog && (
+                        <ScrollArea className="mt-2 h-24 w-full rounded-md border bg-muted/30 p-2">
+                          <pre className="text-xs font-mono whitespace-pre-wrap break-all">{suiteRunOutput.appServerLog}</pre>
+                        </ScrollArea>
+                      )}
+                    </div>
+                  )}
+                  <BatchResultsMatrix generations={batchGenerations} runResults={suiteRunOutput?.results} />
+                </CardContent>
+              </Card>
+            )}
+            {(generatedTestCode !== null || isGeneratingTest || isRunningTest || testRunStatus.status !== 'idle') && (
               <Card className="shadow-lg">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                   <CardTitle className="text-2xl">3. Test Output & Execution</CardTitle>
                   {generatedTestCode && !isRunningTest && (
-                    <Button onClick={handleRunTestHeadless} size="sm" variant="outline" disabled={!clonedRepoPath}>
+                    <Button onClick={handleRunTestHeadless} size="sm" variant="outline" disabled={!clonedRepoPath || isRunningSuite}>
                       <Terminal className="mr-2 h-4 w-4" /> Run Test (Headless)
                     </Button>
                   )}
@@ -288,13 +1184,30 @@ export default function CypressPilotPage() {
                     </div>
                   )}
 
-                  {generatedTestCode && (
+                  {generatedTestCode !== null && (
                     <div>
                       <h3 className="font-semibold mb-2 text-lg">Generated Test Code:</h3>
-                      <ScrollArea className="h-72 w-full rounded-md border bg-muted/30 p-4">
-                        <pre className="text-sm font-mono whitespace-pre-wrap break-all"><code>{generatedTestCode}</code></pre>
-                      </ScrollArea>
+                      {generatedTestModel && <p className="text-xs text-muted-foreground mb-2">Generated by <code className="font-mono">{generatedTestModel}</code>{generatedTestEdited && ', edited'}</p>}
+                      {markupFiles.length > 0 && <p className="text-xs text-muted-foreground mb-2">Selectors taken from the markup of {markupFiles.map(file => <code key={file} className="font-mono mr-1">{file}</code>)}</p>}
+                      <SpecEditor
+                        value={generatedTestCode}
+                        onChange={(code) => { setGeneratedTestCode(code); setGeneratedTestEdited(true); }}
+                        repoPath={selectedFlowRepoPath}
+                        specRelativePath={selectedSpecRelativePath}
+                        selectorPolicy={selectorPolicy}
+                        readOnly={isRunningTest || isRepairing}
+                      />
                       {!clonedRepoPath && <p className="text-sm text-destructive mt-2">Note: Repository analysis with cloning must be successful to enable test execution.</p>}
+                      {componentTarget && (
+                        <div className="mt-2 space-y-1 text-xs">
+                          <p>Mounts <code className="font-mono bg-muted p-1 rounded">{componentTarget.exportName}</code> from <code className="font-mono bg-muted p-1 rounded">{componentTarget.componentFile}</code></p>
+                          <p>Spec file: <code className="font-mono bg-muted p-1 rounded">{componentTarget.specRelativePath}</code></p>
+                          {componentTarget.warnings.map((warning, index) => (
+                            <p key={index} className="flex items-center text-amber-700 dark:text-amber-300"><AlertTriangle className="mr-1 h-3 w-3" />{warning}</p>
+                          ))}
+                        </div>
+                      )}
+                      {untaggedElements && <div className="mt-4"><UntaggedElements elements={untaggedElements} testIdAttribute={selectorPolicy.testIdAttributes[0]} /></div>}
                     </div>
                   )}
                   
@@ -306,8 +1219,19 @@ export default function CypressPilotPage() {
                             <Loader2 className="h-10 w-10 animate-spin text-accent mb-3" />
                             <p className="text-muted-foreground">Running Cypress headlessly...</p>
                             {testRunStatus.detailedLog && <p className="text-xs text-muted-foreground mt-2">{testRunStatus.detailedLog.split('\n')[0]}</p>}
+                            {liveRunProgress && (
+                              <p className="text-xs mt-2">
+                                {liveRunProgress.browserName}: <span className="text-green-700 dark:text-green-300">{liveRunProgress.passed} passing</span>, <span className="text-red-700 dark:text-red-300">{liveRunProgress.failed} failing</span>, <span className="text-muted-foreground">{liveRunProgress.pending} pending</span>
+                              </p>
+                            )}
                         </div>
                       )}
+                      {testRunStatus.status === 'running' && liveRunLog && (
+                        <ScrollArea className="h-48 w-full rounded-md border bg-muted/30 p-3 mt-2">
+                          <pre className="text-xs font-mono whitespace-pre-wrap break-all">{liveRunLog}</pre>
+                          <div ref={liveRunLogEndRef} />
+                        </ScrollArea>
+                      )}
                       {testRunStatus.status !== 'running' && testRunStatus.status !== 'idle' && (
                         <Alert 
                             variant={testRunStatus.status === 'error_running' || testRunStatus.status === 'completed_with_failures' || testRunStatus.status === 'error_saving_file' ? 'destructive' : 'default'}
@@ -339,6 +1263,31 @@ export default function CypressPilotPage() {
                                     <pre className="text-xs font-mono bg-muted/50 p-2 rounded whitespace-pre-wrap break-all">{testRunStatus.runSummary}</pre>
                                 </div>
                             )}
+                            {testRunStatus.results && testRunStatus.results.specs.length > 0 && (
+                                <div className="mt-2 space-y-2">
+                                    <h4 className="font-medium text-xs">Test Results:</h4>
+                                    {testRunStatus.results.specs.map((spec) => (
+                                        <div key={spec.spec} className="rounded border bg-background/50 p-2">
+                                            <p className="font-mono text-xs font-semibold">{spec.spec}</p>
+                                            {spec.error && <pre className="text-xs font-mono text-red-700 dark:text-red-300 whitespace-pre-wrap break-all mt-1">{spec.error}</pre>}
+                                            <ul className="mt-1 space-y-1">
+                                                {spec.tests.map((test, index) => (
+                                                    <li key={`${test.titlePath.join('>')}-${index}`} className="text-xs">
+                                                        <div className="flex items-center">
+                                                            {test.state === 'passed' ? <CheckCircle2 className="mr-1 h-3 w-3 text-green-600 dark:text-green-400" />
+                                                              : test.state === 'failed' ? <XCircle className="mr-1 h-3 w-3 text-red-600 dark:text-red-400" />
+                                                              : <MinusCircle className="mr-1 h-3 w-3 text-muted-foreground" />}
+                                                            <span>{test.titlePath.join(' > ')}</span>
+                                                            <span className="ml-auto text-muted-foreground">{test.durationMs}ms{test.retries > 0 ? `, ${test.retries} retries` : ''}</span>
+                                                        </div>
+                                                        {test.errorMessage && <pre className="ml-4 mt-1 font-mono text-red-700 dark:text-red-300 whitespace-pre-wrap break-all">{test.errorMessage}</pre>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
                             {testRunStatus.detailedLog && (testRunStatus.status !== 'completed_successfully' || testRunStatus.runSummary) && ( 
                                  <ScrollArea className="h-24 max-h-48 rounded-md bg-background/50 p-2 border mt-2">
                                     <pre className="text-xs font-mono whitespace-pre-wrap break-all">
@@ -346,34 +1295,61 @@ export default function CypressPilotPage() {
                                     </pre>
                                 </ScrollArea>
                             )}
+                            {testRunStatus.appServerLog && (
+                                <div className="mt-2">
+                                    <h4 className="font-medium text-xs">Application Server Log:</h4>
+                                    <ScrollArea className="h-24 max-h-48 rounded-md bg-background/50 p-2 border">
+                                        <pre className="text-xs font-mono whitespace-pre-wrap break-all">{testRunStatus.appServerLog}</pre>
+                                    </ScrollArea>
+                                </div>
+                            )}
                           </AlertDescription>
                         </Alert>
                       )}
+                      {testRunStatus.status === 'completed_with_failures' && (
+                        <div className="mt-4 flex items-end gap-2">
+                          <div className="space-y-1">
+                            <Label htmlFor="repairMaxAttempts" className="text-xs">Max repair attempts</Label>
+                            <Input id="repairMaxAttempts" type="number" min={1} max={5} className="h-9 w-24" value={repairMaxAttempts} onChange={(e) => setRepairMaxAttempts(Math.min(5, Math.max(1, Number(e.target.value) || 1)))} disabled={isRepairing} />
+                          </div>
+                          <Button onClick={handleRepairTest} size="sm" variant="outline" disabled={isRepairing || isRunningTest}>
+                            {isRepairing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wrench className="mr-2 h-4 w-4" />}
+                            {isRepairing ? 'Repairing Test...' : 'Auto-Fix Failing Test'}
+                          </Button>
+                        </div>
+                      )}
+                      {repairResult && repairResult.attempts.length > 0 && (
+                        <div className="mt-4">
+                          <h3 className="font-semibold mb-1 text-lg">Repair Attempts:</h3>
+                          <p className="text-sm text-muted-foreground mb-2">{repairResult.message}</p>
+                          <RepairAttempts attempts={repairResult.attempts} />
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
               </Card>
             )}
-             { !isAnalyzing && !isGeneratingTest && !generatedTestCode && userFlows.length === 0 && repoUrl && !clonedRepoPath && (
+             { !isAnalyzing && !isGeneratingTest && !generatedTestCode && userFlows.length === 0 && hasSource && !clonedRepoPath && (
                 <Card className="shadow-lg">
                     <CardHeader>
                         <CardTitle className="text-xl">Next Steps</CardTitle>
                     </CardHeader>
                     <CardContent>
                         <p className="text-muted-foreground">
-                            Click "Analyze Repository & Identify Flows". If analysis fails or no flows are found, check the log. The repository will be cloned to a temporary local directory.
+                            Click "Analyze Repository & Identify Flows". If analysis fails or no flows are found, check the log. The code is cloned or copied into the project workspace.
                         </p>
                     </CardContent>
                 </Card>
             )}
-             { !repoUrl && !isAnalyzing && !isGeneratingTest && (
+             { !hasSource && !isAnalyzing && !isGeneratingTest && (
                  <Card className="shadow-lg">
                     <CardHeader>
                         <CardTitle className="text-xl">Get Started</CardTitle>
                     </CardHeader>
                     <CardContent>
                         <p className="text-muted-foreground">
-                           Provide a public GitHub repository URL in section 1. The app will clone it, analyze its structure, and suggest user flows for test generation. Then, it can attempt to run the generated test headlessly using your local Cypress installation.
+                           Provide a git repository URL, a local directory or a project archive in section 1. The app will copy it into its workspace, analyze its structure, and suggest user flows for test generation. Then, it can attempt to run the generated test headlessly using your local Cypress installation.
                         </p>
                     </CardContent>
                 </Card>
@@ -0,0 +1,59 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { BatchGenerationResult } from '@/ai/flows/generate-cypress-tests-batch-flow';
+import type { CypressRunResults } from '@/ai/schemas/cypress-run-results';
+import { CheckCircle2, XCircle, MinusCircle } from 'lucide-react';
+
+interface BatchResultsMatrixProps {
+  generations: BatchGenerationResult[];
+  runResults?: CypressRunResults;
+}
+
+function StatusCell({ state, label }: { state: 'passed' | 'failed' | 'none'; label: string }) {
+  return (
+    <span className="flex items-center text-xs">
+      {state === 'passed' ? <CheckCircle2 className="mr-1 h-3 w-3 text-green-600 dark:text-green-400" />
+        : state === 'failed' ? <XCircle className="mr-1 h-3 w-3 text-red-600 dark:text-red-400" />
+        : <MinusCircle className="mr-1 h-3 w-3 text-muted-foreground" />}
+      {label}
+    </span>
+  );
+}
+
+export function BatchResultsMatrix({ generations, runResults }: BatchResultsMatrixProps) {
+  return (
+    <Accordion type="multiple" className="w-full">
+      {generations.map((generation) => {
+        const specResult = runResults?.specs.find(spec => spec.spec.split(/[\\/]/).pop() === generation.specFileName);
+        const runState = !specResult ? 'none' : specResult.failures > 0 || specResult.error ? 'failed' : 'passed';
+        const runLabel = !specResult
+          ? (runResults ? 'not in run' : 'not run')
+          : `${specResult.passes}/${specResult.tests.length} passed`;
+        return (
+          <AccordionItem key={generation.flowId} value={generation.flowId}>
+            <AccordionTrigger className="text-sm">
+              <span className="grid w-full grid-cols-3 items-center gap-2 pr-2 text-left">
+                <span className="font-medium">{generation.flowName}</span>
+                <StatusCell state={generation.testCode ? 'passed' : 'failed'} label={generation.testCode ? 'generated' : 'generation failed'} />
+                <StatusCell state={runState} label={runLabel} />
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-2">
+              <p className="text-xs">Spec file: <code className="font-mono bg-muted p-1 rounded">{generation.specFileName}</code></p>
+              {generation.model && <p className="text-xs text-muted-foreground">Generated by <code className="font-mono">{generation.model}</code></p>}
+              {generation.error && <p className="text-xs text-red-700 dark:text-red-300 whitespace-pre-wrap">{generation.error}</p>}
+              {specResult?.tests.filter(test => test.state === 'failed').map((test, index) => (
+                <pre key={index} className="text-xs font-mono text-red-700 dark:text-red-300 whitespace-pre-wrap break-all">{test.titlePath.join(' > ')}: {test.errorMessage}</pre>
+              ))}
+              {generation.testCode && (
+                <ScrollArea className="h-48 w-full rounded-md border bg-muted/30 p-2">
+                  <pre className="text-xs font-mono whitespace-pre-wrap break-all"><code>{generation.testCode}</code></pre>
+                </ScrollArea>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </Accordion>
+  );
+}
@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ProjectSummary } from '@/ai/schemas/project';
+import { FolderOpen, Trash2, Eraser } from 'lucide-react';
+
+export const NEW_PROJECT_VALUE = '__new__';
+
+interface ProjectPickerProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  projectName: string;
+  disabled?: boolean;
+  onProjectNameChange: (name: string) => void;
+  onOpen: (projectId: string | null) => void;
+  onDelete: () => void;
+  onCollectStaleClones: () => void;
+}
+
+export function ProjectPicker({ projects, currentProjectId, projectName, disabled, onProjectNameChange, onOpen, onDelete, onCollectStaleClones }: ProjectPickerProps) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor="project" className="flex items-center"><FolderOpen className="mr-2 h-4 w-4 text-muted-foreground" />Project</Label>
+        <div className="flex gap-2">
+          <Select value={currentProjectId || NEW_PROJECT_VALUE} onValueChange={(value) => onOpen(value === NEW_PROJECT_VALUE ? null : value)} disabled={disabled}>
+            <SelectTrigger id="project" className="w-full">
+              <SelectValue placeholder="Choose a project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NEW_PROJECT_VALUE}>New project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name} ({project.flowCount} flows, {project.specCount} specs{project.hasClone ? '' : ', not cloned'})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {currentProjectId && (
+            <Button variant="outline" size="icon" onClick={onDelete} disabled={disabled} title="Delete project and its clone">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="outline" size="icon" onClick={onCollectStaleClones} disabled={disabled} title="Remove stale clones">
+            <Eraser className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {!currentProjectId && (
+        <div className="space-y-2">
+          <Label htmlFor="projectName">Project name (optional)</Label>
+          <Input id="projectName" placeholder="Defaults to the repository name" value={projectName} onChange={(e) => onProjectNameChange(e.target.value)} disabled={disabled} />
+        </div>
+      )}
+    </div>
+  );
+}
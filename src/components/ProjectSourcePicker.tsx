@@ -0,0 +1,76 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { ProjectSource } from '@/ai/schemas/project';
+import { FolderInput, FileArchive, Loader2 } from 'lucide-react';
+
+export interface ArchiveUpload {
+  uploadId?: string;
+  archiveName: string;
+}
+
+interface ProjectSourcePickerProps {
+  source: ProjectSource;
+  localPath: string;
+  archiveUpload: ArchiveUpload | null;
+  isUploading: boolean;
+  disabled?: boolean;
+  onSourceChange: (source: ProjectSource) => void;
+  onLocalPathChange: (localPath: string) => void;
+  onArchiveSelected: (file: File) => void;
+}
+
+export function ProjectSourcePicker({ source, localPath, archiveUpload, isUploading, disabled, onSourceChange, onLocalPathChange, onArchiveSelected }: ProjectSourcePickerProps) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Source</Label>
+        <RadioGroup value={source} onValueChange={(value) => onSourceChange(value as ProjectSource)} className="flex space-x-4" disabled={disabled}>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="git" id="source-git" />
+            <Label htmlFor="source-git" className="font-normal">Git repository</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="local" id="source-local" />
+            <Label htmlFor="source-local" className="font-normal">Local directory</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="archive" id="source-archive" />
+            <Label htmlFor="source-archive" className="font-normal">Upload archive</Label>
+          </div>
+        </RadioGroup>
+      </div>
+      {source === 'local' && (
+        <div className="space-y-2">
+          <Label htmlFor="localPath" className="flex items-center"><FolderInput className="mr-2 h-4 w-4 text-muted-foreground" />Directory on the server</Label>
+          <Input id="localPath" placeholder="/srv/checkouts/myapp" value={localPath} onChange={(e) => onLocalPathChange(e.target.value)} disabled={disabled} />
+          <p className="text-xs text-muted-foreground">Must be inside one of the directories in CYPRESS_PILOT_LOCAL_ROOTS. The directory is copied into the workspace and never modified.</p>
+        </div>
+      )}
+      {source === 'archive' && (
+        <div className="space-y-2">
+          <Label htmlFor="archiveFile" className="flex items-center"><FileArchive className="mr-2 h-4 w-4 text-muted-foreground" />Zip or tarball</Label>
+          <Input
+            id="archiveFile"
+            type="file"
+            accept=".zip,.tar,.tar.gz,.tgz"
+            disabled={disabled || isUploading}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onArchiveSelected(file);
+              e.target.value = '';
+            }}
+          />
+          <p className="text-xs text-muted-foreground flex items-center">
+            {isUploading && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+            {isUploading ? 'Uploading...'
+              : archiveUpload?.uploadId ? `${archiveUpload.archiveName} is uploaded and will be extracted when the project is analyzed.`
+              : archiveUpload ? `Analyzing again reuses the extracted ${archiveUpload.archiveName}; upload a new archive to replace it.`
+              : 'The archive is extracted into the workspace; a single top-level directory is unwrapped.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import type { RecordedEvent } from '@/ai/schemas/session-recording';
+
+interface RecordedEventsProps {
+  events: RecordedEvent[];
+}
+
+function describeEvent(event: RecordedEvent): string {
+  const target = event.target ? `${event.target.role} "${event.target.name || event.target.testId || event.target.cssPath}"` : '';
+  switch (event.type) {
+    case 'navigate': return event.path;
+    case 'type': return `${event.sensitive ? '(password)' : `"${event.value}"`} into ${target}`;
+    case 'select': return `"${event.value}" in ${target}`;
+    case 'check': return `${event.checked ? 'checked' : 'unchecked'} ${target}`;
+    case 'request': return `${event.request!.method} ${event.request!.url}${event.request!.status !== undefined ? ` (${event.request!.status})` : ' (failed)'}`;
+    default: return target;
+  }
+}
+
+export function RecordedEvents({ events }: RecordedEventsProps) {
+  // Every keystroke is streamed; only the latest value typed into a field is listed
+  const listed = events.filter((event, index) => {
+    const next = events.slice(index + 1).find(later => later.type !== 'request');
+    return !(event.type === 'type' && next?.type === 'type' && next.target?.cssPath === event.target?.cssPath);
+  });
+  if (listed.length === 0) {
+    return <p className="text-xs text-muted-foreground">Nothing recorded yet.</p>;
+  }
+  return (
+    <ul className="max-h-60 space-y-1 overflow-y-auto rounded-md border p-2 text-xs">
+      {listed.map((event, index) => (
+        <li key={index} className={`flex items-center gap-2 ${event.type === 'request' ? 'pl-4 text-muted-foreground' : ''}`}>
+          <Badge variant={event.type === 'request' ? 'secondary' : 'outline'}>{event.type}</Badge>
+          <span className="truncate">{describeEvent(event)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,73 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { RepairAttempt } from '@/ai/flows/repair-cypress-test-flow';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface RepairAttemptsProps {
+  attempts: RepairAttempt[];
+}
+
+function DiffView({ diff }: { diff: string }) {
+  if (!diff) {
+    return <p className="text-xs text-muted-foreground">No changes to the spec.</p>;
+  }
+  return (
+    <ScrollArea className="h-48 w-full rounded-md border bg-muted/30 p-2">
+      <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+        {diff.split('\n').map((line, index) => (
+          <div
+            key={index}
+            className={
+              line.startsWith('+') && !line.startsWith('+++') ? 'bg-green-100 dark:bg-green-900/40'
+              : line.startsWith('-') && !line.startsWith('---') ? 'bg-red-100 dark:bg-red-900/40'
+              : line.startsWith('@@') ? 'text-muted-foreground'
+              : ''
+            }
+          >
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </ScrollArea>
+  );
+}
+
+export function RepairAttempts({ attempts }: RepairAttemptsProps) {
+  return (
+    <Accordion type="multiple" className="w-full">
+      {attempts.map((attempt) => (
+        <AccordionItem key={attempt.attempt} value={`attempt-${attempt.attempt}`}>
+          <AccordionTrigger className="text-sm">
+            <span className="flex items-center">
+              {attempt.run.status === 'completed_successfully'
+                ? <CheckCircle2 className="mr-2 h-4 w-4 text-green-600 dark:text-green-400" />
+                : <XCircle className="mr-2 h-4 w-4 text-red-600 dark:text-red-400" />}
+              Attempt {attempt.attempt}
+              {attempt.run.results && (
+                <Badge variant="outline" className="ml-2">
+                  {attempt.run.results.totalPassed}/{attempt.run.results.totalTests} passed
+                </Badge>
+              )}
+              {attempt.run.status === 'validation_failed' && (
+                <Badge variant="outline" className="ml-2">Rejected by validation, not run</Badge>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-2">
+            <p className="text-xs">{attempt.explanation}</p>
+            <p className="text-xs text-muted-foreground">Proposed by <code className="font-mono">{attempt.model}</code></p>
+            {attempt.sourceFiles.length > 0 && (
+              <p className="text-xs text-muted-foreground">Context files: {attempt.sourceFiles.join(', ')}</p>
+            )}
+            <DiffView diff={attempt.diff} />
+            <p className="text-xs">{attempt.run.message}</p>
+            {attempt.run.runSummary && (
+              <pre className="text-xs font-mono bg-muted/50 p-2 rounded whitespace-pre-wrap break-all">{attempt.run.runSummary}</pre>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
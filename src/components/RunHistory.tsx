@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import type { ProjectRun } from '@/ai/schemas/project';
+
+interface RunHistoryProps {
+  runs: ProjectRun[];
+  limit?: number;
+}
+
+export function RunHistory({ runs, limit = 10 }: RunHistoryProps) {
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs recorded yet.</p>;
+  }
+  return (
+    <ul className="space-y-1 text-xs">
+      {runs.slice(0, limit).map((run) => (
+        <li key={run.id} className="flex items-center gap-2">
+          <Badge variant={run.status === 'completed_successfully' ? 'default' : 'destructive'} className="shrink-0">
+            {run.status === 'completed_successfully' ? 'passed' : run.status === 'completed_with_failures' ? 'failed' : 'error'}
+          </Badge>
+          <span className="shrink-0 text-muted-foreground">{new Date(run.finishedAt).toLocaleString()}</span>
+          <span className="truncate" title={run.message}>{run.specs.join(', ')}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
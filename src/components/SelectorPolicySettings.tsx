@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SelectorPolicy } from '@/ai/schemas/selector-policy';
+import { Crosshair } from 'lucide-react';
+
+interface SelectorPolicySettingsProps {
+  policy: SelectorPolicy;
+  disabled?: boolean;
+  onChange: (policy: SelectorPolicy) => void;
+}
+
+export function SelectorPolicySettings({ policy, disabled, onChange }: SelectorPolicySettingsProps) {
+  // The attribute list is edited as text and applied when the field loses focus
+  const [attributesText, setAttributesText] = useState(policy.testIdAttributes.join(', '));
+  useEffect(() => setAttributesText(policy.testIdAttributes.join(', ')), [policy.testIdAttributes]);
+
+  const applyAttributes = () => {
+    const testIdAttributes = [...new Set(attributesText.split(',').map(attribute => attribute.trim()).filter(Boolean))];
+    if (testIdAttributes.length === 0 || testIdAttributes.join(',') === policy.testIdAttributes.join(',')) {
+      setAttributesText(policy.testIdAttributes.join(', '));
+      return;
+    }
+    onChange({ ...policy, testIdAttributes });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center"><Crosshair className="mr-2 h-4 w-4 text-muted-foreground" />Selector Policy</Label>
+      <div className="space-y-1">
+        <Label htmlFor="testIdAttributes" className="text-xs">Test id attributes, most preferred first</Label>
+        <Input id="testIdAttributes" className="h-9 font-mono text-xs" value={attributesText} disabled={disabled} onChange={(e) => setAttributesText(e.target.value)} onBlur={applyAttributes} />
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox id="allowRoleAndLabel" checked={policy.allowRoleAndLabel} disabled={disabled} onCheckedChange={(checked) => onChange({ ...policy, allowRoleAndLabel: checked === true })} />
+          <Label htmlFor="allowRoleAndLabel" className="font-normal">Then ARIA role or label</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox id="allowText" checked={policy.allowText} disabled={disabled} onCheckedChange={(checked) => onChange({ ...policy, allowText: checked === true })} />
+          <Label htmlFor="allowText" className="font-normal">Then visible text</Label>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <Label htmlFor="cssSelectors" className="text-xs font-normal">Class, id and tag selectors</Label>
+        <Select value={policy.cssSelectors} disabled={disabled} onValueChange={(value) => onChange({ ...policy, cssSelectors: value as SelectorPolicy['cssSelectors'] })}>
+          <SelectTrigger id="cssSelectors" className="h-8 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="error">Fail validation</SelectItem>
+            <SelectItem value="warning">Warn only</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox id="reportMissingTestIds" checked={policy.reportMissingTestIds} disabled={disabled} onCheckedChange={(checked) => onChange({ ...policy, reportMissingTestIds: checked === true })} />
+        <Label htmlFor="reportMissingTestIds" className="font-normal">List elements of the flow's files that have no test id</Label>
+      </div>
+      <p className="text-xs text-muted-foreground">Positional selectors such as :nth-child are always rejected. Generated and repaired specs are checked against this policy.</p>
+    </div>
+  );
+}
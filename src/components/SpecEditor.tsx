@@ -0,0 +1,110 @@
+import { useMemo, useState } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import { javascript } from '@codemirror/lang-javascript';
+import { linter, lintGutter, type Diagnostic } from '@codemirror/lint';
+import { autocompletion, type CompletionContext } from '@codemirror/autocomplete';
+import { checkCypressSpec, completeCypressSpec } from '@/ai/flows/check-cypress-spec-flow';
+import type { SpecDiagnostic } from '@/ai/schemas/spec-diagnostics';
+import type { SelectorPolicy } from '@/ai/schemas/selector-policy';
+
+// CodeMirror completion icons for TypeScript element kinds; other kinds show no icon
+const COMPLETION_TYPES: Record<string, string> = {
+  method: 'method',
+  property: 'property',
+  getter: 'property',
+  setter: 'property',
+  function: 'function',
+  'local function': 'function',
+  var: 'variable',
+  let: 'variable',
+  'local var': 'variable',
+  parameter: 'variable',
+  const: 'constant',
+  class: 'class',
+  interface: 'interface',
+  type: 'type',
+  enum: 'enum',
+  module: 'namespace',
+  keyword: 'keyword',
+};
+
+interface SpecEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Without a cloned repository the spec is highlighted but not checked
+  repoPath?: string | null;
+  specRelativePath: string;
+  // Selectors are linted against the policy generated specs follow
+  selectorPolicy?: SelectorPolicy;
+  readOnly?: boolean;
+}
+
+export function SpecEditor({ value, onChange, repoPath, specRelativePath, selectorPolicy, readOnly }: SpecEditorProps) {
+  const [diagnostics, setDiagnostics] = useState<SpecDiagnostic[] | null>(null);
+  const [cypressTypes, setCypressTypes] = useState<boolean>(true);
+
+  const extensions = useMemo(() => {
+    const language = javascript({ typescript: /\.tsx?$/.test(specRelativePath), jsx: /x$/.test(specRelativePath) });
+    if (!repoPath) return [language];
+
+    const typeCheck = linter(async (view): Promise<Diagnostic[]> => {
+      const code = view.state.doc.toString();
+      try {
+        const output = await checkCypressSpec({ repoPath, specRelativePath, code, selectorPolicy });
+        // The text may have changed while the check ran; a stale result is replaced by the next one
+        if (view.state.doc.toString() !== code) return [];
+        setDiagnostics(output.diagnostics);
+        setCypressTypes(output.cypressTypes);
+        return output.diagnostics.map(diagnostic => ({ ...diagnostic, source: diagnostic.rule || `ts(${diagnostic.code})` }));
+      } catch (error) {
+        console.error("Error type-checking the spec:", error);
+        return [];
+      }
+    }, { delay: 750 });
+
+    const typeCompletions = autocompletion({
+      override: [async (context: CompletionContext) => {
+        const word = context.matchBefore(/[\w$]*/);
+        if (!word) return null;
+        const afterDot = context.state.sliceDoc(word.from - 1, word.from) === '.';
+        if (word.from === word.to && !afterDot && !context.explicit) return null;
+        try {
+          const { entries } = await completeCypressSpec({ repoPath, specRelativePath, code: context.state.doc.toString(), position: context.pos });
+          return {
+            from: word.from,
+            options: entries.map(entry => ({ label: entry.label, type: COMPLETION_TYPES[entry.kind], detail: entry.kind, boost: -Number(entry.sortText) || 0 })),
+            validFor: /^[\w$]*$/,
+          };
+        } catch (error) {
+          console.error("Error completing the spec:", error);
+          return null;
+        }
+      }],
+    });
+
+    return [language, typeCheck, lintGutter(), typeCompletions];
+  }, [repoPath, specRelativePath, selectorPolicy]);
+
+  const errorCount = diagnostics?.filter(diagnostic => diagnostic.severity === 'error').length ?? 0;
+
+  return (
+    <div className="space-y-1">
+      <CodeMirror
+        value={value}
+        onChange={onChange}
+        extensions={extensions}
+        editable={!readOnly}
+        readOnly={readOnly}
+        height="18rem"
+        basicSetup={{ foldGutter: false, autocompletion: !repoPath }}
+        className="overflow-hidden rounded-md border text-sm"
+      />
+      {repoPath && diagnostics && (
+        <p className={`text-xs ${errorCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {errorCount > 0 ? `${errorCount} ${errorCount === 1 ? 'error' : 'errors'} from the type-check and spec validation` : 'No type or validation errors'}
+          {cypressTypes ? '.' : ' (Cypress is not installed in the repository, so types are not checked).'}
+        </p>
+      )}
+    </div>
+  );
+}
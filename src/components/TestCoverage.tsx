@@ -0,0 +1,56 @@
+import { Badge } from "@/components/ui/badge";
+import type { CypressSpecInventory, FlowCoverage } from '@/ai/schemas/cypress-spec-inventory';
+import type { UserFlow } from '@/ai/schemas/user-flow';
+
+export interface CoverageReport {
+  app?: string;
+  inventory: CypressSpecInventory;
+  coverage: FlowCoverage[];
+}
+
+const STATUS_LABELS: Record<FlowCoverage['status'], string> = {
+  covered: 'covered',
+  partial: 'partially covered',
+  none: 'no tests',
+};
+
+interface TestCoverageProps {
+  reports: CoverageReport[];
+  flows: UserFlow[];
+}
+
+export function TestCoverage({ reports, flows }: TestCoverageProps) {
+  return (
+    <div className="space-y-4">
+      {reports.map((report) => (
+        <div key={report.app || '.'} className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {report.app && <span className="font-medium">{report.app}:</span>}
+            <span>{report.inventory.specs.length} existing specs, {report.inventory.customCommands.length} custom commands, {report.inventory.fixtures.length} fixtures</span>
+          </div>
+          {report.inventory.customCommands.length > 0 && (
+            <p className="text-xs text-muted-foreground">Commands: {report.inventory.customCommands.map(command => <code key={`${command.file}:${command.name}`} className="font-mono mr-1">cy.{command.name}()</code>)}</p>
+          )}
+          <ul className="space-y-2 text-sm">
+            {report.coverage.map((entry) => {
+              const flow = flows.find(candidate => candidate.id === entry.flowId);
+              return (
+                <li key={entry.flowId} className="rounded-md border p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1">{flow?.name || entry.flowId}</span>
+                    <Badge variant={entry.status === 'covered' ? 'default' : entry.status === 'partial' ? 'secondary' : 'outline'}>{STATUS_LABELS[entry.status]}</Badge>
+                  </div>
+                  {entry.specs.slice(0, 3).map((spec) => (
+                    <p key={spec.file} className="text-xs text-muted-foreground">
+                      <code className="font-mono">{spec.file}</code> — {spec.reasons.join('; ')}
+                    </p>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
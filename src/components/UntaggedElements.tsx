@@ -0,0 +1,30 @@
+import { Badge } from "@/components/ui/badge";
+import type { UntaggedElement } from '@/ai/schemas/selector-policy';
+
+interface UntaggedElementsProps {
+  elements: UntaggedElement[];
+  // The attribute to suggest, i.e. the policy's most preferred one
+  testIdAttribute: string;
+}
+
+export function UntaggedElements({ elements, testIdAttribute }: UntaggedElementsProps) {
+  if (elements.length === 0) {
+    return <p className="text-xs text-muted-foreground">Every field, button and link in the flow's files has a test id.</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Elements without a test id ({elements.length})</p>
+      <p className="text-xs text-muted-foreground">Adding these attributes to the source lets the spec select the elements without relying on text or markup.</p>
+      <ul className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2 text-xs">
+        {elements.map((element) => (
+          <li key={`${element.file}:${element.line}:${element.tag}`} className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{element.kind}</Badge>
+            <code className="font-mono text-muted-foreground">{element.file}:{element.line}</code>
+            <span>&lt;{element.tag}&gt;{element.text && ` ${element.text}`}</span>
+            <code className="ml-auto font-mono">{`${testIdAttribute}="${element.suggestedTestId}"`}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
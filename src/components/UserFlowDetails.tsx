@@ -0,0 +1,33 @@
+import { Badge } from "@/components/ui/badge";
+import type { UserFlow } from '@/ai/schemas/user-flow';
+
+interface UserFlowDetailsProps {
+  flow: UserFlow;
+}
+
+export function UserFlowDetails({ flow }: UserFlowDetailsProps) {
+  return (
+    <div className="rounded-md border bg-muted/30 p-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={flow.priority === 'high' ? 'default' : 'secondary'}>{flow.priority} priority</Badge>
+        <Badge variant="outline">Suggested: {flow.suggestedTestType}</Badge>
+        <code className="font-mono text-xs bg-muted p-1 rounded">{flow.entryRoute}</code>
+      </div>
+      <p>{flow.description}</p>
+      {flow.preconditions.length > 0 && (
+        <p className="text-xs text-muted-foreground">Preconditions: {flow.preconditions.join('; ')}</p>
+      )}
+      {flow.steps.length > 0 && (
+        <ol className="list-decimal list-inside text-xs space-y-0.5">
+          {flow.steps.map((step, index) => <li key={index}>{step}</li>)}
+        </ol>
+      )}
+      {flow.testData.length > 0 && (
+        <p className="text-xs text-muted-foreground">Test data: {flow.testData.join('; ')}</p>
+      )}
+      {flow.sourceFiles.length > 0 && (
+        <p className="text-xs text-muted-foreground">Files: {flow.sourceFiles.map(file => <code key={file} className="font-mono mr-1">{file}</code>)}</p>
+      )}
+    </div>
+  );
+}
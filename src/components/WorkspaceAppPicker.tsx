@@ -0,0 +1,46 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { RepositoryWorkspace, WorkspacePackage } from '@/ai/schemas/workspace';
+import { Boxes } from 'lucide-react';
+
+const KIND_LABELS: Record<WorkspacePackage['kind'], string> = {
+  'web-app': 'web app',
+  'api': 'API',
+  'library': 'library',
+  'unknown': 'other',
+};
+
+interface WorkspaceAppPickerProps {
+  workspace: RepositoryWorkspace;
+  selectedAppPaths: string[];
+  disabled?: boolean;
+  onChange: (appPaths: string[]) => void;
+}
+
+export function WorkspaceAppPicker({ workspace, selectedAppPaths, disabled, onChange }: WorkspaceAppPickerProps) {
+  const toggle = (appPath: string, checked: boolean) => {
+    onChange(checked ? [...selectedAppPaths, appPath] : selectedAppPaths.filter(selected => selected !== appPath));
+  };
+  // Web apps first; libraries rarely have flows of their own
+  const packages = [...workspace.packages].sort((a, b) => Number(b.kind === 'web-app') - Number(a.kind === 'web-app'));
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center"><Boxes className="mr-2 h-4 w-4 text-muted-foreground" />Monorepo apps ({workspace.tools.join(' + ')})</Label>
+      <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border p-2">
+        {packages.map((pkg) => (
+          <div key={pkg.path} className="flex items-center space-x-2">
+            <Checkbox id={`app-${pkg.path}`} checked={selectedAppPaths.includes(pkg.path)} disabled={disabled} onCheckedChange={(checked) => toggle(pkg.path, checked === true)} />
+            <Label htmlFor={`app-${pkg.path}`} className="flex flex-1 items-center gap-2 font-normal">
+              <span>{pkg.name}</span>
+              <code className="text-xs text-muted-foreground">{pkg.path}</code>
+              <Badge variant={pkg.kind === 'web-app' ? 'default' : 'secondary'} className="ml-auto">{KIND_LABELS[pkg.kind]}</Badge>
+            </Label>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Select the apps to analyze; with none selected, every web app is analyzed. Flows are grouped by app.</p>
+    </div>
+  );
+}
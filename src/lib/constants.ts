@@ -1,3 +1,4 @@
+import type { SelectorPolicy } from '@/ai/schemas/selector-policy';
 
 // MOCK_USER_FLOWS is no longer primarily used for populating flows,
 // as flows are now identified by analyzing the repository.
@@ -15,3 +16,12 @@ export const MOCK_USER_FLOWS: string[] = [
 ];
 
 export type TestType = "E2E" | "Component";
+
+// Prefer data-cy/data-testid, then ARIA role or label, then text; class and tag selectors fail validation
+export const DEFAULT_SELECTOR_POLICY: SelectorPolicy = {
+  testIdAttributes: ['data-cy', 'data-testid'],
+  allowRoleAndLabel: true,
+  allowText: true,
+  cssSelectors: 'error',
+  reportMissingTestIds: false,
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createUnifiedDiff, diffLines } from '@/lib/diff';
+
+const numbered = (count: number) => Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+describe('diffLines', () => {
+  it('marks every line as context for identical input', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([{ type: 'context', text: 'a' }, { type: 'context', text: 'b' }]);
+  });
+
+  it('keeps the common lines around a replaced line', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc').map(line => line.type)).toEqual(['context', 'removed', 'added', 'context']);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  it('is empty for identical input', () => {
+    expect(createUnifiedDiff('a\nb\nc', 'a\nb\nc', 'spec.cy.ts')).toBe('');
+  });
+
+  it('renders a pure insertion with its hunk header', () => {
+    expect(createUnifiedDiff('a\nb\nc', 'a\nx\nb\nc', 'spec.cy.ts')).toBe([
+      '--- a/spec.cy.ts',
+      '+++ b/spec.cy.ts',
+      '@@ -1,3 +1,4 @@',
+      ' a',
+      '+x',
+      ' b',
+      ' c',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders a pure deletion with its hunk header', () => {
+    expect(createUnifiedDiff('a\nb\nc', 'a\nc', 'spec.cy.ts')).toBe([
+      '--- a/spec.cy.ts',
+      '+++ b/spec.cy.ts',
+      '@@ -1,3 +1,2 @@',
+      ' a',
+      '-b',
+      ' c',
+      '',
+    ].join('\n'));
+  });
+
+  it('splits distant changes into hunks with three context lines each', () => {
+    const oldLines = numbered(20);
+    const newLines = [...oldLines];
+    newLines[1] = 'line two';
+    newLines[17] = 'line eighteen';
+
+    expect(createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'spec.cy.ts')).toBe([
+      '--- a/spec.cy.ts',
+      '+++ b/spec.cy.ts',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,6 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      '+line eighteen',
+      ' line 19',
+      ' line 20',
+      '',
+    ].join('\n'));
+  });
+
+  it('merges changes whose context lines overlap into one hunk', () => {
+    const oldLines = numbered(12);
+    const newLines = [...oldLines];
+    newLines[3] = 'line four';
+    newLines[8] = 'line nine';
+
+    const diff = createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'spec.cy.ts');
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(['@@ -1,12 +1,12 @@']);
+  });
+});
@@ -0,0 +1,83 @@
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+// Line-based LCS diff; specs are small enough that the quadratic table is not a concern.
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'context', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+export function createUnifiedDiff(oldText: string, newText: string, fileName: string, contextLines = 3): string {
+  const lines = diffLines(oldText, newText);
+  const changed = lines.map(line => line.type !== 'context');
+  if (!changed.includes(true)) {
+    return '';
+  }
+
+  let diff = `--- a/${fileName}\n+++ b/${fileName}\n`;
+  let oldLine = 1;
+  let newLine = 1;
+  let index = 0;
+  while (index < lines.length) {
+    if (!changed[index]) {
+      oldLine++;
+      newLine++;
+      index++;
+      continue;
+    }
+    // Open a hunk with leading context, then extend it while changes are within 2 * contextLines of each other.
+    const start = Math.max(index - contextLines, 0);
+    let end = index;
+    while (end < lines.length) {
+      const nextChange = changed.indexOf(true, end + 1);
+      if (nextChange !== -1 && nextChange - end <= contextLines * 2) {
+        end = nextChange;
+      } else {
+        break;
+      }
+    }
+    end = Math.min(end + contextLines, lines.length - 1);
+
+    const leading = index - start;
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(line => line.type !== 'added').length;
+    const newCount = hunk.filter(line => line.type !== 'removed').length;
+    diff += `@@ -${oldLine - leading},${oldCount} +${newLine - leading},${newCount} @@\n`;
+    for (const line of hunk) {
+      diff += `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}\n`;
+    }
+
+    for (let k = index; k <= end; k++) {
+      if (lines[k].type !== 'added') oldLine++;
+      if (lines[k].type !== 'removed') newLine++;
+    }
+    index = end + 1;
+  }
+  return diff;
+}
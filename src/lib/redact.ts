@@ -0,0 +1,13 @@
+const REDACTED = '***';
+
+// Removes credentials from text before it is logged or returned to the client:
+// every known secret, and any user:password part embedded in a URL.
+export function redactSecrets(text: string, secrets: string[] = []): string {
+  let redacted = text.replace(/(\b[a-z][a-z0-9+.-]*:\/\/)[^/\s:@]+:[^/\s@]+@/gi, `$1${REDACTED}@`);
+  for (const secret of secrets) {
+    if (secret.length >= 4) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
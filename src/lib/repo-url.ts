@@ -0,0 +1,36 @@
+// scp-like SSH remotes, e.g. git@github.com:org/repo.git
+const SCP_LIKE_URL = /^[\w.-]+@[\w.-]+:[\w./~-]+$/;
+
+export const isSshRepoUrl = (repoUrl: string): boolean => {
+  return SCP_LIKE_URL.test(repoUrl) || repoUrl.startsWith('ssh://');
+};
+
+export const isSupportedRepoUrl = (repoUrl: string): boolean => {
+  return /^https:\/\/[^\s]+$/.test(repoUrl) || isSshRepoUrl(repoUrl);
+};
+
+// Host of an HTTPS, ssh:// or scp-like remote, e.g. "github.com"
+export const repoUrlHost = (repoUrl: string): string | undefined => {
+  const scpMatch = repoUrl.match(/^[\w.-]+@([\w.-]+):/);
+  if (scpMatch) return scpMatch[1].toLowerCase();
+  try {
+    return new URL(repoUrl).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+};
+
+// Branch, tag or commit names that are safe to pass to git as a positional argument
+export const isSafeGitRef = (ref: string): boolean => {
+  return /^[\w./@^~{}-]+$/.test(ref) && !ref.startsWith('-') && !ref.includes('..');
+};
+
+// A project root inside the repository, e.g. "apps/web"; rejects absolute paths and parent segments
+export const normalizeProjectRoot = (projectRoot: string | undefined): string | undefined => {
+  const trimmed = projectRoot?.trim().replace(/\\/g, '/').replace(/^\.\/+|\/+$/g, '');
+  if (!trimmed || trimmed === '.') return undefined;
+  if (trimmed.startsWith('/') || trimmed.split('/').includes('..')) {
+    throw new Error(`The project root must be a path inside the repository: ${projectRoot}`);
+  }
+  return trimmed;
+};
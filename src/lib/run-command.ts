@@ -0,0 +1,52 @@
+import { spawn } from 'child_process';
+
+export interface RunCommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  aborted: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  timeoutMs?: number;
+  // Stops the command early, e.g. when a watchdog sees a limit exceeded
+  signal?: AbortSignal;
+}
+
+// Runs a command without a shell (arguments are passed as-is) and collects its output.
+// Rejects only when the command cannot be started; a non-zero exit code is reported in the result.
+export function runCommand(command: string, args: string[], { cwd, env = process.env, timeoutMs = 10 * 60_000, signal }: RunCommandOptions): Promise<RunCommandResult> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let aborted = false;
+    const child = spawn(command, args, { cwd, env, stdio: ['ignore', 'pipe', 'pipe'] });
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, timeoutMs);
+    const onAbort = () => {
+      aborted = true;
+      child.kill('SIGTERM');
+    };
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', (data) => { stdout += data.toString(); });
+    child.stderr.on('data', (data) => { stderr += data.toString(); });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({ code, stdout, stderr, timedOut, aborted });
+    });
+  });
+}
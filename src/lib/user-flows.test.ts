@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeFlowNameForFilename, toFlowId } from '@/lib/user-flows';
+
+describe('sanitizeFlowNameForFilename', () => {
+  it('lowercases the name and joins words with dashes', () => {
+    expect(sanitizeFlowNameForFilename('User Login')).toBe('user-login.cy.ts');
+  });
+
+  it('collapses runs of unsafe characters into a single dash', () => {
+    expect(sanitizeFlowNameForFilename('Add item -> cart (guest)')).toBe('add-item-cart-guest-.cy.ts');
+  });
+
+  it('keeps dots, underscores and dashes', () => {
+    expect(sanitizeFlowNameForFilename('checkout_v2.flow-a')).toBe('checkout_v2.flow-a.cy.ts');
+  });
+
+  it('never produces path separators', () => {
+    expect(sanitizeFlowNameForFilename('../etc/passwd')).toBe('..-etc-passwd.cy.ts');
+    expect(sanitizeFlowNameForFilename('a\\b')).toBe('a-b.cy.ts');
+  });
+});
+
+describe('toFlowId', () => {
+  it('trims leading and trailing dashes', () => {
+    expect(toFlowId('  Sign Up! ')).toBe('sign-up');
+  });
+
+  it('falls back to "flow" for names without letters or digits', () => {
+    expect(toFlowId('***')).toBe('flow');
+  });
+});
@@ -0,0 +1,20 @@
+import type { UserFlow } from '@/ai/schemas/user-flow';
+
+export const toFlowId = (name: string): string => {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'flow';
+};
+
+// Spec file name of a flow's E2E spec, e.g. "User Login" -> "user-login.cy.ts"; single, batch and recorded generation all use it
+export const sanitizeFlowNameForFilename = (flowName: string): string => {
+  return flowName.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/-+/g, '-') + '.cy.ts';
+};
+
+// Plain-text rendering of a flow, for prompts and for flows that only take a description string.
+export const formatUserFlow = (flow: UserFlow): string => {
+  const lines = [`${flow.name}: ${flow.description}`, `Entry route: ${flow.entryRoute}`];
+  if (flow.preconditions.length > 0) lines.push(`Preconditions: ${flow.preconditions.join('; ')}`);
+  if (flow.steps.length > 0) lines.push('Steps:', ...flow.steps.map((step, index) => `  ${index + 1}. ${step}`));
+  if (flow.testData.length > 0) lines.push(`Test data: ${flow.testData.join('; ')}`);
+  if (flow.sourceFiles.length > 0) lines.push(`Implemented in: ${flow.sourceFiles.join(', ')}`);
+  return lines.join('\n');
+};
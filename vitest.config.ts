@@ -0,0 +1,18 @@
+import * as path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  esbuild: { jsx: 'automatic' },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    // The default exclude skips every cypress/ directory, which would include src/ai/cypress
+    exclude: ['**/node_modules/**', '**/.next/**'],
+    setupFiles: ['./vitest.setup.ts'],
+    // Flows load the Genkit instance; replay mode needs no provider plugin or API key
+    env: { CYPRESS_PILOT_MODEL_MODE: 'replay' },
+    testTimeout: 30_000,
+  },
+});
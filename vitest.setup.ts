@@ -0,0 +1,13 @@
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// jsdom does not lay out pages, so it has no scrolling
+if (typeof Element !== 'undefined' && !Element.prototype.scrollIntoView) {
+  Element.prototype.scrollIntoView = () => {};
+}
+
+// Testing Library only unmounts automatically when test globals are enabled
+afterEach(() => {
+  cleanup();
+});